@@ -1,11 +1,40 @@
 'use client';
 
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useLayoutEffect, useState, useRef } from 'react';
 import { getTenantId } from '@/lib/tenant';
-import { ChatAPI, UserInfo } from '@/lib/api';
-import { ChatWebSocketNative } from '@/lib/ws-native';
-import { getSessionInfo, hasValidSession, getVisitorId, isConversationExpired, clearConversation, getSenderName, setSenderName, getConversationId } from '@/lib/session';
+import { ChatAPI } from '@/lib/api';
+import type { UserInfo, AttachmentItem } from '@/lib/types';
+import { ChatWebSocketNative, SocketAuthError, SocketCredentials } from '@/lib/ws-native';
+import { ConnectionState, isConnectedStatus } from '@/lib/connection-state';
+import { ConnectionMetrics, toConnectionQualityPayload } from '@/lib/connection-quality';
+import { isChatApiError, isIdentityError } from '@/lib/api-error';
+import { rateLimiter, RateLimitBucket } from '@/lib/rate-limiter';
+import { ChatMessagePayload, DeliveryStatus, MessageReadEvent, MessageUpdatedEvent, MessageDeletedEvent, ConversationActor, ConversationClosedEvent } from '@/lib/protocol';
+import { getSessionInfo, hasValidSession, getVisitorId, isConversationExpired, clearConversation, getSenderName, setSenderName, getConversationId, getMessageCursor, advanceMessageCursor } from '@/lib/session';
 import { UploadService } from '@/lib/upload-service';
+import { MessageOutbox, OutboxEntry, OutboxResult } from '@/lib/outbox';
+import { TabCoordinator } from '@/lib/tab-coordinator';
+import { ChatTransport, createTransport, getTransportMode } from '@/lib/transport';
+import { loadConfiguredPlugins } from '@/lib/plugins';
+import { isWithinEditWindow } from '@/lib/message-edit';
+import { getCsatConfig, isCsatHandled, markCsatHandled, type CsatConfig } from '@/lib/csat';
+import { buildTranscript, downloadTranscript, type TranscriptFormat } from '@/lib/transcript';
+import {
+  parsePreChatForm,
+  validatePreChatAnswers,
+  cleanPreChatAnswers,
+  getPreChatAnswers,
+  setPreChatAnswers,
+  type PreChatForm,
+  type PreChatAnswers,
+} from '@/lib/pre-chat-form';
+import {
+  AVAILABILITY_RECHECK_MS,
+  describeUnavailable,
+  describeReplyExpectation,
+  parseAvailability,
+  type AgentAvailability,
+} from '@/lib/availability';
 import styles from './styles.module.css';
 
 // Force dynamic rendering - no caching
@@ -16,12 +45,161 @@ interface Message {
   text: string;
   sender: 'user' | 'bot' | 'agent' | 'system';
   timestamp: string;
-  deliveryStatus?: 'pending' | 'delivered' | 'failed';
+  deliveryStatus?: DeliveryStatus;
+  statusTimestamps?: Partial<Record<'sent' | 'delivered' | 'read', string>>; // When each status was reached
+  temp_id?: string; // Client temp_id echoed by the server
+  senderName?: string;
+  attachments?: unknown; // As received / sent, see lib/transcript getAttachmentLinks
+  waiting?: boolean; // Queued behind an earlier message that has to be retried first
+  editedAt?: string; // Visitor changed the text after sending it
+  deleted?: boolean; // Visitor deleted it - shown as a tombstone, text and attachments dropped
+}
+
+// Forward-only order of delivery states ('failed' and replays back to 'pending' are set explicitly)
+const DELIVERY_STATUS_RANK: Record<DeliveryStatus, number> = {
+  failed: 0,
+  pending: 1,
+  sent: 2,
+  delivered: 3,
+  read: 4,
+};
+
+// Move a message to a later delivery status, recording when it happened; never moves backwards
+function advanceDeliveryStatus(message: Message, status: 'sent' | 'delivered' | 'read', at: string = new Date().toISOString()): Message {
+  if (message.deliveryStatus && DELIVERY_STATUS_RANK[message.deliveryStatus] >= DELIVERY_STATUS_RANK[status]) {
+    return message;
+  }
+  return {
+    ...message,
+    deliveryStatus: status,
+    statusTimestamps: { ...message.statusTimestamps, [status]: at },
+  };
 }
 
 const MESSAGES_STORAGE_KEY = 'chat_messages';
+const TYPING_IDLE_MS = 3000; // Send typing:stop after this long without keystrokes
+const TYPING_INDICATOR_TIMEOUT_MS = 8000; // Hide "Agent is typing…" if typing:stop never arrives
+const READ_RECEIPT_DEBOUNCE_MS = 500; // Batch agent messages that scroll into view together into one message:read
+const LONG_PRESS_MS = 500; // Touch and hold a message this long to open its edit/delete menu
 const MESSAGES_STORAGE_VERSION = '1';
 
+/**
+ * State the leader tab shares with follower tabs (besides the message list)
+ */
+interface SharedUiState {
+  connectionState: ConnectionState | null;
+  typingIndicator: { sender: 'agent' | 'bot' | 'system'; senderName?: string } | null;
+  conversationClosed: boolean;
+  chatActive: boolean;
+  presenceSession: { session_id: string; ws_token: string; websocket_url: string } | null;
+  wsError: string | null;
+  connectionQuality: ConnectionMetrics | null;
+  hasOlderMessages: boolean;
+  csatPrompt: CsatPrompt | null;
+  preChatForm: PreChatForm | null;
+  identityError: string | null;
+  availability: AgentAvailability | null;
+}
+
+/** Satisfaction survey offered for a closed conversation */
+interface CsatPrompt {
+  conversationId: string;
+  agentId?: string; // Agent who handled it last, for CSAT per agent
+  submitted: boolean; // Showing the thank-you note
+}
+
+/**
+ * What the leader tab broadcasts to follower tabs (event type -> payload)
+ */
+type TabEvents = {
+  messages: Message[];
+  ui: SharedUiState;
+  draft: string;
+  'unread-cleared': undefined;
+};
+
+/**
+ * What follower tabs ask the leader tab to do (request type -> payload and result)
+ */
+type TabRequests = {
+  snapshot: { payload: undefined; result: { messages: Message[]; ui: SharedUiState | null } };
+  append: { payload: { message: Message }; result: void };
+  send: { payload: { message: Message }; result: void };
+  retry: { payload: { message: Message }; result: void };
+  'edit-message': { payload: { message: Message; text: string }; result: void };
+  'delete-message': { payload: { message: Message }; result: void };
+  typing: { payload: { isTyping: boolean }; result: void };
+  read: { payload: { ids: string[] }; result: boolean };
+  'init-conversation': { payload: undefined; result: void };
+  'clear-history': { payload: undefined; result: void };
+  'load-older': { payload: undefined; result: void };
+  'end-chat': { payload: undefined; result: void };
+  csat: { payload: { prompt: CsatPrompt | null }; result: void };
+};
+
+type ChatTabs = TabCoordinator<TabEvents, TabRequests>;
+
+/** The visitor's answers while filling in the survey */
+interface CsatForm {
+  rating?: number;
+  comment: string;
+  answers: Record<string, string>;
+  submitting: boolean;
+  error: string | null;
+}
+
+const EMPTY_CSAT_FORM: CsatForm = { comment: '', answers: {}, submitting: false, error: null };
+
+/** "Email me this transcript" form */
+interface TranscriptEmailForm {
+  email: string;
+  sending: boolean;
+  result: 'sent' | 'error' | null;
+}
+
+/** Edit / delete menu of one of the visitor's own messages */
+interface MessageAction {
+  messageId: string;
+  mode: 'menu' | 'edit' | 'confirm-delete';
+  text: string; // Edit box
+  saving: boolean;
+  error: string | null;
+}
+
+/** Leave-a-message form shown instead of live chat while no agent is available */
+interface OfflineMessageForm {
+  values: PreChatAnswers; // name, email, message
+  errors: Record<string, string>;
+  files: File[];
+  clientTicketId: string; // Same for repeated submits of this form, so the backend files one ticket
+  submitting: boolean;
+  error: string | null;
+  confirmation: string | null; // When to expect a reply, once the message is left
+}
+
+// Validated like a pre-chat form
+const OFFLINE_MESSAGE_FORM: PreChatForm = {
+  enabled: true,
+  title: 'Leave us a message',
+  fields: [
+    { id: 'name', label: 'Name', type: 'text', required: true },
+    { id: 'email', label: 'Email', type: 'email', required: true },
+    { id: 'message', label: 'Message', type: 'textarea', required: true },
+  ],
+};
+
+const MAX_OFFLINE_ATTACHMENTS = 5;
+
+function getAttachmentType(file: File): AttachmentItem['type'] {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('video/')) return 'video';
+  if (file.type.startsWith('audio/')) return 'audio';
+  return 'document';
+}
+
+// Start loading the previous page when scrolled up to within this distance of the top
+const LOAD_OLDER_THRESHOLD_PX = 80;
+
 // Save messages to localStorage
 function saveMessagesToStorage(messages: Message[], lastUserMessageAt?: number): void {
   if (typeof window === 'undefined') return;
@@ -96,6 +274,86 @@ function loadMessagesFromStorage(): Message[] {
   }
 }
 
+// Display name for whoever triggered a conversation lifecycle event
+function describeActor(actor: ConversationActor | undefined, fallback: string): string {
+  if (!actor) return fallback;
+  if (actor.name) return actor.name;
+  if (actor.type === 'user') return 'You';
+  if (actor.type === 'bot') return 'The assistant';
+  return fallback;
+}
+
+// System message for conversation:closed, e.g. "Anna closed this conversation (resolved)."
+function describeClosedConversation(event: ConversationClosedEvent): string {
+  const followUp = 'You can start a new conversation at any time.';
+  if (event.reason === 'inactivity' || (!event.closed_by && !event.reason)) {
+    return `This conversation has been closed due to inactivity. ${followUp}`;
+  }
+  const closedBy = event.closed_by && event.closed_by.type !== 'system' ? describeActor(event.closed_by, 'An agent') : null;
+  const reason = event.reason && event.reason !== 'inactivity' ? ` (${event.reason})` : '';
+  return closedBy
+    ? `${closedBy} closed this conversation${reason}. ${followUp}`
+    : `This conversation has been closed${reason}. ${followUp}`;
+}
+
+// The visitor's own messages can be edited / deleted once the server has them, within the edit window
+function canChangeMessage(message: Message): boolean {
+  return message.sender === 'user'
+    && !message.deleted
+    && !message.id.startsWith('temp-')
+    && message.deliveryStatus !== 'pending'
+    && message.deliveryStatus !== 'failed'
+    && isWithinEditWindow(message.timestamp);
+}
+
+// Deleted message: only the tombstone stays, in the list and in the cache
+function toTombstone(message: Message): Message {
+  return { ...message, text: '', attachments: undefined, editedAt: undefined, deleted: true };
+}
+
+function describeMessageChangeError(error: unknown): string {
+  return isChatApiError(error, 'EDIT_WINDOW_EXPIRED')
+    ? 'This message can no longer be changed.'
+    : "Couldn't change the message. Please try again.";
+}
+
+// Tooltip for the delivery status icon, e.g. "Read 10:42"
+function getDeliveryStatusLabel(message: Message): string {
+  const labels: Record<DeliveryStatus, string> = {
+    pending: 'Sending',
+    sent: 'Sent',
+    delivered: 'Delivered',
+    read: 'Read',
+    failed: 'Not sent',
+  };
+  const status = message.deliveryStatus || 'pending';
+  if (status === 'pending' && message.waiting) return 'Waiting for an earlier message';
+  const at = status === 'sent' || status === 'delivered' || status === 'read' ? message.statusTimestamps?.[status] : undefined;
+  if (!at) return labels[status];
+  return `${labels[status]} ${new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+// Merge fetched messages into the list without duplicates, ordered by timestamp
+// A fetched copy of an optimistic message (matched by temp_id) replaces it in place
+function mergeMessages(current: Message[], incoming: Message[]): Message[] {
+  const knownIds = new Set(current.map(m => m.id));
+  let merged = current;
+  const additions: Message[] = [];
+  for (const message of incoming) {
+    if (knownIds.has(message.id)) continue;
+    if (message.temp_id && knownIds.has(message.temp_id)) {
+      merged = merged.map(m => m.id === message.temp_id ? { ...message, timestamp: m.timestamp } : m);
+    } else {
+      additions.push(message);
+    }
+    knownIds.add(message.id);
+  }
+  if (additions.length === 0) return merged;
+  return [...merged, ...additions].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
+
 // Clear messages from localStorage
 function clearMessagesFromStorage(): void {
   if (typeof window === 'undefined') return;
@@ -110,24 +368,72 @@ export default function EmbedPage() {
   const [tenantId, setTenantId] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
-  const [isConnected, setIsConnected] = useState(false);
+  const [connectionState, setConnectionState] = useState<ConnectionState | null>(null);
+  const [connectionQuality, setConnectionQuality] = useState<ConnectionMetrics | null>(null);
   const [isLoading, setIsLoading] = useState(false); // Start as false - only show loading when initializing
   const [wsError, setWsError] = useState<string | null>(null);
+  const [identityError, setIdentityError] = useState<string | null>(null); // Gateway rejected the visitor's userSignature
+  const identityErrorRef = useRef<string | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const [presenceSession, setPresenceSession] = useState<{ session_id: string; ws_token: string; websocket_url: string } | null>(null);
-  const [chatState, setChatState] = useState<'closed' | 'name_prompt' | 'active'>('closed');
-  const [senderName, setSenderNameState] = useState<string | null>(null);
+  const [chatState, setChatState] = useState<'closed' | 'pre_chat' | 'offline' | 'active'>('closed');
   const [conversationClosed, setConversationClosed] = useState(false);
-  const [nameInputValue, setNameInputValue] = useState('');
+  const conversationClosedRef = useRef(false);
+  const chatOpenedRef = useRef(false); // Visitor opened the chat - live chat starts once an agent comes online
+  const [availability, setAvailability] = useState<AgentAvailability | null>(null); // Unknown until the Gateway says
+  const availabilityRef = useRef<AgentAvailability | null>(null);
+  const [offlineForm, setOfflineForm] = useState<OfflineMessageForm | null>(null);
+  const offlineFileInputRef = useRef<HTMLInputElement>(null);
+  const [csatPrompt, setCsatPrompt] = useState<CsatPrompt | null>(null);
+  const [csatForm, setCsatForm] = useState<CsatForm>(EMPTY_CSAT_FORM);
+  const csatConfigRef = useRef<CsatConfig | null>(null);
+  const [menuOpen, setMenuOpen] = useState(false); // Header menu (transcript actions)
+  const [isExporting, setIsExporting] = useState(false);
+  const [transcriptEmail, setTranscriptEmail] = useState<TranscriptEmailForm | null>(null);
+  const [messageAction, setMessageAction] = useState<MessageAction | null>(null);
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const userEmailRef = useRef<string | undefined>(undefined); // Logged-in visitor's email, to prefill the transcript form
+  /** Agent currently handling the conversation (from conversation:assigned / transferred) */
+  const currentAgentRef = useRef<string | undefined>(undefined);
+  const [preChatForm, setPreChatForm] = useState<PreChatForm | null>(null); // Tenant's form, from /webchat/session
+  const preChatFormRef = useRef<PreChatForm | null>(null);
+  const [preChatValues, setPreChatValues] = useState<PreChatAnswers>({});
+  const [preChatErrors, setPreChatErrors] = useState<Record<string, string>>({});
   const [isUploading, setIsUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [showClearButton, setShowClearButton] = useState(false);
+  const [typingIndicator, setTypingIndicator] = useState<{ sender: 'agent' | 'bot' | 'system'; senderName?: string } | null>(null);
+  const [throttledBuckets, setThrottledBuckets] = useState<RateLimitBucket[]>([]); // Rate limiter buckets currently holding sends back
+  const typingIndicatorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isTypingRef = useRef(false);
+  const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false); // Earlier pages of the conversation not loaded yet
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const loadingOlderRef = useRef(false); // Guards against scroll events firing before isLoadingOlder is rendered
+  const lastScrollTopRef = useRef(0);
+  /** First message and scroll height of the last render - to keep the view still when older pages are prepended */
+  const scrollAnchorRef = useRef<{ firstId?: string; scrollHeight: number }>({ scrollHeight: 0 });
+  const readReportedIdsRef = useRef<Set<string>>(new Set()); // Agent/bot message ids already reported as read
+  const pendingReadIdsRef = useRef<Set<string>>(new Set()); // Seen but not yet reported
+  const readFlushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const wsRef = useRef<ChatWebSocketNative | null>(null);
   const apiRef = useRef<ChatAPI | null>(null);
+  const outboxRef = useRef<MessageOutbox | null>(null);
   /** Ref for presence session so open-chat handler can read it without stale state closure */
   const presenceSessionRef = useRef<{ session_id: string; ws_token: string; websocket_url: string } | null>(null);
+  /** Endpoint that issued the socket's current ws_token - renewals go back to the same one */
+  const socketTokenSourceRef = useRef<'session' | 'init'>('session');
+  /** Sends / history / receiving over HTTP, Socket.IO or both, as configured by the embedding site */
+  const transportRef = useRef<ChatTransport | null>(null);
+  /** Stops receiving through the transport (leader tab only) */
+  const unsubscribeTransportRef = useRef<(() => void) | null>(null);
+  /** Leader election across tabs of the same session - only the leader tab holds the socket */
+  const tabsRef = useRef<ChatTabs | null>(null);
+  /** Latest messages / UI state, read by tab request handlers registered on mount */
+  const sharedStateRef = useRef<{ messages: Message[]; ui: SharedUiState | null }>({ messages: [], ui: null });
 
   /**
    * Get website info from parent window or detect from current context
@@ -224,9 +530,10 @@ export default function EmbedPage() {
 
   /**
    * Get user info from URL params or parent window
-   * Supports logged-in users with userId and userInfo
+   * Supports logged-in users with userId and userInfo, and the server-generated userSignature that proves
+   * the userId (identity verification)
    */
-  const getUserInfo = (): { userId?: string; userInfo?: UserInfo } => {
+  const getUserInfo = (): { userId?: string; userInfo?: UserInfo; userSignature?: string } => {
     const params = new URLSearchParams(window.location.search);
     
     // Try to get from URL params
@@ -234,6 +541,7 @@ export default function EmbedPage() {
     const userName = params.get('userName');
     const userEmail = params.get('userEmail');
     const userPhone = params.get('userPhone');
+    const userSignature = params.get('userSignature') || undefined;
     
     if (userId) {
       const userInfo: UserInfo = {};
@@ -241,17 +549,22 @@ export default function EmbedPage() {
       if (userEmail) userInfo.email = userEmail;
       if (userPhone) userInfo.phone = userPhone;
       
-      return { userId, userInfo: Object.keys(userInfo).length > 0 ? userInfo : undefined };
+      return { userId, userInfo: Object.keys(userInfo).length > 0 ? userInfo : undefined, userSignature };
     }
     
     // Try to get from parent window (if embedded)
     if (window.parent && window.parent !== window) {
       try {
         const parentConfig = (window.parent as any).ChatWidgetConfig;
+        if (parentConfig?.user?.id) {
+          const { id, signature, ...userInfo } = parentConfig.user;
+          return { userId: id, userInfo: Object.keys(userInfo).length > 0 ? userInfo : undefined, userSignature: signature };
+        }
         if (parentConfig?.userId) {
           return {
             userId: parentConfig.userId,
             userInfo: parentConfig.userInfo,
+            userSignature: parentConfig.userSignature,
           };
         }
       } catch (e) {
@@ -264,78 +577,11 @@ export default function EmbedPage() {
 
   /**
    * Create message handler callback for WebSocket
-   * This handles incoming messages, normalizes them, and updates the message state
+   * Messages arrive already validated and normalized (lib/protocol), this deduplicates them and updates the message state
    */
   const createMessageHandler = () => {
-    return (message: any) => {
+    return (normalizedMessage: ChatMessagePayload) => {
       setMessages((prev) => {
-        // Normalize message format - ensure sender type is consistent
-        // Handle different server formats (sender_type, sender, etc.)
-        let normalizedMessage = { ...message };
-        
-        // Map messageId/message_id to id if present (server sends messageId or message_id, we expect id)
-        // Priority: message_id (from message:new) > messageId (from meta_message_created) > id
-        if (message.message_id && !normalizedMessage.id) {
-          normalizedMessage.id = message.message_id;
-        } else if (message.messageId && !normalizedMessage.id) {
-          normalizedMessage.id = message.messageId;
-        }
-        
-        // Map message_text to text if present (WebSocket sends message_text, we expect text)
-        if (message.message_text && !normalizedMessage.text) {
-          normalizedMessage.text = message.message_text;
-        } else if (!normalizedMessage.text && message.text) {
-          normalizedMessage.text = message.text;
-        }
-        
-        // Map temp_id / client_temp_id for optimistic message replacement (server echoes client temp_id in meta_message_created)
-        const tempIdFromServer = (message as any).temp_id ?? (message as any).client_temp_id;
-        if (tempIdFromServer) {
-          (normalizedMessage as any).temp_id = tempIdFromServer;
-        }
-        
-        // Priority: sender_type > sender > default
-        // Backend uses: "user" (customer/widget), "human" (admin/agent), "ai" (bot)
-        // Normalize to: "user", "agent", "bot"
-        if (message.sender_type) {
-          normalizedMessage.sender = message.sender_type === 'user' 
-            ? 'user' 
-            : (message.sender_type === 'human' || message.sender_type === 'agent' 
-              ? 'agent' 
-              : (message.sender_type === 'ai' ? 'bot' : 'bot'));
-        } else if (message.sender) {
-          // If sender is a UUID (user ID), infer it's a user message
-          const senderStr = String(message.sender);
-          if (senderStr.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
-            normalizedMessage.sender = 'user';
-          } else if (['user', 'bot', 'agent', 'system'].includes(senderStr)) {
-            normalizedMessage.sender = senderStr as 'user' | 'bot' | 'agent' | 'system';
-          } else {
-            normalizedMessage.sender = message.sender;
-          }
-        }
-        
-        // Ensure sender is one of the valid types
-        if (!normalizedMessage.sender || !['user', 'bot', 'agent', 'system'].includes(normalizedMessage.sender)) {
-          // Try to infer from other fields
-          if ((message as any).userId || (message as any).user_id || (message as any).visitor_id || (message as any).sender) {
-            // If sender is a UUID or we have user identifiers, it's a user message
-            const senderStr = String((message as any).sender || '');
-            if (senderStr.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
-              normalizedMessage.sender = 'user';
-            } else {
-              normalizedMessage.sender = 'user'; // Likely a user message if it has userId
-            }
-          } else {
-            normalizedMessage.sender = 'bot'; // Default to bot if unknown
-          }
-        }
-        
-        // Store original sender_type for matching
-        if (message.sender_type && !normalizedMessage.sender_type) {
-          (normalizedMessage as any).sender_type = message.sender_type;
-        }
-        
         // Notify parent (bubble) of new incoming message so it can show alert dot
         // Only for messages from agent/bot/system — not user's own messages
         const isIncoming = normalizedMessage.sender === 'agent' || normalizedMessage.sender === 'bot' || normalizedMessage.sender === 'system';
@@ -345,11 +591,14 @@ export default function EmbedPage() {
           } catch (_) { /* cross-origin safe */ }
         }
         
+        // The agent's message replaces their typing indicator
+        if (isIncoming) {
+          hideTypingIndicator();
+        }
+        
         // STEP 1: Check if message with same ID already exists (simple deduplication by ID)
-        // Also check message_id field (message:new events use message_id as the actual message ID)
-        // message:new events have: id (event ID), message_id (actual message ID)
-        // meta_message_created events have: messageId (actual message ID)
-        const messageId = normalizedMessage.id || (message as any).messageId || (message as any).message_id;
+        // normalizeMessage() already resolved message_id / messageId / id into id
+        const messageId = normalizedMessage.id;
         
         if (messageId) {
           const existingById = prev.find((m) => {
@@ -357,58 +606,32 @@ export default function EmbedPage() {
             if (m.id === messageId) return true;
             // Check if existing message has message_id that matches
             if ((m as any).message_id === messageId) return true;
-            // Check if new message has message_id that matches existing message id
-            if ((message as any).message_id && m.id === (message as any).message_id) return true;
             return false;
           });
           if (existingById) {
-            return prev; // Don't add duplicate
-          }
-        }
-
-        // STEP 1.5: Deduplicate admin/bot messages that arrive twice (message:new fast, then meta_message_created slow)
-        // Both admin ('human'→'agent') and bot ('ai'→'bot') messages come from outside the widget
-        // They both arrive via: 1) message:new (fast WebSocket), 2) meta_message_created (slow, after DB write)
-        // This ONLY runs for non-user messages to avoid interfering with user pending message flow
-        // User messages go through STEP 2 (pending message replacement) instead
-        // Backend sender types: "user" (customer/widget), "human" (admin/agent), "ai" (bot)
-        // After normalization: "user" stays "user", "human" becomes "agent", "ai" becomes "bot"
-        if (normalizedMessage.text && 
-            normalizedMessage.sender && 
-            normalizedMessage.sender !== 'user' &&  // Catches both 'agent' (admin) and 'bot' (AI) messages
-            normalizedMessage.timestamp) {
-          const messageTime = new Date(normalizedMessage.timestamp).getTime();
-          const duplicateByContent = prev.find((m) => {
-            // Match by text and sender (must be same sender type: both 'agent' or both 'bot')
-            if (m.text !== normalizedMessage.text || m.sender !== normalizedMessage.sender) {
-              return false;
+            // Server echo of a message already renamed to its real id (HTTP 202 returned message_id): now delivered
+            if (existingById.sender === 'user') {
+              return prev.map((m) => (m === existingById ? advanceDeliveryStatus(m, 'delivered') : m));
             }
-            // Match within last 60 seconds (messages can arrive with delays due to backend processing, network latency, worker queue)
-            // Increased from 10 seconds to handle cases where message:new and meta_message_created arrive >10 seconds apart
-            const timeDiff = Math.abs(new Date(m.timestamp).getTime() - messageTime);
-            const isWithinWindow = timeDiff < 60000;
-            return isWithinWindow;
-          });
-          
-          if (duplicateByContent) {
-            return prev; // Skip duplicate
+            return prev; // Don't add duplicate
           }
         }
 
         // STEP 2: Replace optimistic message with server echo (real ID)
         // 2a) Primary: match by temp_id (server broadcasts real id + client's temp_id)
-        const serverTempId = (normalizedMessage as any).temp_id;
+        const serverTempId = normalizedMessage.temp_id;
         if (serverTempId && normalizedMessage.id && normalizedMessage.id.startsWith('temp-') === false) {
           const pendingByTempId = prev.find((m) => m.id === serverTempId);
           if (pendingByTempId) {
             return prev.map((m) =>
               m.id === serverTempId
-                ? {
+                ? advanceDeliveryStatus({
                     ...normalizedMessage,
                     sender: m.sender || normalizedMessage.sender,
-                    deliveryStatus: 'delivered' as const,
+                    deliveryStatus: m.deliveryStatus,
+                    statusTimestamps: m.statusTimestamps,
                     timestamp: m.timestamp,
-                  }
+                  }, 'delivered')
                 : m
             );
           }
@@ -422,19 +645,20 @@ export default function EmbedPage() {
           const pendingMessage = prev.find(
             (m) =>
               m.text === normalizedMessage.text &&
-              m.deliveryStatus === 'pending' &&
+              (m.deliveryStatus === 'pending' || m.deliveryStatus === 'sent') &&
               m.sender === normalizedMessage.sender &&
               Math.abs(new Date(m.timestamp).getTime() - messageTime) < 60000
           );
           if (pendingMessage) {
             return prev.map((m) =>
               m.id === pendingMessage.id
-                ? {
+                ? advanceDeliveryStatus({
                     ...normalizedMessage,
                     sender: m.sender || normalizedMessage.sender,
-                    deliveryStatus: 'delivered' as const,
+                    deliveryStatus: m.deliveryStatus,
+                    statusTimestamps: m.statusTimestamps,
                     timestamp: m.timestamp,
-                  }
+                  }, 'delivered')
                 : m
             );
           }
@@ -496,15 +720,10 @@ export default function EmbedPage() {
     }
     
     // Get user info (for logged-in users)
-    const { userId, userInfo } = getUserInfo();
+    const { userId, userInfo, userSignature } = getUserInfo();
+    userEmailRef.current = userInfo?.email;
     const sessionInfo = getSessionInfo();
     
-    // Check if sender name exists
-    const storedSenderName = getSenderName();
-    if (storedSenderName) {
-      setSenderNameState(storedSenderName);
-    }
-    
     // Check if session or conversation expired
     const sessionExpired = !hasValidSession();
     const conversationExpired = isConversationExpired();
@@ -530,10 +749,33 @@ export default function EmbedPage() {
     
     // Initialize API client with website info and user info
     // Pass tenantId (can be null) - Gateway will resolve from domain if not provided
-    apiRef.current = new ChatAPI(tid, websiteInfo, userId, userInfo);
+    // Plugins first, so they see the replayed outbox too
+    loadConfiguredPlugins();
+    csatConfigRef.current = getCsatConfig();
+    apiRef.current = new ChatAPI(tid, websiteInfo, userId, userInfo, userSignature);
+    transportRef.current = createTransport(getTransportMode(), { api: apiRef.current, getSocket: () => wsRef.current });
+    outboxRef.current = new MessageOutbox();
     
-    // Initialize presence session on page load
-    initializePresenceSession();
+    // One tab per session holds the socket; the others follow it over BroadcastChannel
+    const tabs: ChatTabs = new TabCoordinator(`amoiq_chat:${sessionInfo.sessionId}`);
+    tabsRef.current = tabs;
+    setupTabSync(tabs);
+    tabs.onRoleChange((role) => {
+      if (role === 'leader') {
+        // Initialize presence session and replay messages left unsent (by any tab)
+        initializePresenceSession();
+        flushOutbox();
+        return;
+      }
+      // Another tab holds the socket - drop ours (if we were leader) and take over its state
+      stopReceiving();
+      wsRef.current?.disconnect();
+      wsRef.current = null;
+      tabs.request('snapshot')
+        .then((snapshot) => applyLeaderState(snapshot.messages, snapshot.ui, false))
+        .catch((error) => console.warn('[Widget] Failed to get state from leader tab:', error));
+    });
+    tabs.start();
     
     // Only load history if session/conversation is still valid
     if (!sessionExpired && !conversationExpired) {
@@ -543,30 +785,202 @@ export default function EmbedPage() {
     // Listen for chat open message from parent (when user clicks chat bubble)
     const handleMessage = (event: MessageEvent) => {
       if (event.data?.type === 'amoiq-widget-open') {
+        // Visitor opened the chat here - clear the new-message badge in the other tabs too
+        tabs.broadcast('unread-cleared');
         handleChatBubbleClick();
       }
     };
 
     window.addEventListener('message', handleMessage);
     
+    // Replay unsent messages when the browser comes back online
+    const handleOnline = () => {
+      flushOutbox();
+      wsRef.current?.reconnect();
+    };
+    window.addEventListener('online', handleOnline);
+    
+    // Phone woke up / tab became visible again - the socket may have missed broadcasts meanwhile
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        recoverMissedMessages();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    
     return () => {
       window.removeEventListener('message', handleMessage);
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      tabs.stop();
+      tabsRef.current = null;
+      stopReceiving();
       wsRef.current?.disconnect();
     };
   }, [isInitialized]);
 
+  /**
+   * Keep follower tabs in sync with the leader, and run follower requests on the leader
+   * Handlers are registered on every tab; request handlers only run while the tab is leader.
+   */
+  const setupTabSync = (tabs: ChatTabs) => {
+    tabs.on('messages', (messages) => {
+      if (!tabs.isLeader()) applyLeaderState(messages, null);
+    });
+    tabs.on('ui', (ui) => {
+      if (!tabs.isLeader()) applyLeaderState(null, ui);
+    });
+    tabs.on('draft', (text) => setInputValue(text));
+    tabs.on('unread-cleared', () => {
+      window.parent?.postMessage({ type: 'amoiq-widget-messages-read' }, '*');
+    });
+
+    tabs.handle('snapshot', () => sharedStateRef.current);
+    tabs.handle('append', ({ message }) => {
+      appendMessage(message);
+    });
+    tabs.handle('send', ({ message }) => {
+      // The follower already put the entry in the shared outbox
+      appendMessage(message);
+      void flushOutbox();
+    });
+    tabs.handle('retry', ({ message }) => retryMessage(message));
+    tabs.handle('edit-message', ({ message, text }) => editMessage(message, text));
+    tabs.handle('delete-message', ({ message }) => deleteMessage(message));
+    tabs.handle('typing', ({ isTyping }) => {
+      wsRef.current?.sendTyping(isTyping);
+    });
+    tabs.handle('read', ({ ids }) => wsRef.current?.markMessagesRead(ids) ?? false);
+    tabs.handle('init-conversation', () => initializeConversation());
+    tabs.handle('clear-history', () => {
+      clearMessagesFromStorage();
+      setMessages([]);
+      setHasOlderMessages(false);
+    });
+    tabs.handle('load-older', () => loadOlderMessages());
+    tabs.handle('end-chat', () => endChat());
+    tabs.handle('csat', ({ prompt }) => setCsatPrompt(prompt));
+  };
+
+  /**
+   * Follower tab: take over the message list / UI state relayed by the leader tab
+   * @param notifyNew - Badge this tab's bubble for incoming messages it hadn't shown yet (off for the initial snapshot)
+   */
+  const applyLeaderState = (messages: Message[] | null, ui: SharedUiState | null, notifyNew: boolean = true) => {
+    if (messages) {
+      const known = new Set(sharedStateRef.current.messages.map((m) => m.id));
+      const hasNewIncoming = messages.some((m) => m.sender !== 'user' && !known.has(m.id));
+      // Each tab's bubble shows its own new-message badge
+      if (hasNewIncoming && notifyNew) {
+        window.parent?.postMessage({ type: 'amoiq-widget-new-message' }, '*');
+      }
+      setMessages(messages);
+    }
+    if (ui) {
+      setConnectionState(ui.connectionState);
+      setTypingIndicator(ui.typingIndicator);
+      setConversationClosed(ui.conversationClosed);
+      if (ui.chatActive) setChatState('active');
+      presenceSessionRef.current = ui.presenceSession;
+      setPresenceSession(ui.presenceSession);
+      setWsError(ui.wsError);
+      setConnectionQuality(ui.connectionQuality);
+      setHasOlderMessages(ui.hasOlderMessages);
+      setCsatPrompt(ui.csatPrompt);
+      applyPreChatForm(ui.preChatForm);
+      identityErrorRef.current = ui.identityError;
+      setIdentityError(ui.identityError);
+      applyAvailability(ui.availability);
+    }
+  };
+
+  /**
+   * Add a message unless a message with the same id is already listed
+   */
+  const appendMessage = (message: Message) => {
+    setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+  };
+
+  /**
+   * Whether another tab holds the socket (requests go through it)
+   */
+  const isFollowerTab = () => !!tabsRef.current && !tabsRef.current.isLeader();
+
+  /**
+   * Fetch a fresh ws_token when the socket's token expired or was rejected
+   * Before the chat is opened the token comes from /webchat/session, afterwards from /webchat/init
+   */
+  const renewSocketCredentials = async (): Promise<SocketCredentials | null> => {
+    if (!apiRef.current) return null;
+
+    try {
+      if (socketTokenSourceRef.current === 'init') {
+        const initResult = await apiRef.current.initializeConversation(
+          getVisitorId() || undefined,
+          presenceSessionRef.current?.session_id
+        );
+        return {
+          ws_token: initResult.ws_token,
+          websocket_url: initResult.ws_server_url,
+          session_id: initResult.session_id,
+          expires_in: initResult.expires_in,
+        };
+      }
+
+      const presenceResponse = await apiRef.current.createPresenceSession();
+      presenceSessionRef.current = {
+        session_id: presenceResponse.session_id,
+        ws_token: presenceResponse.ws_token,
+        websocket_url: presenceResponse.websocket_url,
+      };
+      return presenceResponse;
+    } catch (error) {
+      // e.g. the signature expired while the page stayed open
+      handleIdentityError(error);
+      throw error;
+    }
+  };
+
+  /**
+   * Show the identity failure state when the Gateway rejected the visitor's userSignature
+   * Returns whether it was such an error.
+   */
+  const handleIdentityError = (error: unknown): boolean => {
+    if (!isIdentityError(error)) return false;
+    const message = error.code === 'IDENTITY_VERIFICATION_REQUIRED'
+      ? "This site requires a verified account to chat, and yours couldn't be confirmed. Please sign in again or reload the page."
+      : "We couldn't verify your account. Please sign in again or reload the page.";
+    console.error('[Widget] Identity verification failed:', error.message);
+    identityErrorRef.current = message;
+    setIdentityError(message);
+    return true;
+  };
+
+  /**
+   * Receive incoming messages through the selected transport: from the socket, or by long-polling with the http transport
+   * The socket transport listens on the socket current at the time, so this runs again whenever the socket is replaced.
+   */
+  const receiveMessages = () => {
+    unsubscribeTransportRef.current?.();
+    unsubscribeTransportRef.current = transportRef.current?.subscribe(createMessageHandler()) ?? null;
+  };
+
+  const stopReceiving = () => {
+    unsubscribeTransportRef.current?.();
+    unsubscribeTransportRef.current = null;
+  };
+
+  /** The http transport never opens Socket.IO */
+  const isHttpTransport = () => transportRef.current?.mode === 'http';
+
   // Initialize presence session on page load
   const initializePresenceSession = async () => {
     if (!apiRef.current) return;
     
     try {
       const presenceResponse = await apiRef.current.createPresenceSession();
-      
-      if (!presenceResponse) {
-        console.error('[Widget] Failed to create presence session');
-        presenceSessionRef.current = null;
-        return;
-      }
+      applyPreChatForm(parsePreChatForm(presenceResponse.pre_chat_form));
+      applyAvailability(parseAvailability(presenceResponse.availability));
 
       const session = {
         session_id: presenceResponse.session_id,
@@ -575,76 +989,138 @@ export default function EmbedPage() {
       };
       presenceSessionRef.current = session;
       setPresenceSession(session);
+
+      if (isHttpTransport()) {
+        // No live events (typing, read receipts, conversation closed) - only messages, polled
+        if (!unsubscribeTransportRef.current) {
+          receiveMessages();
+          setConnectionState({ status: 'polling', since: Date.now() });
+        }
+        return;
+      }
       
       // Connect to presence WebSocket
       if (wsRef.current) {
         await wsRef.current.connectPresence(
           presenceResponse.ws_token,
           presenceResponse.websocket_url,
-          presenceResponse.session_id
+          presenceResponse.session_id,
+          presenceResponse.expires_in
         );
       } else {
         // Create WebSocket client for presence
         const websiteInfo = getWebsiteInfo();
-        const { userId, userInfo } = getUserInfo();
+        const { userId, userInfo, userSignature } = getUserInfo();
         const params = new URLSearchParams(window.location.search);
         const tid = params.get('tenantId') || params.get('tenant');
         
         wsRef.current = new ChatWebSocketNative(tid, {
           onConnect: () => {
-            setIsConnected(true);
-          },
-          onDisconnect: () => {
-            setIsConnected(false);
+            // Socket.IO (re)connected - replay anything that failed while offline
+            flushOutbox();
+            flushReadReceipts();
           },
           onError: (error) => {
             console.error('[Widget] Presence WebSocket error:', error);
+            if (error instanceof SocketAuthError) {
+              // Token renewal kept failing - messages still go out over HTTP
+              setWsError('Connection expired. Reload the chat to reconnect.');
+              return;
+            }
             setWsError(error.message || 'WebSocket connection failed');
           },
+          onTokenRenew: renewSocketCredentials,
           onConversationCreated: async (conversationId) => {
             // Conversation was created by backend, update state
             setChatState('active');
+            setConversationClosed(false);
+            // A new conversation - drop the previous one's thank-you note (an unanswered survey stays)
+            setCsatPrompt((prev) => (prev?.submitted && prev.conversationId !== conversationId ? null : prev));
             
-            // Load message history after conversation is created
-            if (apiRef.current) {
+            // Load the latest page of history after conversation is created - merged, so cached and
+            // live messages stay; earlier pages load as the visitor scrolls up
+            if (transportRef.current) {
               try {
-                const history = await apiRef.current.getConversationMessages(conversationId);
-                if (history && history.length > 0) {
-                  const historyMessages: Message[] = history.map((msg: any) => ({
-                    id: msg.id,
-                    text: msg.message_text || msg.text,
-                    sender: (msg.sender_type === 'user' ? 'user' : (msg.sender_type === 'agent' ? 'agent' : 'bot')) as 'user' | 'bot' | 'agent' | 'system',
-                    timestamp: msg.created_at || msg.timestamp,
-                    deliveryStatus: 'delivered' as const
-                  }));
-                  setMessages(historyMessages);
+                const page = await transportRef.current.historyPage(conversationId);
+                const history: Message[] = page.messages.map((msg) => ({ ...msg, deliveryStatus: 'delivered' as const }));
+                if (history.length > 0) {
+                  setMessages((prev) => mergeMessages(prev, history));
                 }
+                setHasOlderMessages(page.hasMore);
               } catch (error) {
                 console.warn('[Widget] Failed to load message history:', error);
               }
             }
           },
-          onConversationClosed: () => {
+          onTyping: (event) => {
+            if (event.type === 'typing:start' && event.sender !== 'user') {
+              showTypingIndicator(event.sender, event.sender_name);
+            } else {
+              hideTypingIndicator();
+            }
+          },
+          onReconnect: (conversationId) => {
+            recoverMissedMessages(conversationId);
+          },
+          onMessageRead: (event) => {
+            applyReadReceipt(event);
+          },
+          onMessageUpdated: (event) => {
+            applyMessageUpdate(event);
+          },
+          onMessageDeleted: (event) => {
+            applyMessageDeletion(event);
+          },
+          onAvailabilityChanged: (next) => {
+            applyAvailability(next);
+          },
+          onConversationClosed: (event) => {
             setConversationClosed(true);
-            addSystemMessage('This conversation has been closed due to inactivity. You can start a new conversation at any time.');
+            addSystemMessage(describeClosedConversation(event));
+            const closedByAgent = event.closed_by?.type === 'agent' ? event.closed_by.id : undefined;
+            promptCsat(event.conversation_id, closedByAgent || currentAgentRef.current);
+          },
+          onConversationReopened: (event) => {
+            setConversationClosed(false);
+            // Survey again when it closes for good (unless already answered)
+            setCsatPrompt((prev) => (prev?.conversationId === event.conversation_id && !prev.submitted ? null : prev));
+            addSystemMessage(event.reopened_by && event.reopened_by.type !== 'user'
+              ? `${describeActor(event.reopened_by, 'An agent')} reopened the conversation.`
+              : 'Conversation reopened.');
           },
-          onMessage: createMessageHandler(),
-        }, websiteInfo, false, userId, userInfo);
+          onConversationAssigned: (event) => {
+            currentAgentRef.current = event.agent.id;
+            addSystemMessage(`${describeActor(event.agent, 'An agent')} joined the conversation.`);
+          },
+          onConversationTransferred: (event) => {
+            currentAgentRef.current = event.to_agent.id;
+            addSystemMessage(`You've been transferred to ${describeActor(event.to_agent, 'another agent')}.`);
+          },
+        }, websiteInfo, false, userId, userInfo, userSignature);
+        // Header status follows the socket's connection state (lives as long as the socket)
+        wsRef.current.subscribeConnectionState((state) => setConnectionState(state));
+        wsRef.current.subscribeConnectionQuality((metrics) => setConnectionQuality(metrics));
+        receiveMessages();
         
         await wsRef.current.connectPresence(
           presenceResponse.ws_token,
           presenceResponse.websocket_url,
-          presenceResponse.session_id
+          presenceResponse.session_id,
+          presenceResponse.expires_in
         );
       }
     } catch (error) {
       console.error('[Widget] Error initializing presence session:', error);
       presenceSessionRef.current = null;
+      handleIdentityError(error);
     }
   };
 
   // Handle chat bubble click
   const handleChatBubbleClick = async () => {
+    // Nothing to open until the page passes a valid signature - the failure state stays on screen
+    if (identityErrorRef.current) return;
+
     // Wait for presence session if still initializing (use ref so we see updates; state would be stale in this callback)
     const PRESENCE_WAIT_MS = 8000;
     const STEP_MS = 100;
@@ -662,45 +1138,199 @@ export default function EmbedPage() {
 
     try {
       // Call /webchat/open endpoint
-      const opened = await apiRef.current.openChat(session.session_id);
-      if (!opened) {
-        console.error('[Widget] Failed to open chat');
-        return;
+      await apiRef.current.openChat(session.session_id);
+      chatOpenedRef.current = true;
+      await startChat();
+    } catch (error) {
+      console.error('[Widget] Error handling chat bubble click:', error);
+    }
+  };
+
+  /**
+   * Leave-a-message form while nobody can answer, else the pre-chat form when it's needed, else straight
+   * into the conversation
+   */
+  const startChat = async () => {
+    if (shouldLeaveMessage()) {
+      showOfflineForm();
+      return;
+    }
+
+    if (needsPreChatForm()) {
+      // Prefill with earlier answers (e.g. the tenant added a field since)
+      const storedName = getSenderName();
+      setPreChatValues({ ...(storedName ? { name: storedName } : {}), ...getPreChatAnswers() });
+      setPreChatErrors({});
+      setChatState('pre_chat');
+      return;
+    }
+
+    // Identified by the site, or the form is done / turned off
+    const { userInfo } = getUserInfo();
+    if (!getSenderName() && userInfo?.name) {
+      setSenderName(userInfo.name);
+    }
+    await initializeConversation();
+  };
+
+  /**
+   * Take the agents' availability (from /webchat/session, /webchat/init, the socket, the periodic re-check,
+   * or relayed by the leader tab)
+   */
+  const applyAvailability = (next: AgentAvailability | null) => {
+    availabilityRef.current = next;
+    setAvailability(next);
+  };
+
+  /**
+   * Whether the visitor should leave a message instead of chatting: no agent is available and there's no
+   * open conversation to keep writing in
+   */
+  const shouldLeaveMessage = (): boolean =>
+    availabilityRef.current?.available === false && (!getConversationId() || conversationClosedRef.current);
+
+  /**
+   * Switch to the leave-a-message form, prefilled with what the visitor or the site told us before
+   */
+  const showOfflineForm = () => {
+    const answers = getPreChatAnswers();
+    const { userInfo } = getUserInfo();
+    const answer = (id: string) => (typeof answers?.[id] === 'string' ? answers[id] as string : undefined);
+    // Keep a form the visitor already started on (e.g. the widget was closed and opened again)
+    setOfflineForm((prev) => prev ?? {
+      values: {
+        name: answer('name') || userInfo?.name || getSenderName() || '',
+        email: answer('email') || userInfo?.email || '',
+        message: '',
+      },
+      errors: {},
+      files: [],
+      clientTicketId: `ticket-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      submitting: false,
+      error: null,
+      confirmation: null,
+    });
+    setChatState('offline');
+  };
+
+  // Handle leave-a-message form submission
+  const handleOfflineSubmit = async () => {
+    const form = offlineForm;
+    if (!form || form.submitting || !apiRef.current) return;
+
+    const errors = validatePreChatAnswers(OFFLINE_MESSAGE_FORM, form.values);
+    if (Object.keys(errors).length > 0) {
+      setOfflineForm({ ...form, errors });
+      return;
+    }
+
+    setOfflineForm({ ...form, errors: {}, submitting: true, error: null });
+    const answers = cleanPreChatAnswers(OFFLINE_MESSAGE_FORM, form.values);
+    try {
+      // No conversation to attach files to - upload them to the visitor's session
+      const sessionId = presenceSessionRef.current?.session_id || getSessionInfo().sessionId;
+      const uploadService = new UploadService();
+      const items: AttachmentItem[] = [];
+      for (const file of form.files) {
+        const result = await uploadService.uploadFile({ sessionId }, file);
+        items.push({
+          type: getAttachmentType(file),
+          payload: { url: result.publicUrl, filename: result.filename, content_type: result.contentType, size: result.size },
+        });
       }
-      
-      // Show welcome message asking for name
-      if (!senderName) {
-        setChatState('name_prompt');
-        addSystemMessage('Welcome! Please enter your name to start chatting.');
-      } else {
-        // Already have name, proceed to conversation initialization
-        await initializeConversation();
+
+      const ticket = await apiRef.current.createTicket({
+        name: answers.name as string,
+        email: answers.email as string,
+        message: answers.message as string,
+        attachments: items.length > 0 ? { items } : undefined,
+        client_ticket_id: form.clientTicketId,
+      });
+      if (!getSenderName()) {
+        setSenderName(answers.name as string);
       }
+      setOfflineForm({ ...form, errors: {}, submitting: false, confirmation: describeReplyExpectation(availabilityRef.current, ticket) });
     } catch (error) {
-      console.error('[Widget] Error handling chat bubble click:', error);
+      console.error('[Widget] Failed to leave message:', error);
+      handleIdentityError(error);
+      setOfflineForm({ ...form, errors: {}, submitting: false, error: "Couldn't send your message. Please try again." });
     }
   };
 
-  // Handle name submission
-  const handleNameSubmit = async () => {
-    const name = nameInputValue.trim();
-    if (!name) return;
-    
-    // Store sender name
-    setSenderName(name);
-    setSenderNameState(name);
-    setNameInputValue('');
-    
+  const handleOfflineFilesSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (selected.length === 0) return;
+    setOfflineForm((prev) => prev && {
+      ...prev,
+      files: [...prev.files, ...selected].slice(0, MAX_OFFLINE_ATTACHMENTS),
+      error: prev.files.length + selected.length > MAX_OFFLINE_ATTACHMENTS
+        ? `You can attach up to ${MAX_OFFLINE_ATTACHMENTS} files.`
+        : null,
+    });
+  };
+
+  /**
+   * Take the tenant's form definition (from /webchat/session, or relayed by the leader tab)
+   */
+  const applyPreChatForm = (form: PreChatForm | null) => {
+    preChatFormRef.current = form;
+    setPreChatForm(form);
+  };
+
+  /**
+   * Whether the visitor has to fill in the pre-chat form before chatting: not when the site identified
+   * them (ChatWidgetConfig.user), the tenant turned the form off, or their stored answers still pass it
+   * (a name entered before forms existed counts as the name answer)
+   */
+  const needsPreChatForm = (): boolean => {
+    const form = preChatFormRef.current;
+    if (!form?.enabled || getUserInfo().userId) return false;
+    const storedName = getSenderName();
+    const stored = getPreChatAnswers() ?? (storedName ? { name: storedName } : null);
+    if (!stored) return true;
+    return Object.keys(validatePreChatAnswers(form, stored)).length > 0;
+  };
+
+  // Handle pre-chat form submission
+  const handlePreChatSubmit = async () => {
+    const form = preChatFormRef.current;
+    if (!form) return;
+
+    const errors = validatePreChatAnswers(form, preChatValues);
+    setPreChatErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    // Stored for /webchat/init (any tab's) and the next visit
+    const answers = cleanPreChatAnswers(form, preChatValues);
+    setPreChatAnswers(answers);
+    const name = typeof answers.name === 'string' ? answers.name : null;
+    if (name) {
+      setSenderName(name);
+    }
+    setPreChatValues({});
+
     // Show personalized greeting
-    addSystemMessage(`Hi ${name}, how can I help you today?`);
-    
+    addSystemMessage(name ? `Hi ${name}, how can I help you today?` : 'Thanks! How can I help you today?');
+
     // Initialize conversation
     await initializeConversation();
   };
 
-  // Initialize conversation after name entry
+  // Initialize conversation after the pre-chat form
   const initializeConversation = async () => {
-    if (!apiRef.current || !wsRef.current) {
+    if (isFollowerTab()) {
+      // The leader tab's socket joins the conversation; its state comes back through the tab sync
+      setChatState('active');
+      try {
+        await tabsRef.current!.request('init-conversation', undefined, 30000);
+      } catch (error) {
+        console.error('[Widget] Leader tab failed to initialize conversation:', error);
+      }
+      return;
+    }
+
+    if (!apiRef.current || (!wsRef.current && !isHttpTransport())) {
       console.warn('[Widget] Cannot initialize conversation: API or WebSocket not available');
       return;
     }
@@ -716,9 +1346,9 @@ export default function EmbedPage() {
       const sessionId = presenceSessionRef.current?.session_id;
       
       const initResult = await apiRef.current.initializeConversation(storedVisitorId || undefined, sessionId);
-      
-      if (!initResult) {
-        throw new Error('Failed to initialize session');
+      const initAvailability = parseAvailability(initResult.availability);
+      if (initAvailability) {
+        applyAvailability(initAvailability);
       }
       
       // Check if previous conversation was closed
@@ -729,12 +1359,14 @@ export default function EmbedPage() {
       
       // Session-first flow: reconnect WebSocket with init's ws_token and join session room
       // conversation_id will come from conversation:created event
+      socketTokenSourceRef.current = 'init';
       if (wsRef.current) {
         // Disconnect existing presence connection and reconnect with init's token
         await wsRef.current.connectPresence(
           initResult.ws_token,
           initResult.ws_server_url,
-          initResult.session_id
+          initResult.session_id,
+          initResult.expires_in
         );
         // Now in session room, waiting for conversation:created event
         // Message history will be loaded when onConversationCreated callback fires
@@ -743,11 +1375,65 @@ export default function EmbedPage() {
       setIsLoading(false);
     } catch (error) {
       console.error('[Widget] Failed to initialize session:', error);
-      setWsError(error instanceof Error ? error.message : 'Failed to initialize session');
+      if (!handleIdentityError(error)) {
+        setWsError(error instanceof Error ? error.message : 'Failed to initialize session');
+      }
       setIsLoading(false);
     }
   };
 
+  /**
+   * Show incoming "Agent is typing…" row, auto-hidden if typing:stop is lost
+   */
+  const showTypingIndicator = (sender: 'agent' | 'bot' | 'system', senderName?: string) => {
+    setTypingIndicator({ sender, senderName });
+    if (typingIndicatorTimerRef.current) {
+      clearTimeout(typingIndicatorTimerRef.current);
+    }
+    typingIndicatorTimerRef.current = setTimeout(() => setTypingIndicator(null), TYPING_INDICATOR_TIMEOUT_MS);
+  };
+
+  const hideTypingIndicator = () => {
+    if (typingIndicatorTimerRef.current) {
+      clearTimeout(typingIndicatorTimerRef.current);
+      typingIndicatorTimerRef.current = null;
+    }
+    setTypingIndicator(null);
+  };
+
+  /**
+   * Visitor is typing: emit typing:start once, typing:stop after TYPING_IDLE_MS without keystrokes
+   */
+  const notifyTyping = () => {
+    if (!isTypingRef.current) {
+      isTypingRef.current = true;
+      sendTyping(true);
+    }
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+    }
+    typingIdleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  const stopTyping = () => {
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+      typingIdleTimerRef.current = null;
+    }
+    if (isTypingRef.current) {
+      isTypingRef.current = false;
+      sendTyping(false);
+    }
+  };
+
+  const sendTyping = (isTyping: boolean) => {
+    if (isFollowerTab()) {
+      tabsRef.current!.request('typing', { isTyping }).catch(() => {});
+      return;
+    }
+    wsRef.current?.sendTyping(isTyping);
+  };
+
   // Helper function to add system message
   const addSystemMessage = (text: string) => {
     const systemMessage: Message = {
@@ -757,10 +1443,144 @@ export default function EmbedPage() {
       timestamp: new Date().toISOString(),
     };
     setMessages((prev) => [...prev, systemMessage]);
+    // The leader's list is the one all tabs show - make sure it has this message too
+    if (isFollowerTab()) {
+      tabsRef.current!.request('append', { message: systemMessage }).catch(() => {});
+    }
   };
 
-  // Load conversation history
-  const loadConversationHistory = async () => {
+  /**
+   * Mark the visitor's messages covered by a message:read event as read
+   * Either the listed ids, or every visitor message up to and including up_to_message_id
+   */
+  const applyReadReceipt = (event: MessageReadEvent) => {
+    setMessages((prev) => {
+      const readIds = new Set(event.message_ids);
+      if (event.up_to_message_id) {
+        const upToIndex = prev.findIndex((m) => m.id === event.up_to_message_id);
+        prev.slice(0, upToIndex + 1).forEach((m) => readIds.add(m.id));
+      }
+      if (readIds.size === 0) return prev;
+      return prev.map((m) =>
+        m.sender === 'user' && readIds.has(m.id) ? advanceDeliveryStatus(m, 'read', event.read_at) : m
+      );
+    });
+  };
+
+  /**
+   * Report agent/bot messages the visitor has actually seen
+   * Only while the widget is visible; ids stay queued until the socket accepts them.
+   */
+  const flushReadReceipts = () => {
+    if (readFlushTimerRef.current) {
+      clearTimeout(readFlushTimerRef.current);
+      readFlushTimerRef.current = null;
+    }
+    if (document.visibilityState !== 'visible' || pendingReadIdsRef.current.size === 0) return;
+
+    const ids = Array.from(pendingReadIdsRef.current);
+    const markReported = () => ids.forEach((id) => {
+      readReportedIdsRef.current.add(id);
+      pendingReadIdsRef.current.delete(id);
+    });
+
+    if (isFollowerTab()) {
+      // Reported through the leader tab's socket; ids stay pending for the next flush if it couldn't
+      tabsRef.current!.request('read', { ids })
+        .then((accepted) => accepted && markReported())
+        .catch(() => {});
+      return;
+    }
+
+    if (wsRef.current?.markMessagesRead(ids)) {
+      markReported();
+    } else if (wsRef.current?.isConnected()) {
+      // Connected but rate limited - try again shortly
+      readFlushTimerRef.current = setTimeout(flushReadReceipts, READ_RECEIPT_DEBOUNCE_MS);
+    }
+  };
+
+  const queueReadReceipt = (messageId: string) => {
+    if (readReportedIdsRef.current.has(messageId)) return;
+    pendingReadIdsRef.current.add(messageId);
+    if (readFlushTimerRef.current) clearTimeout(readFlushTimerRef.current);
+    // Batch messages scrolled into view together into one event
+    readFlushTimerRef.current = setTimeout(flushReadReceipts, READ_RECEIPT_DEBOUNCE_MS);
+  };
+
+  /**
+   * Fetch messages broadcast while the socket was down (after the last seen cursor) and merge them in
+   */
+  const recoverMissedMessages = async (conversationId?: string) => {
+    const targetConversationId = conversationId || wsRef.current?.getConversationId();
+    if (!transportRef.current || !targetConversationId) return;
+
+    try {
+      // Only messages after the cursor (the transport drops older ones if the backend ignores it)
+      const cursor = getMessageCursor(targetConversationId);
+      const fetched = await transportRef.current.history(targetConversationId, cursor);
+      const missed: Message[] = fetched.map((msg) => ({ ...msg, deliveryStatus: 'delivered' as const }));
+      if (missed.length === 0) return;
+
+      setMessages((prev) => mergeMessages(prev, missed));
+
+      const newest = missed.reduce((latest, msg) =>
+        new Date(msg.timestamp).getTime() > new Date(latest.timestamp).getTime() ? msg : latest
+      );
+      advanceMessageCursor(targetConversationId, { id: newest.id, timestamp: newest.timestamp });
+    } catch (error) {
+      console.warn('[Widget] Failed to recover missed messages:', error);
+    }
+  };
+
+  /**
+   * Load the page of messages before the oldest one listed (infinite scroll upwards)
+   * Follower tabs ask the leader, whose list they mirror.
+   */
+  const loadOlderMessages = async () => {
+    if (loadingOlderRef.current) return;
+    loadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+
+    try {
+      if (isFollowerTab()) {
+        await tabsRef.current!.request('load-older');
+        return;
+      }
+
+      const conversationId = wsRef.current?.getConversationId() || getConversationId();
+      const oldest = sharedStateRef.current.messages.find((m) => m.sender !== 'system' && !m.id.startsWith('temp-'));
+      if (!transportRef.current || !conversationId || !oldest) {
+        setHasOlderMessages(false);
+        return;
+      }
+
+      const page = await transportRef.current.historyPage(conversationId, { id: oldest.id, timestamp: oldest.timestamp });
+      const older: Message[] = page.messages.map((msg) => ({ ...msg, deliveryStatus: 'delivered' as const }));
+      if (older.length > 0) {
+        setMessages((prev) => mergeMessages(prev, older));
+      }
+      setHasOlderMessages(page.hasMore);
+    } catch (error) {
+      console.warn('[Widget] Failed to load earlier messages:', error);
+    } finally {
+      loadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const handleMessagesScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop } = event.currentTarget;
+    // Only when the visitor scrolls up - not while auto-scrolling down or keeping position after a prepend
+    const scrolledUp = scrollTop < lastScrollTopRef.current;
+    lastScrollTopRef.current = scrollTop;
+    if (scrolledUp && scrollTop < LOAD_OLDER_THRESHOLD_PX && hasOlderMessages) {
+      void loadOlderMessages();
+    }
+  };
+
+  // Load conversation history
+  const loadConversationHistory = async () => {
     if (!apiRef.current) return;
     
     try {
@@ -792,14 +1612,142 @@ export default function EmbedPage() {
     } catch (error) {
       console.error('[Widget] Failed to load conversation history:', error);
       // Don't block UI - continue with cached messages if available
+      handleIdentityError(error);
     }
   };
 
   useEffect(() => {
-    // Auto-scroll to bottom when new messages arrive
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    // Watch agent/bot messages with server ids and report them as read once they are on screen
+    const container = messagesContainerRef.current;
+    if (!container || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((entries) => {
+      entries.forEach((entry) => {
+        const messageId = (entry.target as HTMLElement).dataset.messageId;
+        if (entry.isIntersecting && messageId) {
+          queueReadReceipt(messageId);
+          observer.unobserve(entry.target);
+        }
+      });
+    }, { root: container, threshold: 0.6 });
+
+    container.querySelectorAll<HTMLElement>('[data-message-id]').forEach((element) => {
+      if (!readReportedIdsRef.current.has(element.dataset.messageId!)) {
+        observer.observe(element);
+      }
+    });
+
+    return () => observer.disconnect();
+  }, [messages]);
+
+  useEffect(() => {
+    // Messages seen while the tab was hidden are reported once it is visible again
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') flushReadReceipts();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      if (readFlushTimerRef.current) clearTimeout(readFlushTimerRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    // Leader tab: relay the message list to follower tabs
+    sharedStateRef.current.messages = messages;
+    if (tabsRef.current?.isLeader()) {
+      tabsRef.current.broadcast('messages', messages);
+    }
+  }, [messages]);
+
+  useEffect(() => {
+    // Leader tab: relay connection / conversation state to follower tabs
+    const ui: SharedUiState = {
+      connectionState,
+      typingIndicator,
+      conversationClosed,
+      chatActive: chatState === 'active',
+      presenceSession,
+      wsError,
+      connectionQuality,
+      hasOlderMessages,
+      csatPrompt,
+      preChatForm,
+      identityError,
+      availability,
+    };
+    sharedStateRef.current.ui = ui;
+    if (tabsRef.current?.isLeader()) {
+      tabsRef.current.broadcast('ui', ui);
+    }
+  }, [connectionState, typingIndicator, conversationClosed, chatState, presenceSession, wsError, connectionQuality, hasOlderMessages, csatPrompt, preChatForm, identityError, availability]);
+
+  useEffect(() => {
+    // Read by shouldLeaveMessage() from handlers registered on mount
+    conversationClosedRef.current = conversationClosed;
+  }, [conversationClosed]);
+
+  useEffect(() => {
+    // Nobody left to answer before the visitor got to chat - offer the leave-a-message form instead
+    if (availability?.available === false && chatState === 'pre_chat' && !getConversationId()) {
+      showOfflineForm();
+      return;
+    }
+    // An agent came online while the visitor was leaving a message - back to live chat, keeping their draft
+    if (availability?.available && chatState === 'offline' && chatOpenedRef.current && !offlineForm?.submitting) {
+      const draft = offlineForm?.confirmation ? '' : offlineForm?.values.message;
+      setOfflineForm(null);
+      setChatState('closed');
+      if (typeof draft === 'string' && draft.trim()) {
+        setInputValue(draft);
+      }
+      addSystemMessage('An agent is available now - you can chat with us live.');
+      void startChat();
+    }
+  }, [availability, chatState]);
+
+  useEffect(() => {
+    // Ask again while nobody is available, in case the agents:availability event doesn't come (leader tab
+    // only - followers get the result with the shared UI state)
+    if (availability?.available !== false) return;
+    const timer = setInterval(() => {
+      if (!apiRef.current || isFollowerTab()) return;
+      apiRef.current.getAvailability()
+        .then(applyAvailability)
+        .catch((error) => console.warn('[Widget] Failed to check agent availability:', error));
+    }, AVAILABILITY_RECHECK_MS);
+    return () => clearInterval(timer);
+  }, [availability?.available]);
+
+  useEffect(() => {
+    // Show a notice while the rate limiter is holding the visitor's sends back
+    return rateLimiter.subscribe((state) => {
+      setThrottledBuckets((prev) => {
+        const others = prev.filter((bucket) => bucket !== state.bucket);
+        return state.throttled ? [...others, state.bucket] : others;
+      });
+    });
+  }, []);
+
+  useLayoutEffect(() => {
+    // Older messages were prepended: shift by the height they added so the visitor's view doesn't jump
+    const container = messagesContainerRef.current;
+    if (!container) return;
+    const anchor = scrollAnchorRef.current;
+    const firstId = messages[0]?.id;
+    if (anchor.firstId && firstId !== anchor.firstId && messages.some((m) => m.id === anchor.firstId)) {
+      container.scrollTop += container.scrollHeight - anchor.scrollHeight;
+      lastScrollTopRef.current = container.scrollTop;
+    }
+    scrollAnchorRef.current = { firstId, scrollHeight: container.scrollHeight };
   }, [messages]);
 
+  const lastMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    // Auto-scroll to bottom when new messages arrive (or the typing indicator / survey appears) - not for older pages
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [lastMessageId, typingIndicator, csatPrompt]);
+
   // Save messages to localStorage whenever they change
   useEffect(() => {
     if (messages.length > 0) {
@@ -861,24 +1809,308 @@ export default function EmbedPage() {
     };
   }, [isLoading]);
 
-  const handleSend = async () => {
-    if (!inputValue.trim()) return;
+  /**
+   * Deliver one queued message (used for live sends and outbox replays)
+   * On failure the message is marked failed; the outbox replays it later, or sets it aside when replaying can't help
+   */
+  const deliverMessage = async (entry: OutboxEntry): Promise<OutboxResult> => {
+    const { temp_id: tempId, text: messageText, attachments } = entry;
+
+    // Replays of previously failed messages go back to pending while in flight
+    setMessages((prev) => prev.map((m) =>
+      m.id === tempId && (m.deliveryStatus === 'failed' || m.waiting)
+        ? { ...m, deliveryStatus: m.deliveryStatus === 'failed' ? 'pending' as const : m.deliveryStatus, waiting: false }
+        : m
+    ));
 
-    // If conversation is closed, sending a message will auto-reopen it
-    if (conversationClosed) {
-      setConversationClosed(false);
-      addSystemMessage('Reopening conversation...');
+    try {
+      if (!transportRef.current) {
+        throw new Error('No connection available. Please try again.');
+      }
+      const quality = wsRef.current?.getConnectionQuality();
+      const response = await transportRef.current.send(messageText, {
+        temp_id: tempId,
+        attachments,
+        connection_quality: quality ? toConnectionQualityPayload(quality) : undefined,
+      });
+
+      // Check if conversation was closed and retried
+      if (response.conversationClosed) {
+        addSystemMessage('The previous conversation has been closed. Starting a new conversation.');
+        setConversationClosed(false);
+      }
+
+      // DB-first flow: the server returns the real message id (HTTP 202 or socket ack), replace the temp id
+      // This allows WebSocket to match by the same id when Worker broadcasts
+      const realMessageId = response.message_id;
+      if (realMessageId) {
+        setMessages((prev) => prev.map((m) => 
+          m.id === tempId 
+            ? advanceDeliveryStatus({ ...m, id: realMessageId, temp_id: tempId }, 'sent')
+            : m
+        ));
+      } else if (response.message && response.message.id) {
+        // Legacy fallback: If API returns a message with ID, update the temp message
+        // Gateway accepted it ('sent') - will be marked 'delivered' when WebSocket receives meta_message_created event
+        setMessages((prev) => {
+          const original = prev.find((m) => m.id === tempId);
+          const filtered = prev.filter((m) => m.id !== tempId);
+          return [...filtered, advanceDeliveryStatus({
+            ...response.message!,
+            deliveryStatus: 'pending' as const,
+            statusTimestamps: original?.statusTimestamps,
+          }, 'sent')];
+        });
+      } else {
+        setMessages((prev) => prev.map((m) => (m.id === tempId ? advanceDeliveryStatus(m, 'sent') : m)));
+      }
+      
+      // 🔍 IMPORTANT: After an HTTP send, ensure WebSocket is in conversation room
+      // The HTTP API might have created/updated a conversation, so we need to join the conversation room
+      // to receive meta_message_created events
+      // Check for conversation_id in the response or use stored one
+      const conversationId = response.conversation_id
+        || (response.message as { conversation_id?: string } | undefined)?.conversation_id
+        || getConversationId();
+      
+      if (response.via === 'http' && conversationId && wsRef.current) {
+        if (wsRef.current.isConnected()) {
+          // Switch to conversation room to receive meta_message_created events
+          wsRef.current.switchToConversationRoom(conversationId);
+        } else {
+          console.warn('[Widget] WebSocket not connected, cannot join conversation room:', conversationId);
+        }
+      } else if (!conversationId) {
+        console.warn('[Widget] No conversation ID available after sending message', {
+          via: response.via,
+          hasResponseMessage: !!response.message,
+          storedConversationId: getConversationId(),
+        });
+      }
+      
+      // Message is 'sent' - WebSocket will update to 'delivered' when meta_message_created is received
+      return 'sent';
+    } catch (error) {
+      if (isChatApiError(error, 'CANCELLED')) {
+        // A plugin decided this message must not be sent - drop it ('sent' removes it from the outbox)
+        console.warn('[Widget]', error.message);
+        setMessages((prev) => prev.filter((m) => m.id !== tempId));
+        return 'sent';
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Widget] Failed to send message:', errorMessage, error);
+      
+      if (isChatApiError(error, 'MISSING_INTEGRATION_ID')) {
+        setWsError('integration_id is required. Please check Gateway configuration.');
+      }
+      if (isChatApiError(error, 'CONVERSATION_CLOSED')) {
+        // Server rejected the send because the conversation is closed
+        setConversationClosed(true);
+      }
+      handleIdentityError(error);
+      
+      // Update message status to failed
+      setMessages((prev) => {
+        return prev.map((m) => 
+          m.id === tempId ? { ...m, deliveryStatus: 'failed' as const } : m
+        );
+      });
+      // Replaying can't fix a closed conversation, a rejected identity or a bad request - set the message aside
+      // until the visitor retries it, so newer messages aren't held up behind it
+      return isChatApiError(error) && !error.retryable ? 'failed' : 'retry';
+    }
+  };
+
+  /**
+   * Show the messages the outbox holds back behind one that has to be retried as waiting
+   */
+  const markWaiting = (waiting: OutboxEntry[]) => {
+    const ids = new Set(waiting.map((entry) => entry.temp_id));
+    setMessages((prev) => prev.map((m) => {
+      const isWaiting = ids.has(m.id) && m.deliveryStatus === 'pending';
+      return !!m.waiting === isWaiting ? m : { ...m, waiting: isWaiting };
+    }));
+  };
+
+  /**
+   * Visitor's "Retry" on a message that wasn't sent: back in line in the outbox and replayed now
+   */
+  const retryMessage = async (message: Message) => {
+    if (isFollowerTab()) {
+      // The leader replays the shared outbox
+      tabsRef.current!.request('retry', { message }).catch((error) => {
+        console.warn('[Widget] Leader tab failed to retry message:', error);
+      });
+      return;
+    }
+    const outbox = outboxRef.current;
+    if (!outbox) return;
+
+    if (!(await outbox.retry(message.id))) {
+      // No longer queued (e.g. expired) - queue it again from the message itself, in the shape it was sent
+      await outbox.enqueue({
+        temp_id: message.id,
+        text: message.attachments ? '' : message.text,
+        attachments: message.attachments as OutboxEntry['attachments'],
+      });
+    }
+    setMessages((prev) => prev.map((m) => (m.id === message.id ? { ...m, deliveryStatus: 'pending' as const } : m)));
+    await flushOutbox();
+  };
+
+  /**
+   * Change one message (matched by server id or temp_id) and cache the list right away, so a reload can't
+   * bring back text the visitor edited or deleted
+   */
+  const updateMessage = (messageId: string, change: (message: Message) => Message) => {
+    setMessages((prev) => {
+      const updated = prev.map((m) => (m.id === messageId || m.temp_id === messageId ? change(m) : m));
+      saveMessagesToStorage(updated);
+      return updated;
+    });
+  };
+
+  // message:updated - also the echo of this tab's own edit
+  const applyMessageUpdate = (event: MessageUpdatedEvent) => {
+    updateMessage(event.message_id, (m) => (m.deleted ? m : { ...m, text: event.text, editedAt: event.edited_at }));
+  };
+
+  const applyMessageDeletion = (event: MessageDeletedEvent) => {
+    updateMessage(event.message_id, toTombstone);
+  };
+
+  /**
+   * Change the text of one of the visitor's messages: shown right away, put back if the backend refuses
+   * Follower tabs ask the leader, which owns the message list.
+   * @throws ChatApiError
+   */
+  const editMessage = async (message: Message, text: string) => {
+    if (isFollowerTab()) {
+      await tabsRef.current!.request('edit-message', { message, text });
+      return;
     }
+    if (!apiRef.current) {
+      throw new Error('No connection available. Please try again.');
+    }
+    updateMessage(message.id, (m) => ({ ...m, text, editedAt: new Date().toISOString() }));
+    try {
+      await apiRef.current.editMessage(message.id, text, message.timestamp);
+    } catch (error) {
+      updateMessage(message.id, (m) => ({ ...m, text: message.text, editedAt: message.editedAt }));
+      throw error;
+    }
+  };
 
-    // If we're in name prompt state, treat input as name
-    if (chatState === 'name_prompt') {
-      setNameInputValue(inputValue.trim());
-      handleNameSubmit();
+  /**
+   * Delete one of the visitor's messages: replaced by a tombstone right away, put back if the backend refuses
+   * @throws ChatApiError
+   */
+  const deleteMessage = async (message: Message) => {
+    if (isFollowerTab()) {
+      await tabsRef.current!.request('delete-message', { message });
       return;
     }
+    if (!apiRef.current) {
+      throw new Error('No connection available. Please try again.');
+    }
+    updateMessage(message.id, toTombstone);
+    try {
+      await apiRef.current.deleteMessage(message.id, message.timestamp);
+    } catch (error) {
+      updateMessage(message.id, (m) => ({
+        ...m,
+        text: message.text,
+        attachments: message.attachments,
+        editedAt: message.editedAt,
+        deleted: false,
+      }));
+      throw error;
+    }
+  };
+
+  const openMessageMenu = (message: Message) => {
+    setMessageAction({ messageId: message.id, mode: 'menu', text: message.text, saving: false, error: null });
+  };
+
+  // Touch devices have no hover - a long press opens the menu instead
+  const startLongPress = (message: Message) => {
+    cancelLongPress();
+    longPressTimerRef.current = setTimeout(() => openMessageMenu(message), LONG_PRESS_MS);
+  };
+
+  const cancelLongPress = () => {
+    if (longPressTimerRef.current) {
+      clearTimeout(longPressTimerRef.current);
+      longPressTimerRef.current = null;
+    }
+  };
+
+  const submitMessageEdit = async (message: Message, action: MessageAction) => {
+    const text = action.text.trim();
+    if (!text || text === message.text) {
+      setMessageAction(null);
+      return;
+    }
+    setMessageAction({ ...action, saving: true, error: null });
+    try {
+      await editMessage(message, text);
+      setMessageAction(null);
+    } catch (error) {
+      console.error('[Widget] Failed to edit message:', error);
+      setMessageAction({ ...action, saving: false, error: describeMessageChangeError(error) });
+    }
+  };
+
+  const confirmMessageDelete = async (message: Message, action: MessageAction) => {
+    setMessageAction({ ...action, saving: true, error: null });
+    try {
+      await deleteMessage(message);
+      setMessageAction(null);
+    } catch (error) {
+      console.error('[Widget] Failed to delete message:', error);
+      setMessageAction({ ...action, saving: false, error: describeMessageChangeError(error) });
+    }
+  };
+
+  /**
+   * Replay the outbox in order
+   * Called after each send, when the browser comes back online, on Socket.IO (re)connect and on page load
+   * The outbox is shared by all tabs, so only the leader tab replays it.
+   */
+  const flushOutbox = async () => {
+    // Replays would be rejected the same way until the page passes a valid signature
+    if (!outboxRef.current || isFollowerTab() || identityErrorRef.current) return;
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+    await outboxRef.current.flush(deliverMessage, markWaiting);
+  };
+
+  /**
+   * Queue a visitor message in the persistent outbox and get it delivered
+   * Follower tabs hand it to the leader; if no leader answers, this tab sends it itself.
+   */
+  const queueOutgoing = async (message: Message, entry: Pick<OutboxEntry, 'temp_id' | 'text' | 'attachments'>) => {
+    // Queue first so the message survives a failed send or an iframe reload
+    await outboxRef.current?.enqueue(entry);
+
+    if (isFollowerTab()) {
+      try {
+        await tabsRef.current!.request('send', { message });
+        return;
+      } catch (error) {
+        console.warn('[Widget] Leader tab unavailable, sending from this tab:', error);
+        await outboxRef.current?.flush(deliverMessage, markWaiting);
+        return;
+      }
+    }
+    await flushOutbox();
+  };
+
+  const handleSend = async () => {
+    if (!inputValue.trim()) return;
 
     // Initialize conversation if not already active
-    if (chatState === 'closed' && senderName) {
+    if (chatState === 'closed' && !needsPreChatForm()) {
       await initializeConversation();
       // Wait a bit for conversation to initialize
       await new Promise(resolve => setTimeout(resolve, 500));
@@ -886,6 +2118,8 @@ export default function EmbedPage() {
 
     const messageText = inputValue.trim();
     setInputValue('');
+    tabsRef.current?.broadcast('draft', '');
+    stopTyping();
 
     const tempId = `temp-${Date.now()}`;
     const now = new Date().toISOString();
@@ -907,93 +2141,7 @@ export default function EmbedPage() {
       return updated;
     });
 
-    try {
-      // Prefer HTTP API for consistency and reliability
-      if (apiRef.current) {
-        const response = await apiRef.current.sendMessage(messageText, { temp_id: tempId });
-        
-        // Check if conversation was closed and retried
-        if (response.conversationClosed) {
-          addSystemMessage('The previous conversation has been closed. Starting a new conversation.');
-          setConversationClosed(false);
-        }
-        
-        if (!response.success) {
-          // Check if error is about closed conversation
-          if (response.error && (response.error.toLowerCase().includes('closed') || response.error.includes('410'))) {
-            addSystemMessage('The previous conversation has been closed. Starting a new conversation.');
-            setConversationClosed(false);
-          }
-          throw new Error(response.error || 'Failed to send message');
-        }
-
-        // DB-first flow: If API returns message_id (202 response), replace temp id with real id
-        // This allows WebSocket to match by the same id when Worker broadcasts
-        const realMessageId = response.message_id;
-        if (realMessageId) {
-          setMessages((prev) => prev.map((m) => 
-            m.id === tempId 
-              ? { ...m, id: realMessageId } 
-              : m
-          ));
-        } else if (response.message && response.message.id) {
-          // Legacy fallback: If API returns a message with ID, update the temp message
-          // Keep as 'pending' - will be marked 'delivered' when WebSocket receives meta_message_created event
-          setMessages((prev) => {
-            const filtered = prev.filter((m) => m.id !== tempId);
-            return [...filtered, {
-              ...response.message!,
-              deliveryStatus: 'pending' as const, // Still pending until WebSocket confirms
-            }];
-          });
-        }
-        
-        // 🔍 IMPORTANT: After sending via HTTP API, ensure WebSocket is in conversation room
-        // The HTTP API might have created/updated a conversation, so we need to join the conversation room
-        // to receive meta_message_created events
-        // Check for conversation_id in response message or use stored one
-        const conversationId = (response.message as { conversation_id?: string } | undefined)?.conversation_id || getConversationId();
-        
-        if (conversationId && wsRef.current) {
-          if (wsRef.current.isConnected()) {
-            // Switch to conversation room to receive meta_message_created events
-            wsRef.current.switchToConversationRoom(conversationId);
-          } else {
-            console.warn('[Widget] WebSocket not connected, cannot join conversation room:', conversationId);
-          }
-        } else {
-          console.warn('[Widget] No conversation ID available after sending message', {
-            hasResponseMessage: !!response.message,
-            hasConversationIdInMessage: !!(response.message as { conversation_id?: string } | undefined)?.conversation_id,
-            storedConversationId: getConversationId(),
-          });
-        }
-        
-        // Message remains as 'pending' - WebSocket will update to 'delivered' when meta_message_created is received
-      } else if (wsRef.current && (isConnected || wsRef.current.isConnected())) {
-        // Fallback to WebSocket if HTTP API is not available
-        console.warn('[Widget] HTTP API not available, using WebSocket fallback');
-        await wsRef.current.sendMessage(messageText, tempId);
-        // Message will be updated when WebSocket receives meta_message_created event
-      } else {
-        throw new Error('No connection available. Please try again.');
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error('[Widget] Failed to send message:', errorMessage, error);
-      
-      // Check if error is about missing integration_id
-      if (errorMessage.includes('integration_id')) {
-        setWsError('integration_id is required. Please check Gateway configuration.');
-      }
-      
-      // Update message status to failed
-      setMessages((prev) => {
-        return prev.map((m) => 
-          m.id === tempId ? { ...m, deliveryStatus: 'failed' as const } : m
-        );
-      });
-    }
+    await queueOutgoing(userMessage, { temp_id: tempId, text: messageText });
   };
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -1008,31 +2156,28 @@ export default function EmbedPage() {
     if (!apiRef.current) return;
     setIsUploading(true);
     try {
-      const baseUrl = process.env.NEXT_PUBLIC_GATEWAY_URL || process.env.NEXT_PUBLIC_API_URL || 'https://api-gateway-dfcflow.fly.dev';
-      const uploadService = new UploadService(baseUrl, () => ({
-        'Content-Type': 'application/json',
-        ...(process.env.NEXT_PUBLIC_GATEWAY_API_KEY || process.env.NEXT_PUBLIC_API_KEY
-          ? { Authorization: `Bearer ${process.env.NEXT_PUBLIC_GATEWAY_API_KEY || process.env.NEXT_PUBLIC_API_KEY}` }
-          : {}),
-      }));
+      const uploadService = new UploadService();
       const result = await uploadService.uploadFile(conversationId, file);
-      const type = (file.type.startsWith('image/') ? 'image' : file.type.startsWith('video/') ? 'video' : file.type.startsWith('audio/') ? 'audio' : 'document') as 'image' | 'video' | 'audio' | 'document';
+      const type = getAttachmentType(file);
       const tempId = `temp-${Date.now()}`;
+      const attachments = {
+        items: [{ type, payload: { url: result.publicUrl, filename: result.filename, content_type: result.contentType, size: result.size } }],
+      };
       const userMessage: Message = {
         id: tempId,
         text: `[Attachment: ${result.filename}]`,
         sender: 'user',
         timestamp: new Date().toISOString(),
         deliveryStatus: 'pending',
+        attachments, // Kept on the local message so transcripts can link the file
       };
       setMessages((prev) => [...prev, userMessage]);
-      const response = await apiRef.current.sendMessage('', {
+      // Uploaded attachment URLs go through the outbox like text messages, so a failed send is replayed later
+      await queueOutgoing(userMessage, {
         temp_id: tempId,
-        attachments: {
-          items: [{ type, payload: { url: result.publicUrl, filename: result.filename, content_type: result.contentType, size: result.size } }],
-        },
+        text: '',
+        attachments,
       });
-      if (!response.success) throw new Error(response.error);
     } catch (err) {
       console.error('[Widget] File upload failed:', err);
       alert(err instanceof Error ? err.message : 'Failed to upload file.');
@@ -1041,6 +2186,143 @@ export default function EmbedPage() {
     }
   };
 
+  useEffect(() => {
+    // Fresh form for each survey
+    setCsatForm(EMPTY_CSAT_FORM);
+  }, [csatPrompt?.conversationId]);
+
+  /**
+   * Offer the satisfaction survey for a closed conversation - never twice for the same one
+   * The leader tab owns the prompt; followers get it with the shared UI state.
+   */
+  const promptCsat = (conversationId: string, agentId?: string) => {
+    if (!csatConfigRef.current?.enabled || isCsatHandled(conversationId)) return;
+    setCsatPrompt((prev) => (prev?.conversationId === conversationId ? prev : { conversationId, agentId, submitted: false }));
+  };
+
+  const updateCsatPrompt = (prompt: CsatPrompt | null) => {
+    if (isFollowerTab()) {
+      tabsRef.current!.request('csat', { prompt }).catch(() => {});
+    }
+    setCsatPrompt(prompt);
+  };
+
+  const handleCsatSubmit = async () => {
+    const config = csatConfigRef.current;
+    if (!csatPrompt || !config || csatForm.rating === undefined || !apiRef.current) return;
+
+    setCsatForm((prev) => ({ ...prev, submitting: true, error: null }));
+    try {
+      await apiRef.current.submitCsat(csatPrompt.conversationId, {
+        rating: csatForm.rating,
+        scale: config.scale,
+        comment: config.comment ? csatForm.comment : undefined,
+        answers: csatForm.answers,
+      }, csatPrompt.agentId);
+      markCsatHandled(csatPrompt.conversationId);
+      updateCsatPrompt({ ...csatPrompt, submitted: true });
+    } catch (error) {
+      console.error('[Widget] Failed to submit rating:', error);
+      setCsatForm((prev) => ({ ...prev, submitting: false, error: "Couldn't send your feedback. Please try again." }));
+    }
+  };
+
+  const handleCsatSkip = () => {
+    if (!csatPrompt) return;
+    markCsatHandled(csatPrompt.conversationId);
+    updateCsatPrompt(null);
+  };
+
+  /**
+   * Visitor ends the conversation ("End chat"); the survey follows
+   * Follower tabs ask the leader, which owns the conversation state.
+   */
+  const endChat = async () => {
+    if (isFollowerTab()) {
+      await tabsRef.current!.request('end-chat').catch((error) => {
+        console.error('[Widget] Leader tab failed to end conversation:', error);
+      });
+      return;
+    }
+
+    const conversationId = wsRef.current?.getConversationId() || getConversationId();
+    if (!apiRef.current || !conversationId) return;
+    try {
+      await apiRef.current.closeConversation(conversationId);
+      // conversation:closed follows with the system message; don't wait for it
+      setConversationClosed(true);
+      promptCsat(conversationId, currentAgentRef.current);
+    } catch (error) {
+      console.error('[Widget] Failed to end conversation:', error);
+      addSystemMessage("Couldn't end the conversation. Please try again.");
+    }
+  };
+
+  useEffect(() => {
+    // Close a message's edit/delete menu on any click outside it
+    if (messageAction?.mode !== 'menu') return;
+    const handleClick = (event: MouseEvent) => {
+      if (!(event.target as HTMLElement).closest('[data-message-menu]')) setMessageAction(null);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [messageAction?.mode]);
+
+  useEffect(() => {
+    // Close the header menu on any click outside it
+    if (!menuOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!(event.target as HTMLElement).closest('[data-header-menu]')) setMenuOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [menuOpen]);
+
+  /**
+   * Download the conversation: the full history from the backend merged with the local list (cached in
+   * localStorage), or the local list alone when the history can't be fetched
+   */
+  const exportTranscript = async (format: TranscriptFormat) => {
+    setMenuOpen(false);
+    setIsExporting(true);
+    try {
+      let transcript = sharedStateRef.current.messages.length > 0 ? sharedStateRef.current.messages : loadMessagesFromStorage();
+      const conversationId = wsRef.current?.getConversationId() || getConversationId();
+      if (conversationId && transportRef.current) {
+        try {
+          transcript = mergeMessages(transcript, await transportRef.current.history(conversationId));
+        } catch (error) {
+          console.warn('[Widget] Failed to fetch full history for transcript, exporting cached messages:', error);
+        }
+      }
+      transcript = transcript.filter((m) => !m.deleted);
+      downloadTranscript(buildTranscript(transcript, format, { conversationId: conversationId || undefined }));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const openTranscriptEmail = () => {
+    setMenuOpen(false);
+    const answered = getPreChatAnswers()?.email;
+    setTranscriptEmail({ email: userEmailRef.current || (typeof answered === 'string' ? answered : ''), sending: false, result: null });
+  };
+
+  const handleTranscriptEmailSubmit = async () => {
+    const conversationId = wsRef.current?.getConversationId() || getConversationId();
+    const email = transcriptEmail?.email.trim();
+    if (!transcriptEmail || !email || !conversationId || !apiRef.current) return;
+
+    setTranscriptEmail({ ...transcriptEmail, sending: true, result: null });
+    try {
+      await apiRef.current.emailTranscript(conversationId, email);
+      setTranscriptEmail({ email, sending: false, result: 'sent' });
+    } catch (error) {
+      console.error('[Widget] Failed to email transcript:', error);
+      setTranscriptEmail({ email, sending: false, result: 'error' });
+    }
+  };
+
   const handleClose = () => {
     // Notify parent window to close widget
     if (window.parent) {
@@ -1051,7 +2333,365 @@ export default function EmbedPage() {
   const handleClearHistory = () => {
     clearMessagesFromStorage();
     setMessages([]);
+    setHasOlderMessages(false);
     setShowClearButton(false);
+    if (isFollowerTab()) {
+      tabsRef.current!.request('clear-history').catch(() => {});
+    }
+  };
+
+  /**
+   * Satisfaction survey card at the end of the message list
+   */
+  const renderCsatSurvey = () => {
+    const config = csatConfigRef.current;
+    if (!csatPrompt || !config) return null;
+
+    if (csatPrompt.submitted) {
+      return (
+        <div className={styles.csat} role="status">
+          <p className={styles.csatTitle}>Thanks for your feedback!</p>
+        </div>
+      );
+    }
+
+    const ratings = config.scale === 'thumbs'
+      ? [{ value: 1, label: '👍', title: 'Good' }, { value: 0, label: '👎', title: 'Bad' }]
+      : [1, 2, 3, 4, 5].map((value) => ({ value, label: '★', title: `${value} out of 5` }));
+    const isSelected = (value: number) => config.scale === 'stars'
+      ? csatForm.rating !== undefined && value <= csatForm.rating
+      : csatForm.rating === value;
+
+    return (
+      <div className={styles.csat}>
+        <p className={styles.csatTitle}>{config.title}</p>
+        <div className={styles.csatRatings} role="radiogroup" aria-label="Rating">
+          {ratings.map(({ value, label, title }) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={csatForm.rating === value}
+              aria-label={title}
+              title={title}
+              className={`${styles.csatRating} ${isSelected(value) ? styles.csatRatingSelected : ''}`}
+              onClick={() => setCsatForm((prev) => ({ ...prev, rating: value }))}
+              disabled={csatForm.submitting}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {csatForm.rating !== undefined && (
+          <>
+            {config.questions.map((question) => (
+              <label key={question.id} className={styles.csatQuestion}>
+                <span>{question.label}</span>
+                {question.type === 'choice' ? (
+                  <select
+                    className={styles.csatInput}
+                    value={csatForm.answers[question.id] || ''}
+                    onChange={(e) => setCsatForm((prev) => ({ ...prev, answers: { ...prev.answers, [question.id]: e.target.value } }))}
+                    disabled={csatForm.submitting}
+                  >
+                    <option value="">Choose…</option>
+                    {question.options!.map((option) => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    className={styles.csatInput}
+                    value={csatForm.answers[question.id] || ''}
+                    onChange={(e) => setCsatForm((prev) => ({ ...prev, answers: { ...prev.answers, [question.id]: e.target.value } }))}
+                    disabled={csatForm.submitting}
+                  />
+                )}
+              </label>
+            ))}
+            {config.comment && (
+              <textarea
+                className={styles.csatInput}
+                value={csatForm.comment}
+                onChange={(e) => setCsatForm((prev) => ({ ...prev, comment: e.target.value }))}
+                placeholder="Anything you'd like to add? (optional)"
+                rows={2}
+                maxLength={1000}
+                disabled={csatForm.submitting}
+              />
+            )}
+          </>
+        )}
+        {csatForm.error && <p className={styles.csatError} role="alert">{csatForm.error}</p>}
+        <div className={styles.csatActions}>
+          <button type="button" className={styles.csatSkip} onClick={handleCsatSkip} disabled={csatForm.submitting}>
+            Skip
+          </button>
+          <button
+            type="button"
+            className={styles.csatSubmit}
+            onClick={handleCsatSubmit}
+            disabled={csatForm.rating === undefined || csatForm.submitting}
+          >
+            {csatForm.submitting ? 'Sending…' : 'Send'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  /**
+   * Pre-chat form card at the end of the message list (replaces the input bar until it's submitted)
+   */
+  const renderPreChatForm = () => {
+    if (!preChatForm) return null;
+
+    const setValue = (id: string, value: string | boolean) => {
+      setPreChatValues((prev) => ({ ...prev, [id]: value }));
+      setPreChatErrors((prev) => {
+        if (!prev[id]) return prev;
+        const { [id]: _cleared, ...rest } = prev;
+        return rest;
+      });
+    };
+
+    return (
+      <form
+        className={styles.preChat}
+        onSubmit={(e) => {
+          e.preventDefault();
+          void handlePreChatSubmit();
+        }}
+        noValidate
+      >
+        <p className={styles.preChatTitle}>{preChatForm.title}</p>
+        {preChatForm.fields.map((field, index) => {
+          const value = preChatValues[field.id];
+          const error = preChatErrors[field.id];
+          const inputProps = {
+            id: `pre-chat-${field.id}`,
+            'aria-invalid': !!error,
+            'aria-describedby': error ? `pre-chat-${field.id}-error` : undefined,
+            disabled: isLoading,
+            autoFocus: index === 0,
+          };
+          return (
+            <div key={field.id} className={styles.preChatField}>
+              {field.type === 'checkbox' ? (
+                <label className={styles.preChatCheckbox}>
+                  <input
+                    {...inputProps}
+                    type="checkbox"
+                    checked={value === true}
+                    onChange={(e) => setValue(field.id, e.target.checked)}
+                  />
+                  <span>{field.label}{field.required && ' *'}</span>
+                </label>
+              ) : (
+                <>
+                  <label htmlFor={inputProps.id}>{field.label}{field.required && ' *'}</label>
+                  {field.type === 'select' ? (
+                    <select {...inputProps} className={styles.preChatInput} value={typeof value === 'string' ? value : ''} onChange={(e) => setValue(field.id, e.target.value)}>
+                      <option value="">{field.placeholder || 'Choose…'}</option>
+                      {field.options!.map((option) => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                  ) : field.type === 'textarea' ? (
+                    <textarea
+                      {...inputProps}
+                      className={styles.preChatInput}
+                      rows={3}
+                      maxLength={1000}
+                      placeholder={field.placeholder}
+                      value={typeof value === 'string' ? value : ''}
+                      onChange={(e) => setValue(field.id, e.target.value)}
+                    />
+                  ) : (
+                    <input
+                      {...inputProps}
+                      className={styles.preChatInput}
+                      type={field.type === 'phone' ? 'tel' : field.type}
+                      autoComplete={field.id === 'name' ? 'name' : field.type === 'email' ? 'email' : field.type === 'phone' ? 'tel' : undefined}
+                      maxLength={1000}
+                      placeholder={field.placeholder}
+                      value={typeof value === 'string' ? value : ''}
+                      onChange={(e) => setValue(field.id, e.target.value)}
+                    />
+                  )}
+                </>
+              )}
+              {error && <p id={`pre-chat-${field.id}-error`} className={styles.preChatError} role="alert">{error}</p>}
+            </div>
+          );
+        })}
+        <button type="submit" className={styles.preChatSubmit} disabled={isLoading}>
+          Start chat
+        </button>
+      </form>
+    );
+  };
+
+  /**
+   * Leave-a-message card at the end of the message list (replaces the input bar while no agent is available)
+   */
+  const renderOfflineForm = () => {
+    if (!offlineForm) return null;
+
+    if (offlineForm.confirmation) {
+      return (
+        <div className={styles.preChat} role="status">
+          <p className={styles.preChatTitle}>Thanks, we got your message.</p>
+          <p className={styles.offlineNote}>{offlineForm.confirmation}</p>
+        </div>
+      );
+    }
+
+    const { values, errors, submitting } = offlineForm;
+    const setValue = (id: string, value: string) => {
+      setOfflineForm((prev) => {
+        if (!prev) return prev;
+        const { [id]: _cleared, ...otherErrors } = prev.errors;
+        return { ...prev, values: { ...prev.values, [id]: value }, errors: otherErrors };
+      });
+    };
+    const fieldProps = (id: string) => ({
+      id: `offline-${id}`,
+      className: styles.preChatInput,
+      value: typeof values[id] === 'string' ? values[id] as string : '',
+      maxLength: 1000,
+      'aria-invalid': !!errors[id],
+      'aria-describedby': errors[id] ? `offline-${id}-error` : undefined,
+      disabled: submitting,
+    });
+    const fieldError = (id: string) => errors[id] && (
+      <p id={`offline-${id}-error`} className={styles.preChatError} role="alert">{errors[id]}</p>
+    );
+
+    return (
+      <form
+        className={styles.preChat}
+        onSubmit={(e) => {
+          e.preventDefault();
+          void handleOfflineSubmit();
+        }}
+        noValidate
+      >
+        <p className={styles.preChatTitle}>{OFFLINE_MESSAGE_FORM.title}</p>
+        {availability && <p className={styles.offlineNote}>{describeUnavailable(availability)} Leave a message and we&apos;ll get back to you by email.</p>}
+        <div className={styles.preChatField}>
+          <label htmlFor="offline-name">Name *</label>
+          <input {...fieldProps('name')} type="text" autoComplete="name" onChange={(e) => setValue('name', e.target.value)} />
+          {fieldError('name')}
+        </div>
+        <div className={styles.preChatField}>
+          <label htmlFor="offline-email">Email *</label>
+          <input {...fieldProps('email')} type="email" autoComplete="email" onChange={(e) => setValue('email', e.target.value)} />
+          {fieldError('email')}
+        </div>
+        <div className={styles.preChatField}>
+          <label htmlFor="offline-message">Message *</label>
+          <textarea {...fieldProps('message')} rows={4} autoFocus onChange={(e) => setValue('message', e.target.value)} />
+          {fieldError('message')}
+        </div>
+        <input
+          ref={offlineFileInputRef}
+          type="file"
+          multiple
+          accept="image/*,video/*,audio/*,.pdf"
+          onChange={handleOfflineFilesSelect}
+          style={{ display: 'none' }}
+          aria-hidden
+        />
+        {offlineForm.files.length > 0 && (
+          <ul className={styles.offlineFiles}>
+            {offlineForm.files.map((file, index) => (
+              <li key={`${file.name}-${index}`} className={styles.offlineFile}>
+                <span>{file.name}</span>
+                <button
+                  type="button"
+                  className={styles.offlineFileRemove}
+                  onClick={() => setOfflineForm((prev) => prev && { ...prev, files: prev.files.filter((_, i) => i !== index), error: null })}
+                  aria-label={`Remove ${file.name}`}
+                  disabled={submitting}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {offlineForm.error && <p className={styles.preChatError} role="alert">{offlineForm.error}</p>}
+        <div className={styles.offlineActions}>
+          <button
+            type="button"
+            className={styles.offlineAttach}
+            onClick={() => offlineFileInputRef.current?.click()}
+            disabled={submitting || offlineForm.files.length >= MAX_OFFLINE_ATTACHMENTS}
+            title="Attach image, video, audio, or PDF"
+          >
+            📎 Attach files
+          </button>
+          <button type="submit" className={styles.preChatSubmit} disabled={submitting}>
+            {submitting ? 'Sending…' : 'Send message'}
+          </button>
+        </div>
+      </form>
+    );
+  };
+
+  /**
+   * Subtle hint while the visitor's network is slow or flaky (poor connection quality)
+   */
+  const renderSlowConnectionHint = () => {
+    if (connectionQuality?.quality !== 'poor') return null;
+    const details = [
+      connectionQuality.latencyMs !== undefined ? `~${connectionQuality.latencyMs}ms round-trip` : null,
+      connectionQuality.reconnects > 0 ? `${connectionQuality.reconnects} reconnects in the last 5 minutes` : null,
+    ].filter(Boolean).join(', ');
+    return (
+      <span className={styles.slowConnection} title={details || 'Messages may take longer to arrive'}>
+        Slow connection
+      </span>
+    );
+  };
+
+  /**
+   * Header status from the socket's connection state
+   */
+  const renderConnectionStatus = () => {
+    const status = connectionState?.status;
+    if (status && isConnectedStatus(status)) {
+      return (
+        <>
+          <span className={styles.statusConnected}>● Online</span>
+          {renderSlowConnectionHint()}
+        </>
+      );
+    }
+    if (status === 'fetching-session' || status === 'connecting') {
+      return <span className={styles.statusConnecting}>● Connecting…</span>;
+    }
+    if (status === 'reconnecting') {
+      return (
+        <span className={styles.statusConnecting}>
+          ● Reconnecting{connectionState?.attempt ? ` (attempt ${connectionState.attempt})` : ''}…
+        </span>
+      );
+    }
+    if (status === 'polling') {
+      return (
+        <span className={styles.statusConnecting} title="Real-time connection unavailable - checking for new messages every few seconds">
+          ● Online (limited)
+        </span>
+      );
+    }
+    const error = wsError || connectionState?.error;
+    if (error) {
+      return <span className={styles.statusDisconnected} title={error}>● Offline (API only)</span>;
+    }
+    return <span className={styles.statusDisconnected}>● Offline</span>;
   };
 
   if (isLoading) {
@@ -1068,7 +2708,40 @@ export default function EmbedPage() {
   return (
     <div ref={containerRef} className={styles.container}>
       <div className={styles.header}>
-        <h3 className={styles.title}>Chat Support</h3>
+        <div className={styles.titleGroup} data-header-menu>
+          <h3 className={styles.title}>Chat Support</h3>
+          {messages.length > 0 && (
+            <button
+              type="button"
+              className={styles.menuButton}
+              onClick={() => setMenuOpen((open) => !open)}
+              aria-haspopup="menu"
+              aria-expanded={menuOpen}
+              aria-label="Conversation options"
+              disabled={isExporting}
+            >
+              {isExporting ? '…' : '⋯'}
+            </button>
+          )}
+          {menuOpen && (
+            <div className={styles.menu} role="menu">
+              <button type="button" role="menuitem" className={styles.menuItem} onClick={() => void exportTranscript('text')}>
+                Download as text
+              </button>
+              <button type="button" role="menuitem" className={styles.menuItem} onClick={() => void exportTranscript('html')}>
+                Download as HTML
+              </button>
+              <button type="button" role="menuitem" className={styles.menuItem} onClick={() => void exportTranscript('json')}>
+                Download as JSON
+              </button>
+              {getConversationId() && (
+                <button type="button" role="menuitem" className={styles.menuItem} onClick={openTranscriptEmail}>
+                  Email me this transcript
+                </button>
+              )}
+            </div>
+          )}
+        </div>
         {showClearButton && messages.length > 0 && (
           <button 
             className={styles.clearButton} 
@@ -1083,17 +2756,59 @@ export default function EmbedPage() {
           ×
         </button>
         <div className={styles.status}>
-          {isConnected ? (
-            <span className={styles.statusConnected}>● Online</span>
-          ) : wsError ? (
-            <span className={styles.statusDisconnected} title={wsError}>● Offline (API only)</span>
-          ) : (
-            <span className={styles.statusDisconnected}>● Offline</span>
-          )}
+          {renderConnectionStatus()}
         </div>
       </div>
 
-      <div className={styles.messages}>
+      {transcriptEmail && (
+        <form
+          className={styles.transcriptEmail}
+          onSubmit={(e) => {
+            e.preventDefault();
+            void handleTranscriptEmailSubmit();
+          }}
+        >
+          {transcriptEmail.result === 'sent' ? (
+            <span role="status">Transcript sent to {transcriptEmail.email}.</span>
+          ) : (
+            <>
+              <input
+                type="email"
+                required
+                value={transcriptEmail.email}
+                onChange={(e) => setTranscriptEmail({ ...transcriptEmail, email: e.target.value, result: null })}
+                placeholder="Your email"
+                aria-label="Email address for the transcript"
+                className={styles.transcriptEmailInput}
+                disabled={transcriptEmail.sending}
+                autoFocus
+              />
+              <button type="submit" className={styles.transcriptEmailSend} disabled={transcriptEmail.sending || !transcriptEmail.email.trim()}>
+                {transcriptEmail.sending ? 'Sending…' : 'Send'}
+              </button>
+            </>
+          )}
+          <button type="button" className={styles.transcriptEmailClose} onClick={() => setTranscriptEmail(null)} aria-label="Close">
+            ×
+          </button>
+          {transcriptEmail.result === 'error' && (
+            <span className={styles.transcriptEmailError} role="alert">Couldn&apos;t send the transcript. Please try again.</span>
+          )}
+        </form>
+      )}
+
+      <div className={styles.messages} ref={messagesContainerRef} onScroll={handleMessagesScroll}>
+        {hasOlderMessages && (
+          <div className={styles.olderMessages}>
+            {isLoadingOlder ? (
+              <span role="status">Loading earlier messages…</span>
+            ) : (
+              <button type="button" className={styles.olderMessagesButton} onClick={() => void loadOlderMessages()}>
+                Load earlier messages
+              </button>
+            )}
+          </div>
+        )}
         {messages.length === 0 ? (
           <div className={styles.emptyState}>
             <p>Start a conversation</p>
@@ -1110,110 +2825,220 @@ export default function EmbedPage() {
             }
             
             // Regular messages
+            const changeable = canChangeMessage(message);
+            const action = !message.deleted && messageAction?.messageId === message.id ? messageAction : null;
             return (
               <div
                 key={message.id}
                 className={`${styles.message} ${
                   message.sender === 'user' ? styles.messageUser : styles.messageBot
                 }`}
+                data-message-id={message.sender !== 'user' && !message.id.startsWith('temp-') ? message.id : undefined}
+                onTouchStart={changeable && !action ? () => startLongPress(message) : undefined}
+                onTouchEnd={cancelLongPress}
+                onTouchMove={cancelLongPress}
               >
-                <div className={styles.messageContent}>{message.text}</div>
+                {message.deleted ? (
+                  <div className={`${styles.messageContent} ${styles.messageDeleted}`}>Message deleted</div>
+                ) : action?.mode === 'edit' ? (
+                  <form
+                    className={styles.messageEditForm}
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      void submitMessageEdit(message, action);
+                    }}
+                  >
+                    <textarea
+                      className={styles.messageEditInput}
+                      value={action.text}
+                      rows={2}
+                      autoFocus
+                      disabled={action.saving}
+                      aria-label="Edit message"
+                      onChange={(e) => setMessageAction({ ...action, text: e.target.value, error: null })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Escape') {
+                          setMessageAction(null);
+                        } else if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          void submitMessageEdit(message, action);
+                        }
+                      }}
+                    />
+                    <div className={styles.messageEditButtons}>
+                      <button type="button" className={styles.messageEditCancel} onClick={() => setMessageAction(null)} disabled={action.saving}>
+                        Cancel
+                      </button>
+                      <button type="submit" className={styles.messageEditSave} disabled={action.saving || !action.text.trim()}>
+                        {action.saving ? 'Saving…' : 'Save'}
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <div className={styles.messageContent}>{message.text}</div>
+                )}
+                {changeable && !action && (
+                  <button
+                    type="button"
+                    className={styles.messageActionsButton}
+                    aria-label="Edit or delete message"
+                    aria-haspopup="menu"
+                    onClick={() => openMessageMenu(message)}
+                  >
+                    ⋯
+                  </button>
+                )}
+                {action?.mode === 'menu' && (
+                  <div className={`${styles.menu} ${styles.messageMenu}`} role="menu" data-message-menu>
+                    <button type="button" role="menuitem" className={styles.menuItem} onClick={() => setMessageAction({ ...action, mode: 'edit' })}>
+                      Edit
+                    </button>
+                    <button type="button" role="menuitem" className={styles.menuItem} onClick={() => setMessageAction({ ...action, mode: 'confirm-delete' })}>
+                      Delete
+                    </button>
+                  </div>
+                )}
+                {action?.mode === 'confirm-delete' && (
+                  <div className={styles.messageDeleteConfirm}>
+                    <span>Delete this message?</span>
+                    <button type="button" className={styles.messageEditCancel} onClick={() => setMessageAction(null)} disabled={action.saving}>
+                      Cancel
+                    </button>
+                    <button type="button" className={styles.messageDeleteButton} onClick={() => void confirmMessageDelete(message, action)} disabled={action.saving}>
+                      {action.saving ? 'Deleting…' : 'Delete'}
+                    </button>
+                  </div>
+                )}
+                {action?.error && <p className={styles.messageActionError} role="alert">{action.error}</p>}
                 <div className={styles.messageMeta}>
+                  {message.editedAt && !message.deleted && (
+                    <span className={styles.messageEdited} title={`Edited ${new Date(message.editedAt).toLocaleString()}`}>
+                      edited
+                    </span>
+                  )}
                   <div className={styles.messageTime}>
                     {new Date(message.timestamp).toLocaleTimeString([], {
                       hour: '2-digit',
                       minute: '2-digit',
                     })}
                   </div>
-                  {message.sender === 'user' && message.deliveryStatus && (
-                    <div className={styles.messageStatus}>
-                      {message.deliveryStatus === 'pending' && '⏳'}
-                      {message.deliveryStatus === 'delivered' && '✓'}
+                  {message.sender === 'user' && message.deliveryStatus && !message.deleted && (
+                    <div
+                      className={`${styles.messageStatus} ${message.deliveryStatus === 'read' ? styles.messageStatusRead : ''}`}
+                      title={getDeliveryStatusLabel(message)}
+                    >
+                      {message.deliveryStatus === 'pending' && (message.waiting ? '⏸' : '⏳')}
+                      {message.deliveryStatus === 'sent' && '✓'}
+                      {(message.deliveryStatus === 'delivered' || message.deliveryStatus === 'read') && '✓✓'}
                       {message.deliveryStatus === 'failed' && '✗'}
                     </div>
                   )}
+                  {message.sender === 'user' && message.deliveryStatus === 'failed' && (
+                    <button type="button" className={styles.retryButton} onClick={() => void retryMessage(message)}>
+                      Retry
+                    </button>
+                  )}
                 </div>
               </div>
             );
           })
         )}
+        {typingIndicator && (
+          <div className={`${styles.message} ${styles.messageBot}`} aria-live="polite">
+            <div className={styles.typingIndicator}>
+              <span>
+                {typingIndicator.senderName || (typingIndicator.sender === 'bot' ? 'Assistant' : 'Agent')} is typing
+              </span>
+              <span className={styles.typingDots} aria-hidden>
+                <span />
+                <span />
+                <span />
+              </span>
+            </div>
+          </div>
+        )}
+        {renderCsatSurvey()}
+        {chatState === 'pre_chat' && !identityError && renderPreChatForm()}
+        {chatState === 'offline' && !identityError && renderOfflineForm()}
         <div ref={messagesEndRef} />
       </div>
 
-      <div className={styles.inputContainer}>
-        {chatState === 'name_prompt' ? (
-          <>
-            <input
-              type="text"
-              value={nameInputValue}
-              onChange={(e) => setNameInputValue(e.target.value)}
-              onKeyPress={(e) => {
-                if (e.key === 'Enter' && !e.shiftKey) {
-                  e.preventDefault();
-                  handleNameSubmit();
-                }
-              }}
-              placeholder="Enter your name..."
-              className={styles.input}
-              disabled={isLoading}
-              autoFocus
-            />
-            <button
-              onClick={handleNameSubmit}
-              disabled={!nameInputValue.trim() || isLoading}
-              className={styles.sendButton}
-              aria-label="Submit name"
-            >
-              →
-            </button>
-          </>
-        ) : (
-          <>
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept="image/*,video/*,audio/*,.pdf"
-              onChange={handleFileSelect}
-              style={{ display: 'none' }}
-              aria-hidden
-            />
-            {getConversationId() && (
-              <button
-                type="button"
-                onClick={() => fileInputRef.current?.click()}
-                disabled={isLoading || isUploading}
-                className={styles.attachButton}
-                aria-label="Attach file"
-                title="Attach image, video, audio, or PDF"
-              >
-                {isUploading ? '…' : '📎'}
-              </button>
-            )}
-            <input
-              type="text"
-              value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
-              onKeyPress={(e) => {
-                if (e.key === 'Enter' && !e.shiftKey) {
-                  e.preventDefault();
-                  handleSend();
-                }
-              }}
-              placeholder={conversationClosed ? "Type a message to reopen conversation..." : "Type a message..."}
-              className={styles.input}
-              disabled={isLoading}
-            />
+      {throttledBuckets.length > 0 && (
+        <div className={styles.throttleNotice} role="status">
+          You&apos;re sending messages quickly - they&apos;ll go out in a moment.
+        </div>
+      )}
+
+      {identityError && (
+        <div className={styles.identityError} role="alert">
+          {identityError}
+        </div>
+      )}
+
+      {chatState === 'active' && !conversationClosed && !identityError && getConversationId() && (
+        <div className={styles.endChatBar}>
+          <button type="button" className={styles.endChatButton} onClick={() => void endChat()} title="End this conversation">
+            End chat
+          </button>
+        </div>
+      )}
+
+      {chatState !== 'pre_chat' && chatState !== 'offline' && !identityError && (
+        <div className={styles.inputContainer}>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,video/*,audio/*,.pdf"
+            onChange={handleFileSelect}
+            style={{ display: 'none' }}
+            aria-hidden
+          />
+          {getConversationId() && (
             <button
-              onClick={handleSend}
-              disabled={!inputValue.trim() || isLoading}
-              className={styles.sendButton}
-              aria-label="Send message"
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading || isUploading}
+              className={styles.attachButton}
+              aria-label="Attach file"
+              title="Attach image, video, audio, or PDF"
             >
-              →
+              {isUploading ? '…' : '📎'}
             </button>
-          </>
-        )}
-      </div>
+          )}
+          <input
+            type="text"
+            value={inputValue}
+            onChange={(e) => {
+              setInputValue(e.target.value);
+              // Same draft in every tab
+              tabsRef.current?.broadcast('draft', e.target.value);
+              if (e.target.value.trim()) {
+                notifyTyping();
+              } else {
+                stopTyping();
+              }
+            }}
+            onBlur={stopTyping}
+            onKeyPress={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder={conversationClosed ? "Type a message to reopen conversation..." : "Type a message..."}
+            className={styles.input}
+            disabled={isLoading}
+          />
+          <button
+            onClick={handleSend}
+            disabled={!inputValue.trim() || isLoading}
+            className={styles.sendButton}
+            aria-label="Send message"
+          >
+            →
+          </button>
+        </div>
+      )}
     </div>
   );
 }
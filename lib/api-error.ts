@@ -0,0 +1,219 @@
+/**
+ * Structured errors for Gateway / backend calls
+ * The backend answers failures with { error, code, details }; ChatApiError carries that together with
+ * the HTTP status, whether retrying can help, and the X-RateLimit-* / Retry-After headers.
+ * Callers branch on `code`, never on the message text.
+ */
+
+/** Codes returned by the backend (docs/07-backend-websocket-api.md → Error Handling) */
+export type BackendErrorCode =
+  | 'INVALID_API_KEY'
+  | 'INVALID_SESSION'
+  | 'INVALID_CONVERSATION'
+  | 'CONVERSATION_CLOSED'
+  | 'MISSING_TENANT_ID'
+  | 'RATE_LIMIT_EXCEEDED'
+  | 'IDENTITY_VERIFICATION_FAILED' // userSignature doesn't match userId (or expired)
+  | 'IDENTITY_VERIFICATION_REQUIRED' // Tenant requires a userSignature for identified visitors
+  | 'EDIT_WINDOW_EXPIRED'; // Message is too old to edit or delete (also checked on the client)
+
+/** Codes assigned on the client when the backend didn't send one (or never answered) */
+export type ClientErrorCode =
+  | 'MISSING_INTEGRATION_ID'
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'BAD_REQUEST'
+  | 'SERVER_ERROR'
+  | 'UPLOAD_FAILED'
+  | 'CANCELLED' // The caller's AbortSignal fired, or a plugin's beforeSend cancelled the message
+  | 'UNKNOWN';
+
+export type ChatApiErrorCode = BackendErrorCode | ClientErrorCode;
+
+export interface RateLimitInfo {
+  limit?: number; // X-RateLimit-Limit
+  remaining?: number; // X-RateLimit-Remaining
+  resetAt?: number; // X-RateLimit-Reset as a timestamp (ms)
+  retryAfterMs?: number; // Retry-After
+}
+
+const KNOWN_CODES: ChatApiErrorCode[] = [
+  'INVALID_API_KEY',
+  'INVALID_SESSION',
+  'INVALID_CONVERSATION',
+  'CONVERSATION_CLOSED',
+  'MISSING_TENANT_ID',
+  'RATE_LIMIT_EXCEEDED',
+  'IDENTITY_VERIFICATION_FAILED',
+  'IDENTITY_VERIFICATION_REQUIRED',
+  'EDIT_WINDOW_EXPIRED',
+  'MISSING_INTEGRATION_ID',
+  'NETWORK_ERROR',
+  'TIMEOUT',
+  'UNAUTHORIZED',
+  'NOT_FOUND',
+  'BAD_REQUEST',
+  'SERVER_ERROR',
+  'UPLOAD_FAILED',
+  'CANCELLED',
+  'UNKNOWN',
+];
+
+/** Codes worth retrying as-is (after a delay) */
+const RETRYABLE_CODES: ChatApiErrorCode[] = ['NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR', 'RATE_LIMIT_EXCEEDED'];
+
+export interface ChatApiErrorInit {
+  code: ChatApiErrorCode;
+  status?: number;
+  details?: unknown;
+  retryable?: boolean;
+  rateLimit?: RateLimitInfo;
+  cause?: unknown;
+}
+
+export class ChatApiError extends Error {
+  readonly code: ChatApiErrorCode;
+  readonly status?: number;
+  readonly details?: unknown;
+  readonly retryable: boolean;
+  readonly rateLimit?: RateLimitInfo;
+  readonly cause?: unknown;
+
+  constructor(message: string, init: ChatApiErrorInit) {
+    super(message);
+    this.name = 'ChatApiError';
+    this.code = init.code;
+    this.status = init.status;
+    this.details = init.details;
+    this.retryable = init.retryable ?? RETRYABLE_CODES.includes(init.code);
+    this.rateLimit = init.rateLimit;
+    this.cause = init.cause;
+  }
+
+  /**
+   * Build from a non-2xx response, reading { error, code, details } when the body is JSON
+   * @param context - What was being done, e.g. "Failed to send message" (used when the body has no message)
+   */
+  static async fromResponse(response: Response, context: string): Promise<ChatApiError> {
+    const text = await response.text().catch(() => '');
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : {};
+    } catch {
+      body = { error: text };
+    }
+
+    return ChatApiError.fromBody(body, `${context}: ${response.status} ${response.statusText}`, {
+      status: response.status,
+      rateLimit: readRateLimitHeaders(response.headers),
+    });
+  }
+
+  /**
+   * Build from an { error, code, details } body (HTTP error response or socket acknowledgment)
+   * Without a known code the status decides; with neither the code is UNKNOWN.
+   * @param context - Message prefix, e.g. "Failed to send message"
+   */
+  static fromBody(body: unknown, context: string, init: Pick<ChatApiErrorInit, 'status' | 'rateLimit'> = {}): ChatApiError {
+    const fields = (body && typeof body === 'object' ? body : {}) as {
+      error?: unknown;
+      message?: unknown;
+      code?: unknown;
+      details?: unknown;
+    };
+    const backendMessage = typeof fields.error === 'string' && fields.error
+      ? fields.error
+      : typeof fields.message === 'string' ? fields.message : '';
+    const code = typeof fields.code === 'string' && (KNOWN_CODES as string[]).includes(fields.code)
+      ? fields.code as ChatApiErrorCode
+      : init.status !== undefined ? codeForStatus(init.status) : 'UNKNOWN';
+
+    return new ChatApiError(`${context}${backendMessage ? ` - ${backendMessage}` : ''}`, {
+      code,
+      status: init.status,
+      details: fields.details,
+      rateLimit: init.rateLimit,
+    });
+  }
+
+  /**
+   * Wrap anything thrown around a fetch (network failure, abort/timeout, or an existing ChatApiError)
+   */
+  static from(error: unknown, context: string): ChatApiError {
+    if (error instanceof ChatApiError) {
+      return error;
+    }
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return new ChatApiError(`${context}: request timed out`, { code: 'TIMEOUT', cause: error });
+    }
+    if (error instanceof TypeError) {
+      // fetch() rejects with TypeError when the request never reached the server
+      return new ChatApiError(`${context}: network error (${error.message}). Check if the API endpoint is accessible.`, {
+        code: 'NETWORK_ERROR',
+        cause: error,
+      });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new ChatApiError(`${context}: ${message}`, { code: 'UNKNOWN', cause: error });
+  }
+}
+
+export function isChatApiError(error: unknown, code?: ChatApiErrorCode): error is ChatApiError {
+  return error instanceof ChatApiError && (code === undefined || error.code === code);
+}
+
+/**
+ * The Gateway refused who the visitor claims to be - retrying or re-sending can't help until the page
+ * passes a valid userSignature
+ */
+export function isIdentityError(error: unknown): error is ChatApiError {
+  return isChatApiError(error, 'IDENTITY_VERIFICATION_FAILED') || isChatApiError(error, 'IDENTITY_VERIFICATION_REQUIRED');
+}
+
+function codeForStatus(status: number): ChatApiErrorCode {
+  if (status === 410) return 'CONVERSATION_CLOSED'; // 410 Gone is used for closed conversations
+  if (status === 429) return 'RATE_LIMIT_EXCEEDED';
+  if (status === 401 || status === 403) return 'UNAUTHORIZED';
+  if (status === 404) return 'NOT_FOUND';
+  if (status >= 500) return 'SERVER_ERROR';
+  if (status >= 400) return 'BAD_REQUEST';
+  return 'UNKNOWN';
+}
+
+function toNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Parse X-RateLimit-* and Retry-After headers (undefined when none are present)
+ * X-RateLimit-Reset may be epoch seconds or seconds from now; Retry-After may be seconds or an HTTP date.
+ */
+export function readRateLimitHeaders(headers: Headers): RateLimitInfo | undefined {
+  const limit = toNumber(headers.get('X-RateLimit-Limit'));
+  const remaining = toNumber(headers.get('X-RateLimit-Remaining'));
+  const reset = toNumber(headers.get('X-RateLimit-Reset'));
+  const retryAfterHeader = headers.get('Retry-After');
+
+  let retryAfterMs: number | undefined;
+  if (retryAfterHeader) {
+    const seconds = toNumber(retryAfterHeader);
+    const date = seconds === undefined ? Date.parse(retryAfterHeader) : NaN;
+    retryAfterMs = seconds !== undefined ? seconds * 1000 : Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  if (limit === undefined && remaining === undefined && reset === undefined && retryAfterMs === undefined) {
+    return undefined;
+  }
+
+  return {
+    limit,
+    remaining,
+    // Values this large are epoch seconds, smaller ones are a delay
+    resetAt: reset === undefined ? undefined : reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000,
+    retryAfterMs,
+  };
+}
@@ -5,21 +5,32 @@
  */
 
 import { getSessionInfo, refreshSession, getConversationId, clearConversation, getSenderName } from './session';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_GATEWAY_URL || process.env.NEXT_PUBLIC_API_URL || 'https://api-gateway-dfcflow.fly.dev';
+import type { DeliveryStatus } from './protocol';
+import { ChatApiError, isChatApiError } from './api-error';
+import { fetchWithRetry, type RetryOperation, type RetryOptions } from './retry-policy';
+import { GATEWAY_URL, getGatewayHeaders, resolveWebsiteInfo } from './gateway';
+import type { WebsiteInfo, UserInfo, OnlineUser, AttachmentItem } from './types';
+import type { ConnectionQualityPayload } from './connection-quality';
+import type { CsatResponse } from './csat';
+import { addPreChatAnswers } from './pre-chat-form';
+import { parseAvailability, type AgentAvailability } from './availability';
+import { plugins, type OutgoingMessage, type SendContext } from './plugins';
+import { isWithinEditWindow } from './message-edit';
+
+export type { WebsiteInfo, UserInfo, OnlineUser, AttachmentItem } from './types';
 
 export interface Message {
   id: string;
   text: string;
   sender: 'user' | 'bot' | 'agent';
   timestamp: string;
-  deliveryStatus?: 'pending' | 'delivered' | 'failed';
+  deliveryStatus?: DeliveryStatus;
 }
 
 export interface SendMessageResponse {
   success: boolean;
   message?: Message;
-  error?: string;
+  error?: ChatApiError;
   conversationClosed?: boolean; // Indicates if conversation was closed and retried
   // DB-first flow: Real IDs from backend (202 response)
   message_id?: string; // Real message UUID from webchat_messages table
@@ -27,48 +38,60 @@ export interface SendMessageResponse {
   stream_id?: string; // Redis stream entry ID (for backward compatibility)
 }
 
-export interface WebsiteInfo {
-  domain?: string;
-  origin?: string;
-  url?: string;
-  referrer?: string;
-  siteId?: string;
-}
-
-export interface UserInfo {
-  name?: string;
-  email?: string;
-  phone?: string;
-  [key: string]: any; // Allow additional user properties
-}
-
-export interface AttachmentItem {
-  type: 'image' | 'video' | 'audio' | 'document';
-  payload: { url: string; filename?: string; content_type?: string; size?: number };
-}
-
 export interface SendMessageOptions {
   userId?: string; // For logged-in users
   userInfo?: UserInfo; // User information for logged-in users
+  userSignature?: string; // Identity verification for `userId` (see ChatAPI constructor)
   temp_id?: string; // Client-generated temp id for optimistic message replacement
   attachments?: { items: AttachmentItem[] }; // Optional file attachments (URLs from upload)
+  connection_quality?: ConnectionQualityPayload; // Visitor's network quality, measured on the socket
+  signal?: AbortSignal; // Cancels the send, including pending retries
+  prepared?: OutgoingMessage; // Already through plugins' beforeSend (by the transport) - sent as is, hooks not run again
 }
 
-export interface OnlineUser {
-  userId: string;
-  sessionId?: string;
-  connectedAt: string;
-  domain?: string;
-  origin?: string;
-  url?: string;
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancels the request, including pending retries
 }
 
+export interface ConversationMessagesOptions {
+  after?: string; // Only messages newer than this message id
+  since?: string; // Timestamp of the `after` message
+  before?: string; // Only messages older than this message id (loading earlier pages)
+  limit?: number; // Page size - the newest `limit` messages matching the other options
+  signal?: AbortSignal;
+}
+
+export interface ConversationMessagesPage {
+  messages: any[];
+  hasMore: boolean; // Older messages exist beyond this page
+}
+
+export const HISTORY_PAGE_SIZE = 50;
+
 export interface PresenceSessionResponse {
   tenant_id: string;
   site_id: string;
   session_id: string;
   ws_token: string;
   websocket_url: string;
+  expires_in?: number; // ws_token lifetime in seconds
+  pre_chat_form?: unknown; // Tenant's pre-chat form, see lib/pre-chat-form parsePreChatForm
+  availability?: unknown; // Whether agents are online, see lib/availability parseAvailability
+}
+
+/** Message left while no agent is available (POST /webchat/ticket) */
+export interface TicketRequest {
+  name: string;
+  email: string;
+  message: string;
+  attachments?: { items: AttachmentItem[] }; // Uploaded with the session scope (no conversation yet)
+  client_ticket_id: string; // Client-generated, lets the backend drop a repeated submit
+}
+
+export interface TicketResponse {
+  ticketId: string;
+  expectedReply?: string; // e.g. "within 1 business day"
+  expectedReplyAt?: string; // ISO timestamp the team promises to reply by
 }
 
 export class ChatAPI {
@@ -77,50 +100,30 @@ export class ChatAPI {
   private websiteInfo: WebsiteInfo;
   private userId?: string; // For logged-in users
   private userInfo?: UserInfo; // User information
+  private userSignature?: string; // Proof of userId issued by the site's server
 
-  constructor(tenantId: string | null, websiteInfo?: WebsiteInfo, userId?: string, userInfo?: UserInfo) {
+  /**
+   * @param userSignature - Identity verification: an HMAC of userId or a signed JWT, generated by the site's
+   * server with the tenant's identity secret. Sent along with userId; the Gateway rejects identified requests
+   * whose signature doesn't match (IDENTITY_VERIFICATION_FAILED) or, when the tenant requires verification,
+   * that have none (IDENTITY_VERIFICATION_REQUIRED).
+   */
+  constructor(tenantId: string | null, websiteInfo?: WebsiteInfo, userId?: string, userInfo?: UserInfo, userSignature?: string) {
     this.tenantId = tenantId || null;
-    this.baseUrl = API_BASE_URL;
-    // Use provided websiteInfo if it has domain/origin, otherwise try to get from URL params
-    // Don't use fallback getWebsiteInfo() if we're on webchat domain (would return wrong domain)
-    if (websiteInfo && (websiteInfo.domain || websiteInfo.origin)) {
-      this.websiteInfo = websiteInfo;
-    } else {
-      // Try to get from URL params (widget loader should pass these)
-      const params = typeof window !== 'undefined' ? new URLSearchParams(window.location.search) : null;
-      const domain = params?.get('domain');
-      const origin = params?.get('origin');
-      
-      if (domain || origin) {
-        this.websiteInfo = {
-          domain: domain || undefined,
-          origin: origin || undefined,
-          url: params?.get('url') || undefined,
-          referrer: params?.get('referrer') || undefined,
-          siteId: params?.get('siteId') || undefined,
-        };
-      } else {
-        // Last resort: use provided websiteInfo even if empty, or getWebsiteInfo() if not on webchat domain
-        const fallback = this.getWebsiteInfo();
-        if (fallback.domain && !fallback.domain.includes('webchat')) {
-          this.websiteInfo = fallback;
-        } else {
-          // On webchat domain without URL params - this shouldn't happen in production
-          this.websiteInfo = websiteInfo || {};
-          console.warn('[ChatAPI] ⚠️ No domain info available. Widget loader should pass domain via URL params.');
-        }
-      }
-    }
+    this.baseUrl = GATEWAY_URL;
+    this.websiteInfo = resolveWebsiteInfo(websiteInfo, '[ChatAPI]');
     this.userId = userId;
     this.userInfo = userInfo;
+    this.userSignature = userSignature;
   }
 
   /**
    * Set user information (for logged-in users)
    */
-  setUser(userId: string, userInfo?: UserInfo): void {
+  setUser(userId: string, userInfo?: UserInfo, userSignature?: string): void {
     this.userId = userId;
     this.userInfo = userInfo;
+    this.userSignature = userSignature;
   }
 
   /**
@@ -129,143 +132,135 @@ export class ChatAPI {
   clearUser(): void {
     this.userId = undefined;
     this.userInfo = undefined;
+    this.userSignature = undefined;
   }
 
   /**
-   * Auto-detect website information from browser
-   * Note: This should rarely be called since websiteInfo is passed from embed page
-   * This is only a fallback if websiteInfo wasn't provided
+   * Get API headers with tenant authentication (API key + parent website domain, see getGatewayHeaders)
+   * Public so transports and uploads hit the Gateway with the same headers.
    */
-  private getWebsiteInfo(): WebsiteInfo {
-    if (typeof window !== 'undefined') {
-      const hostname = window.location.hostname;
-      // Don't use webchat.amoiq.com as domain - this means we're in iframe without proper info
-      if (hostname === 'webchat.amoiq.com' || hostname.includes('webchat')) {
-        console.warn('[ChatAPI] ⚠️ Widget is on webchat domain but no websiteInfo provided. This should not happen in production.');
-        return {};
-      }
-      return {
-        domain: hostname,
-        origin: window.location.origin,
-        url: window.location.href,
-        referrer: document.referrer || '',
-      };
-    }
-    return {};
+  getHeaders(): HeadersInit {
+    return getGatewayHeaders(this.websiteInfo);
   }
 
   /**
-   * Get API headers with tenant authentication
-   * Note: Gateway extracts domain from X-Website-Origin header (or Origin/Referer fallback) and sets X-Tenant-ID itself
-   * We send Authorization header with API key and custom headers with parent domain info
+   * fetch() against the Gateway that throws ChatApiError for network failures and non-2xx responses
+   * Goes through the shared rate limiter, so it may wait before sending while the visitor is throttled,
+   * and retries / times out per the operation's retry policy.
+   * @param context - Prefix for the error message, e.g. "Failed to fetch messages"
    */
-  private getHeaders(): HeadersInit {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    };
-
-    // Add API key if available (from env or config)
-    // Gateway validates API key, extracts domain from X-Website-Origin header (or Origin/Referer fallback),
-    // queries webchat_integration table for domain → gets tenant_id,
-    // then sets X-Tenant-ID header before forwarding to backend
-    const apiKey = process.env.NEXT_PUBLIC_GATEWAY_API_KEY || process.env.NEXT_PUBLIC_API_KEY;
-    if (apiKey) {
-      headers['Authorization'] = `Bearer ${apiKey}`;
-    }
-
-    // Send parent domain in custom headers for Gateway to use
-    // Since widget runs in iframe (webchat.amoiq.com), Origin header will be from iframe domain
-    // We need to send the actual parent website domain so Gateway can look it up
-    if (this.websiteInfo?.origin) {
-      headers['X-Website-Origin'] = this.websiteInfo.origin;
-    }
-    if (this.websiteInfo?.domain) {
-      headers['X-Website-Domain'] = this.websiteInfo.domain;
-    }
-
-    // DO NOT send X-Tenant-ID header - Gateway will set it based on domain lookup
-    // Browser automatically sends Origin/Referer headers (from iframe domain), but Gateway should use X-Website-Origin first
-
-    return headers;
+  private request(path: string, init: RequestInit, context: string, operation: RetryOperation, options: Omit<RetryOptions, 'context'> = {}): Promise<Response> {
+    return fetchWithRetry(`${this.baseUrl}${path}`, init, context, operation, options);
   }
 
   /**
    * Fetch messages for the current conversation
    * Loads conversation history based on sessionId or userId
+   * @throws ChatApiError
    */
-  async getMessages(): Promise<Message[]> {
-    try {
-      const sessionInfo = getSessionInfo();
-      
-      // Build query params with session info
-      const params = new URLSearchParams({
-        sessionId: sessionInfo.sessionId,
-      });
-
-      // Only add tenantId if available - Gateway will resolve from domain if not provided
-      if (this.tenantId) {
-        params.append('tenantId', this.tenantId);
-      }
+  async getMessages(options: RequestOptions = {}): Promise<Message[]> {
+    const sessionInfo = getSessionInfo();
+    
+    // Build query params with session info
+    const params = new URLSearchParams({
+      sessionId: sessionInfo.sessionId,
+    });
+
+    // Only add tenantId if available - Gateway will resolve from domain if not provided
+    if (this.tenantId) {
+      params.append('tenantId', this.tenantId);
+    }
 
-      // Add userId if logged in
-      if (this.userId) {
-        params.append('userId', this.userId);
+    // Add userId if logged in
+    if (this.userId) {
+      params.append('userId', this.userId);
+      if (this.userSignature) {
+        params.append('userSignature', this.userSignature);
       }
+    }
 
-      // Use /webchat/messages endpoint (consistent with /webchat/message and /webchat/init)
-      // Keep domain info in headers (X-Website-Origin/X-Website-Domain) - Gateway handlers read from headers
-      const response = await fetch(`${this.baseUrl}/webchat/messages?${params.toString()}`, {
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch messages: ${response.statusText}`);
-      }
+    // Use /webchat/messages endpoint (consistent with /webchat/message and /webchat/init)
+    // Keep domain info in headers (X-Website-Origin/X-Website-Domain) - Gateway handlers read from headers
+    const response = await this.request(`/webchat/messages?${params.toString()}`, {
+      method: 'GET',
+      headers: this.getHeaders(),
+    }, 'Failed to fetch messages', 'history', options);
 
-      const data = await response.json();
-      return data.messages || [];
-    } catch (error) {
-      console.error('[ChatAPI] Error fetching messages:', error);
-      return [];
-    }
+    const data = await response.json();
+    return data.messages || [];
   }
 
   /**
    * Get messages for a specific conversation
    * Uses the /webchat/messages endpoint with conversationId parameter
+   * Pass `after` (message id) and `since` (timestamp) to fetch only messages newer than a cursor
+   * @throws ChatApiError
    */
-  async getConversationMessages(conversationId: string): Promise<any[]> {
-    try {
-      const response = await fetch(
-        `${this.baseUrl}/webchat/messages?conversationId=${conversationId}`,
-        {
-          method: 'GET',
-          headers: this.getHeaders(),
-        }
-      );
-      
-      if (!response.ok) {
-        console.error('[API] Failed to fetch messages:', response.statusText);
-        return [];
-      }
-      
-      const data = await response.json();
-      // API returns array directly, not wrapped in {messages: []}
-      return Array.isArray(data) ? data : (data.messages || []);
-    } catch (error) {
-      console.error('[API] Error fetching messages:', error);
-      return [];
+  async getConversationMessages(conversationId: string, options?: ConversationMessagesOptions): Promise<any[]> {
+    const data = await this.fetchConversationMessages(conversationId, options);
+    // API returns array directly, not wrapped in {messages: []}
+    return Array.isArray(data) ? data : (data.messages || []);
+  }
+
+  /**
+   * One page of a conversation: its latest `limit` messages, or the `limit` messages before `before`
+   * when the visitor scrolls back
+   * @throws ChatApiError
+   */
+  async getConversationMessagesPage(
+    conversationId: string,
+    { before, limit = HISTORY_PAGE_SIZE, signal }: Pick<ConversationMessagesOptions, 'before' | 'limit' | 'signal'> = {}
+  ): Promise<ConversationMessagesPage> {
+    const data = await this.fetchConversationMessages(conversationId, { before, limit, signal });
+    const messages: any[] = Array.isArray(data) ? data : (data.messages || []);
+    // Backends that don't report has_more: a full page means there may be more
+    const hasMore = typeof data?.has_more === 'boolean'
+      ? data.has_more
+      : typeof data?.hasMore === 'boolean' ? data.hasMore : messages.length >= limit;
+    return { messages, hasMore };
+  }
+
+  private async fetchConversationMessages(conversationId: string, options?: ConversationMessagesOptions): Promise<any> {
+    const params = new URLSearchParams({ conversationId });
+    if (options?.after) {
+      params.append('after', options.after);
+    }
+    if (options?.since) {
+      params.append('since', options.since);
     }
+    if (options?.before) {
+      params.append('before', options.before);
+    }
+    if (options?.limit) {
+      params.append('limit', String(options.limit));
+    }
+
+    const response = await this.request(`/webchat/messages?${params.toString()}`, {
+      method: 'GET',
+      headers: this.getHeaders(),
+    }, 'Failed to fetch conversation messages', 'history', { signal: options?.signal });
+    
+    return response.json();
   }
 
   /**
    * Send a message
    * Supports both anonymous and logged-in users
    * Backend determines user type based on payload (userId presence)
+   * Never throws: failures come back as { success: false, error: ChatApiError }
    */
   async sendMessage(text: string, options?: SendMessageOptions): Promise<SendMessageResponse> {
     try {
+      // Plugins may enrich, redact or cancel the message
+      const sendContext: SendContext = { channel: 'http', conversationId: getConversationId() || undefined };
+      const prepared = options?.prepared
+        ? { cancelled: false as const, message: options.prepared }
+        : await plugins.runBeforeSend({ text, temp_id: options?.temp_id, attachments: options?.attachments }, sendContext);
+      if (prepared.cancelled) {
+        throw new ChatApiError(`Message cancelled by plugin "${prepared.plugin}"`, { code: 'CANCELLED', retryable: false });
+      }
+      const outgoing: OutgoingMessage = prepared.message;
+
       // Get session info (sessionId + fingerprint)
       const sessionInfo = getSessionInfo();
       
@@ -274,7 +269,7 @@ export class ChatAPI {
 
       // Prepare message payload
       const payload: any = {
-        text,
+        text: outgoing.text,
         sessionId: sessionInfo.sessionId,
         fingerprint: sessionInfo.fingerprint,
         ...this.websiteInfo, // Include domain, origin, url, referrer, siteId
@@ -294,6 +289,8 @@ export class ChatAPI {
       // Add user identification if logged in
       const userId = options?.userId || this.userId;
       const userInfo = options?.userInfo || this.userInfo;
+      // A signature only vouches for the user it was issued for
+      const userSignature = options?.userId ? options.userSignature : this.userSignature;
 
       if (userId) {
         // Logged-in user
@@ -301,6 +298,9 @@ export class ChatAPI {
         if (userInfo) {
           payload.userInfo = userInfo;
         }
+        if (userSignature) {
+          payload.userSignature = userSignature;
+        }
       }
       // If no userId, backend treats as anonymous user (uses sessionId + fingerprint)
 
@@ -311,174 +311,181 @@ export class ChatAPI {
       }
 
       // Add temp_id for optimistic message replacement (server echoes in meta_message_created)
-      if (options?.temp_id) {
-        payload.temp_id = options.temp_id;
+      if (outgoing.temp_id) {
+        payload.temp_id = outgoing.temp_id;
       }
 
       // Add attachments if provided (URLs from upload service)
-      if (options?.attachments?.items?.length) {
-        payload.attachments = options.attachments;
+      if (outgoing.attachments?.items?.length) {
+        payload.attachments = outgoing.attachments;
       }
 
-      // Retry logic for production
-      // IMPORTANT: maxRetries = 2 means 1 initial + 1 retry (total 2 attempts)
-      // This prevents excessive duplicate API calls on network issues
-      // The API has temp_id deduplication, but we should minimize calls
-      let lastError: Error | null = null;
-      const maxRetries = 2;
-      
-      for (let attempt = 0; attempt < maxRetries; attempt++) {
-        try {
-          // Add timeout to prevent hanging requests (15 seconds)
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 15000);
-          
-          const response = await fetch(`${this.baseUrl}/webchat/message`, {
-            method: 'POST',
-            headers: this.getHeaders(),
-            body: JSON.stringify(payload),
-            signal: controller.signal,
-          });
-          
-          clearTimeout(timeoutId);
-
-          if (!response.ok) {
-            const errorText = await response.text().catch(() => response.statusText);
-            
-            // Check if error is about closed conversation
-            const isClosedConversation = errorText.toLowerCase().includes('closed') || 
-                                         errorText.toLowerCase().includes('conversation closed') ||
-                                         response.status === 410; // 410 Gone often used for closed resources
-            
-            if (isClosedConversation && payload.conversation_id) {
-              // Conversation is closed - clear stored conversation data
-              clearConversation();
-              
-              // Retry without conversation_id to create a new conversation
-              if (attempt < maxRetries - 1) {
-                delete payload.conversation_id;
-                const delay = Math.min(1000 * Math.pow(2, attempt), 5000);
-                await new Promise(resolve => setTimeout(resolve, delay));
-                // Mark that we're retrying due to closed conversation
-                payload._retryDueToClosed = true;
-                continue;
-              }
-            }
-            
-            // Don't retry on client errors (4xx)
-            if (response.status >= 400 && response.status < 500) {
-              throw new Error(`Failed to send message: ${response.status} ${response.statusText} - ${errorText}`);
-            }
-            // Server errors (5xx): include response body so backend message is visible
-            const serverMsg = errorText?.trim() ? ` - ${errorText}` : '';
-            throw new Error(`Server error: ${response.status} ${response.statusText}${serverMsg}`);
-          }
+      // Context added by plugins (page, cart id, ...)
+      if (outgoing.metadata && Object.keys(outgoing.metadata).length > 0) {
+        payload.metadata = outgoing.metadata;
+      }
 
-          const data = await response.json();
-          
-          // Check if response indicates conversation is closed
-          const wasClosed = data.closed_at || data.conversation_closed;
-          if (wasClosed) {
-            clearConversation();
-          }
-          
-          // Check if we retried due to closed conversation
-          const retriedDueToClosed = payload._retryDueToClosed === true;
-          
-          // Update sessionId if backend returns a new one
-          if (data.sessionId && data.sessionId !== sessionInfo.sessionId) {
-            if (typeof window !== 'undefined') {
-              try {
-                localStorage.setItem('chat_session_id', data.sessionId);
-              } catch (e) {
-                console.warn('[ChatAPI] Failed to update sessionId:', e);
-              }
-            }
-          }
+      if (options?.connection_quality) {
+        payload.connection_quality = options.connection_quality;
+      }
+
+      // Retries / timeout per the sendMessage policy. With a temp_id the backend deduplicates repeats;
+      // without one, a request that may have arrived isn't repeated.
+      const post = () => this.request('/webchat/message', {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(payload),
+      }, 'Failed to send message', 'sendMessage', { signal: options?.signal, policy: { idempotent: !!payload.temp_id } });
+
+      let response: Response;
+      let retriedDueToClosed = false;
+      try {
+        response = await post();
+      } catch (error) {
+        if (!isChatApiError(error, 'CONVERSATION_CLOSED') || !payload.conversation_id) {
+          throw error;
+        }
+        // Conversation is closed - clear stored conversation data and send again without
+        // conversation_id to start a new conversation
+        clearConversation();
+        delete payload.conversation_id;
+        retriedDueToClosed = true;
+        response = await post();
+      }
 
-          // DB-first flow: Extract message_id from 202 response
-          // Backend returns: { code: 'ACCEPTED', message: '...', data: { message_id, conversation_id, stream_id } }
-          const messageId = data.data?.message_id || data.message_id;
-          const conversationId = data.data?.conversation_id || data.conversation_id;
-          const streamId = data.data?.stream_id || data.stream_id;
-          
-          return {
-            success: true,
-            message: data.message,
-            conversationClosed: wasClosed || retriedDueToClosed,
-            // DB-first flow fields
-            message_id: messageId,
-            conversation_id: conversationId,
-            stream_id: streamId,
-          };
-        } catch (error) {
-          lastError = error instanceof Error ? error : new Error('Unknown error');
-          
-          // Don't retry on last attempt
-          if (attempt < maxRetries - 1) {
-            // Exponential backoff
-            const delay = Math.min(1000 * Math.pow(2, attempt), 5000);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue;
+      const data = await response.json();
+
+      // Check if response indicates conversation is closed
+      const wasClosed = data.closed_at || data.conversation_closed;
+      if (wasClosed) {
+        clearConversation();
+      }
+
+      // Update sessionId if backend returns a new one
+      if (data.sessionId && data.sessionId !== sessionInfo.sessionId) {
+        if (typeof window !== 'undefined') {
+          try {
+            localStorage.setItem('chat_session_id', data.sessionId);
+          } catch (e) {
+            console.warn('[ChatAPI] Failed to update sessionId:', e);
           }
         }
       }
 
-      // All retries failed
-      throw lastError || new Error('Failed to send message after retries');
+      // DB-first flow: Extract message_id from 202 response
+      // Backend returns: { code: 'ACCEPTED', message: '...', data: { message_id, conversation_id, stream_id } }
+      const messageId = data.data?.message_id || data.message_id;
+      const responseConversationId = data.data?.conversation_id || data.conversation_id;
+      const streamId = data.data?.stream_id || data.stream_id;
+
+      plugins.runAfterSend(outgoing, { message_id: messageId, conversation_id: responseConversationId }, sendContext);
+
+      return {
+        success: true,
+        message: data.message,
+        conversationClosed: wasClosed || retriedDueToClosed,
+        // DB-first flow fields
+        message_id: messageId,
+        conversation_id: responseConversationId,
+        stream_id: streamId,
+      };
     } catch (error) {
-      console.error('[ChatAPI] Error sending message:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      // Include more details for network errors
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        return {
-          success: false,
-          error: `Network error: ${errorMessage}. Check if the API endpoint is accessible.`,
-        };
-      }
-      
+      const apiError = ChatApiError.from(error, 'Failed to send message');
+      console.error('[ChatAPI] Error sending message:', apiError);
       return {
         success: false,
-        error: errorMessage,
+        error: apiError,
       };
     }
   }
 
   /**
-   * Initialize a new conversation session
+   * Change the text of one of the visitor's own messages
+   * The backend broadcasts message:updated to the conversation room.
+   * @param sentAt - The message's timestamp, checked against the edit window before anything is sent
+   * @throws ChatApiError (EDIT_WINDOW_EXPIRED once the window has passed)
    */
-  async initializeSession(): Promise<{ sessionId: string } | null> {
-    try {
-      const payload: any = {};
-      // Only add tenantId if available
-      if (this.tenantId) {
-        payload.tenantId = this.tenantId;
-      }
+  async editMessage(messageId: string, text: string, sentAt: string, options: RequestOptions = {}): Promise<void> {
+    this.assertEditable(sentAt, 'Failed to edit message');
+    await this.request(`/webchat/messages/${encodeURIComponent(messageId)}`, {
+      method: 'PATCH',
+      headers: this.getHeaders(),
+      body: JSON.stringify(this.messageChangePayload({ text })),
+    }, 'Failed to edit message', 'editMessage', options);
+  }
 
-      const response = await fetch(`${this.baseUrl}/api/chat/session`, {
-        method: 'POST',
-        headers: this.getHeaders(),
-        body: JSON.stringify(payload),
-      });
+  /**
+   * Delete one of the visitor's own messages
+   * The backend keeps a tombstone and broadcasts message:deleted to the conversation room.
+   * @param sentAt - The message's timestamp, checked against the edit window before anything is sent
+   * @throws ChatApiError (EDIT_WINDOW_EXPIRED once the window has passed)
+   */
+  async deleteMessage(messageId: string, sentAt: string, options: RequestOptions = {}): Promise<void> {
+    this.assertEditable(sentAt, 'Failed to delete message');
+    await this.request(`/webchat/messages/${encodeURIComponent(messageId)}`, {
+      method: 'DELETE',
+      headers: this.getHeaders(),
+      body: JSON.stringify(this.messageChangePayload({})),
+    }, 'Failed to delete message', 'deleteMessage', options);
+  }
 
-      if (!response.ok) {
-        throw new Error(`Failed to initialize session: ${response.statusText}`);
+  private assertEditable(sentAt: string, context: string): void {
+    if (!isWithinEditWindow(sentAt)) {
+      throw new ChatApiError(`${context}: the message is too old to change`, { code: 'EDIT_WINDOW_EXPIRED' });
+    }
+  }
+
+  /**
+   * Body for message edits / deletes: the session (and visitor) the message must belong to
+   */
+  private messageChangePayload(fields: Record<string, unknown>): Record<string, unknown> {
+    const sessionInfo = getSessionInfo();
+    const payload: Record<string, unknown> = {
+      ...fields,
+      sessionId: sessionInfo.sessionId,
+    };
+    const conversationId = getConversationId();
+    if (conversationId) {
+      payload.conversation_id = conversationId;
+    }
+    if (this.userId) {
+      payload.userId = this.userId;
+      if (this.userSignature) {
+        payload.userSignature = this.userSignature;
       }
+    }
+    if (this.tenantId) {
+      payload.tenantId = this.tenantId;
+    }
+    return payload;
+  }
 
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      console.error('Error initializing session:', error);
-      return null;
+  /**
+   * Initialize a new conversation session
+   * @throws ChatApiError
+   */
+  async initializeSession(options: RequestOptions = {}): Promise<{ sessionId: string }> {
+    const payload: any = {};
+    // Only add tenantId if available
+    if (this.tenantId) {
+      payload.tenantId = this.tenantId;
     }
+
+    const response = await this.request('/api/chat/session', {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(payload),
+    }, 'Failed to initialize session', 'chatSession', options);
+
+    return response.json();
   }
 
   /**
    * Initialize conversation and get JWT token for WebSocket connection
    * This is the new flow per Gateway plan: POST /webchat/init
+   * @throws ChatApiError
    */
-  async initializeConversation(visitorId?: string, sessionId?: string): Promise<{
+  async initializeConversation(visitorId?: string, sessionId?: string, options: RequestOptions = {}): Promise<{
     session_id: string;
     visitor_id: string;
     ws_token: string;
@@ -488,175 +495,287 @@ export class ChatAPI {
     site_id?: string;
     expires_in: number;
     closed_at?: string | null;
-  } | null> {
-    try {
-      const sessionInfo = getSessionInfo();
-      
-      // Prepare payload according to Gateway plan
-      const payload: any = {
-        ...this.websiteInfo, // domain, origin, url, siteId
-      };
+    availability?: unknown; // Whether agents are online, see lib/availability parseAvailability
+  }> {
+    const sessionInfo = getSessionInfo();
+    
+    // Prepare payload according to Gateway plan
+    const payload: any = {
+      ...this.websiteInfo, // domain, origin, url, siteId
+    };
 
-      // Only add tenantId if available - Gateway will resolve from domain if not provided
-      if (this.tenantId) {
-        payload.tenantId = this.tenantId;
-      }
+    // Only add tenantId if available - Gateway will resolve from domain if not provided
+    if (this.tenantId) {
+      payload.tenantId = this.tenantId;
+    }
 
-      // Add sessionId when available (session-first flow)
-      // Priority: passed sessionId > sessionInfo.sessionId
-      const effectiveSessionId = sessionId || sessionInfo.sessionId;
-      if (effectiveSessionId) {
-        payload.sessionId = effectiveSessionId;
-      }
+    // Add sessionId when available (session-first flow)
+    // Priority: passed sessionId > sessionInfo.sessionId
+    const effectiveSessionId = sessionId || sessionInfo.sessionId;
+    if (effectiveSessionId) {
+      payload.sessionId = effectiveSessionId;
+    }
 
-      // Add visitorId if provided (for returning users)
-      if (visitorId) {
-        payload.visitorId = visitorId;
-      }
+    // Add visitorId if provided (for returning users)
+    if (visitorId) {
+      payload.visitorId = visitorId;
+    }
 
-      // Add user identification if logged in
-      if (this.userId) {
-        payload.userId = this.userId;
-        if (this.userInfo) {
-          payload.userInfo = this.userInfo;
-        }
+    // Add user identification if logged in
+    if (this.userId) {
+      payload.userId = this.userId;
+      if (this.userInfo) {
+        payload.userInfo = this.userInfo;
+      }
+      if (this.userSignature) {
+        payload.userSignature = this.userSignature;
       }
+    }
 
-      const response = await fetch(`${this.baseUrl}/webchat/init`, {
-        method: 'POST',
-        headers: this.getHeaders(),
-        body: JSON.stringify(payload),
-      });
+    // Pre-chat form answers (anonymous visitors too)
+    addPreChatAnswers(payload);
 
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => response.statusText);
-        throw new Error(`Failed to initialize conversation: ${response.status} ${response.statusText} - ${errorText}`);
-      }
+    const response = await this.request('/webchat/init', {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(payload),
+    }, 'Failed to initialize conversation', 'init', options);
 
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      console.error('[ChatAPI] Error initializing conversation:', error);
-      return null;
-    }
+    return response.json();
   }
 
   /**
    * Create presence session (called on page load)
    * Initializes presence layer for online/offline tracking, idle timers, retargeting, AI greeting triggers
+   * @throws ChatApiError
    */
-  async createPresenceSession(): Promise<PresenceSessionResponse | null> {
-    try {
-      const sessionInfo = getSessionInfo();
-      
-      // Prepare payload with origin domain, user id, user name, email, user info
-      const payload: any = {
-        ...this.websiteInfo, // domain, origin, url, referrer, siteId
-        sessionId: sessionInfo.sessionId,
-        fingerprint: sessionInfo.fingerprint,
-      };
+  async createPresenceSession(options: RequestOptions = {}): Promise<PresenceSessionResponse> {
+    const sessionInfo = getSessionInfo();
+    
+    // Prepare payload with origin domain, user id, user name, email, user info
+    const payload: any = {
+      ...this.websiteInfo, // domain, origin, url, referrer, siteId
+      sessionId: sessionInfo.sessionId,
+      fingerprint: sessionInfo.fingerprint,
+    };
 
-      // Only add tenantId if available - Gateway will resolve from domain if not provided
-      if (this.tenantId) {
-        payload.tenantId = this.tenantId;
-      }
+    // Only add tenantId if available - Gateway will resolve from domain if not provided
+    if (this.tenantId) {
+      payload.tenantId = this.tenantId;
+    }
 
-      // Add user identification if logged in
-      if (this.userId) {
-        payload.userId = this.userId;
-        if (this.userInfo) {
-          payload.userInfo = this.userInfo;
-          // Extract name and email from userInfo if available
-          if (this.userInfo.name) {
-            payload.userName = this.userInfo.name;
-          }
-          if (this.userInfo.email) {
-            payload.email = this.userInfo.email;
-          }
+    // Add user identification if logged in
+    if (this.userId) {
+      payload.userId = this.userId;
+      if (this.userSignature) {
+        payload.userSignature = this.userSignature;
+      }
+      if (this.userInfo) {
+        payload.userInfo = this.userInfo;
+        // Extract name and email from userInfo if available
+        if (this.userInfo.name) {
+          payload.userName = this.userInfo.name;
+        }
+        if (this.userInfo.email) {
+          payload.email = this.userInfo.email;
         }
       }
+    }
 
-      const response = await fetch(`${this.baseUrl}/webchat/session`, {
-        method: 'POST',
-        headers: this.getHeaders(),
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => response.statusText);
-        throw new Error(`Failed to create presence session: ${response.status} ${response.statusText} - ${errorText}`);
-      }
+    const response = await this.request('/webchat/session', {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(payload),
+    }, 'Failed to create presence session', 'presenceSession', options);
 
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      console.error('[ChatAPI] Error creating presence session:', error);
-      return null;
-    }
+    return response.json();
   }
 
   /**
    * Open chat (called when user clicks chat bubble)
    * Updates presence status to "bubble click"
+   * @throws ChatApiError
    */
-  async openChat(sessionId: string): Promise<boolean> {
-    try {
-      const payload: any = {
-        sessionId,
-        ...this.websiteInfo, // domain, origin, url, referrer, siteId
-      };
+  async openChat(sessionId: string, options: RequestOptions = {}): Promise<void> {
+    const payload: any = {
+      sessionId,
+      ...this.websiteInfo, // domain, origin, url, referrer, siteId
+    };
 
-      // Only add tenantId if available - Gateway will resolve from domain if not provided
-      if (this.tenantId) {
-        payload.tenantId = this.tenantId;
-      }
+    // Only add tenantId if available - Gateway will resolve from domain if not provided
+    if (this.tenantId) {
+      payload.tenantId = this.tenantId;
+    }
 
-      const response = await fetch(`${this.baseUrl}/webchat/open`, {
-        method: 'POST',
-        headers: this.getHeaders(),
-        body: JSON.stringify(payload),
-      });
+    await this.request('/webchat/open', {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(payload),
+    }, 'Failed to open chat', 'openChat', options);
+  }
 
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => response.statusText);
-        throw new Error(`Failed to open chat: ${response.status} ${response.statusText} - ${errorText}`);
-      }
+  /**
+   * End the conversation on the visitor's behalf ("End chat")
+   * The backend closes it and broadcasts conversation:closed with closed_by { type: 'user' }.
+   * @throws ChatApiError
+   */
+  async closeConversation(conversationId: string, options: RequestOptions = {}): Promise<void> {
+    const sessionInfo = getSessionInfo();
+    await this.request('/webchat/close', {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({
+        conversation_id: conversationId,
+        sessionId: sessionInfo.sessionId,
+        ...(this.tenantId ? { tenantId: this.tenantId } : {}),
+      }),
+    }, 'Failed to end conversation', 'closeConversation', options);
+  }
 
-      return true;
-    } catch (error) {
-      console.error('[ChatAPI] Error opening chat:', error);
-      return false;
+  /**
+   * Submit the visitor's satisfaction rating for a closed conversation
+   * @param agentId - Agent who handled the conversation last, when the widget knows it (CSAT per agent)
+   * @throws ChatApiError
+   */
+  async submitCsat(conversationId: string, response: CsatResponse, agentId?: string, options: RequestOptions = {}): Promise<void> {
+    const sessionInfo = getSessionInfo();
+    const payload: any = {
+      conversation_id: conversationId,
+      sessionId: sessionInfo.sessionId,
+      rating: response.rating,
+      scale: response.scale,
+    };
+    if (response.comment?.trim()) {
+      payload.comment = response.comment.trim();
     }
+    if (response.answers && Object.keys(response.answers).length > 0) {
+      payload.answers = response.answers;
+    }
+    if (agentId) {
+      payload.agent_id = agentId;
+    }
+    if (this.tenantId) {
+      payload.tenantId = this.tenantId;
+    }
+
+    await this.request('/webchat/csat', {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(payload),
+    }, 'Failed to submit rating', 'csat', options);
   }
 
   /**
-   * Get list of online users for the tenant
-   * Requires admin authentication
-   * Gateway endpoint: GET /api/webchat/online-users → Forwards to Backend GET /v1/webchat/online-users
+   * Email the conversation's transcript to the visitor
+   * The backend builds it from the stored history, so it's complete even when the widget's cache isn't.
+   * @throws ChatApiError
    */
-  async getOnlineUsers(): Promise<OnlineUser[]> {
-    try {
-      const params = new URLSearchParams();
-      // Only add tenantId if available
-      if (this.tenantId) {
-        params.append('tenantId', this.tenantId);
-      }
+  async emailTranscript(conversationId: string, email: string, options: RequestOptions = {}): Promise<void> {
+    const sessionInfo = getSessionInfo();
+    const payload: any = {
+      conversation_id: conversationId,
+      email,
+      sessionId: sessionInfo.sessionId,
+    };
+    if (this.tenantId) {
+      payload.tenantId = this.tenantId;
+    }
 
-      const response = await fetch(`${this.baseUrl}/api/webchat/online-users?${params.toString()}`, {
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
+    await this.request('/webchat/transcript/email', {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(payload),
+    }, 'Failed to email transcript', 'transcriptEmail', options);
+  }
+
+  /**
+   * Whether any agent can take a live chat right now
+   * Reported as available when the Gateway's answer says nothing about it, so live chat is never blocked by an
+   * older backend.
+   * @throws ChatApiError
+   */
+  async getAvailability(options: RequestOptions = {}): Promise<AgentAvailability> {
+    const sessionInfo = getSessionInfo();
+    const params = new URLSearchParams({ sessionId: sessionInfo.sessionId });
+    if (this.tenantId) {
+      params.append('tenantId', this.tenantId);
+    }
+
+    const response = await this.request(`/webchat/availability?${params.toString()}`, {
+      method: 'GET',
+      headers: this.getHeaders(),
+    }, 'Failed to check agent availability', 'availability', options);
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch online users: ${response.statusText}`);
+    return parseAvailability(await response.json()) ?? { available: true };
+  }
+
+  /**
+   * Leave a message while no agent is available
+   * The backend files it as a ticket and the team answers by email.
+   * @throws ChatApiError
+   */
+  async createTicket(ticket: TicketRequest, options: RequestOptions = {}): Promise<TicketResponse> {
+    const sessionInfo = getSessionInfo();
+    const payload: any = {
+      ...this.websiteInfo, // domain, origin, url, siteId
+      sessionId: sessionInfo.sessionId,
+      name: ticket.name,
+      email: ticket.email,
+      message: ticket.message,
+      client_ticket_id: ticket.client_ticket_id,
+    };
+    if (ticket.attachments && ticket.attachments.items.length > 0) {
+      payload.attachments = ticket.attachments;
+    }
+    if (this.tenantId) {
+      payload.tenantId = this.tenantId;
+    }
+    // Links the ticket to an earlier conversation, if the visitor had one
+    const conversationId = getConversationId();
+    if (conversationId) {
+      payload.conversation_id = conversationId;
+    }
+    if (this.userId) {
+      payload.userId = this.userId;
+      if (this.userSignature) {
+        payload.userSignature = this.userSignature;
       }
+    }
 
-      const data = await response.json();
-      return data.users || [];
-    } catch (error) {
-      console.error('Error fetching online users:', error);
-      return [];
+    const response = await this.request('/webchat/ticket', {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(payload),
+    }, 'Failed to leave message', 'ticket', options);
+
+    const data = await response.json();
+    return {
+      ticketId: data.ticket_id,
+      expectedReply: data.expected_reply || undefined,
+      expectedReplyAt: data.expected_reply_at || undefined,
+    };
+  }
+
+  /**
+   * Get list of online users for the tenant
+   * Requires admin authentication
+   * Gateway endpoint: GET /api/webchat/online-users → Forwards to Backend GET /v1/webchat/online-users
+   * @throws ChatApiError
+   */
+  async getOnlineUsers(options: RequestOptions = {}): Promise<OnlineUser[]> {
+    const params = new URLSearchParams();
+    // Only add tenantId if available
+    if (this.tenantId) {
+      params.append('tenantId', this.tenantId);
     }
+
+    const response = await this.request(`/api/webchat/online-users?${params.toString()}`, {
+      method: 'GET',
+      headers: this.getHeaders(),
+    }, 'Failed to fetch online users', 'onlineUsers', options);
+
+    const data = await response.json();
+    return data.users || [];
   }
 }
 
@@ -0,0 +1,80 @@
+/**
+ * Agent availability
+ * Whether anyone can answer a live chat right now. The Gateway reports it with the presence session
+ * (POST /webchat/session), with POST /webchat/init, from GET /webchat/availability and in the
+ * `agents:availability` socket event. While nobody is available the widget offers a leave-a-message form
+ * (ChatAPI.createTicket) instead of live chat, and switches back once an agent comes online.
+ */
+
+export type UnavailableReason = 'no_agents' | 'outside_hours';
+
+export interface AgentAvailability {
+  available: boolean;
+  reason?: UnavailableReason;
+  nextAvailableAt?: string; // When agents are expected back (start of the next business hours)
+  expectedReply?: string; // Tenant's reply promise for messages left offline, e.g. "within 1 business day"
+}
+
+// How often to ask again while offline, in case the socket event doesn't come
+export const AVAILABILITY_RECHECK_MS = 60000;
+
+/**
+ * Availability as the Gateway sends it ({ available | agents_available | online_agents, reason,
+ * next_available_at, expected_reply }), or null when the payload says nothing about it
+ */
+export function parseAvailability(raw: unknown): AgentAvailability | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+
+  let available: boolean | undefined;
+  if (typeof data.available === 'boolean') {
+    available = data.available;
+  } else if (typeof data.agents_available === 'boolean') {
+    available = data.agents_available;
+  } else if (typeof data.online_agents === 'number') {
+    available = data.online_agents > 0;
+  }
+  if (available === undefined) return null;
+
+  const reason = data.reason === 'no_agents' || data.reason === 'outside_hours' ? data.reason : undefined;
+  const nextAvailableAt = typeof data.next_available_at === 'string' && !Number.isNaN(Date.parse(data.next_available_at))
+    ? data.next_available_at
+    : undefined;
+  const expectedReply = typeof data.expected_reply === 'string' && data.expected_reply ? data.expected_reply : undefined;
+  return { available, reason, nextAvailableAt, expectedReply };
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Why live chat is unavailable, for the top of the leave-a-message form
+ */
+export function describeUnavailable(availability: AgentAvailability): string {
+  const back = availability.nextAvailableAt ? ` We're back ${formatTime(availability.nextAvailableAt)}.` : '';
+  return availability.reason === 'outside_hours'
+    ? `We're outside our business hours.${back}`
+    : `No one is available to chat right now.${back}`;
+}
+
+/**
+ * When the visitor can expect an answer to a message left offline: the ticket's own promise, else the
+ * tenant's, else the start of the next business hours
+ */
+export function describeReplyExpectation(
+  availability: AgentAvailability | null,
+  ticket: { expectedReply?: string; expectedReplyAt?: string } = {}
+): string {
+  if (ticket.expectedReplyAt && !Number.isNaN(Date.parse(ticket.expectedReplyAt))) {
+    return `We'll reply by email by ${formatTime(ticket.expectedReplyAt)}.`;
+  }
+  const expected = ticket.expectedReply || availability?.expectedReply;
+  if (expected) {
+    return `We'll reply by email ${expected}.`;
+  }
+  if (availability?.nextAvailableAt) {
+    return `We'll reply by email once we're back, ${formatTime(availability.nextAvailableAt)}.`;
+  }
+  return "We'll reply by email as soon as we can.";
+}
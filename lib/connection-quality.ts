@@ -0,0 +1,146 @@
+/**
+ * Connection quality of the visitor's network
+ * ChatWebSocketNative feeds it ping round-trips, missed pings, reconnects and the transport in use;
+ * it rates the connection good / degraded / poor. The metrics travel with each visitor message so support
+ * can tell a visitor on a bad network apart from a slow backend.
+ */
+
+export type ConnectionQuality = 'good' | 'degraded' | 'poor';
+
+/** websocket / polling: Engine.IO transport of the socket; http-fallback: PollingReceiver while Socket.IO can't connect */
+export type ConnectionTransportName = 'websocket' | 'polling' | 'http-fallback' | 'none';
+
+export interface ConnectionMetrics {
+  quality: ConnectionQuality;
+  latencyMs?: number; // Average round-trip of recent pings
+  jitterMs?: number; // Average difference between consecutive round-trips
+  missedPings: number; // Consecutive pings without an answer
+  reconnects: number; // Reconnects within RECONNECT_WINDOW
+  transport: ConnectionTransportName;
+  measuredAt: number;
+}
+
+export type ConnectionQualityListener = (metrics: ConnectionMetrics) => void;
+
+/** Wire format sent with visitor messages as `connection_quality` */
+export interface ConnectionQualityPayload {
+  quality: ConnectionQuality;
+  latency_ms?: number;
+  jitter_ms?: number;
+  reconnects: number;
+  transport: ConnectionTransportName;
+}
+
+const SAMPLE_SIZE = 5; // Round-trips averaged
+const RECONNECT_WINDOW = 5 * 60 * 1000;
+const DEGRADED_LATENCY = 300;
+const POOR_LATENCY = 1000;
+const DEGRADED_RECONNECTS = 2;
+const POOR_RECONNECTS = 4;
+const POOR_MISSED_PINGS = 2;
+
+export class ConnectionQualityMonitor {
+  private samples: number[] = [];
+  private missedPings = 0;
+  private reconnectTimes: number[] = [];
+  private transport: ConnectionTransportName = 'none';
+  private lastReported?: Pick<ConnectionMetrics, 'quality' | 'transport'>;
+  private listeners = new Set<ConnectionQualityListener>();
+
+  recordLatency(ms: number): void {
+    this.samples.push(ms);
+    if (this.samples.length > SAMPLE_SIZE) {
+      this.samples.shift();
+    }
+    this.missedPings = 0;
+    this.update();
+  }
+
+  recordMissedPing(): void {
+    this.missedPings++;
+    this.update();
+  }
+
+  recordReconnect(): void {
+    this.reconnectTimes.push(Date.now());
+    this.update();
+  }
+
+  setTransport(transport: ConnectionTransportName): void {
+    if (transport === this.transport) return;
+    this.transport = transport;
+    // Round-trips over the previous transport say nothing about this one
+    this.samples = [];
+    this.missedPings = 0;
+    this.update();
+  }
+
+  getMetrics(): ConnectionMetrics {
+    const now = Date.now();
+    this.reconnectTimes = this.reconnectTimes.filter((at) => now - at < RECONNECT_WINDOW);
+    const reconnects = this.reconnectTimes.length;
+
+    const latencyMs = this.samples.length > 0
+      ? Math.round(this.samples.reduce((sum, sample) => sum + sample, 0) / this.samples.length)
+      : undefined;
+    const jitterMs = this.samples.length > 1
+      ? Math.round(
+          this.samples.slice(1).reduce((sum, sample, i) => sum + Math.abs(sample - this.samples[i]), 0) / (this.samples.length - 1)
+        )
+      : undefined;
+
+    let quality: ConnectionQuality = 'good';
+    if (
+      (latencyMs !== undefined && latencyMs >= POOR_LATENCY)
+      || this.missedPings >= POOR_MISSED_PINGS
+      || reconnects >= POOR_RECONNECTS
+    ) {
+      quality = 'poor';
+    } else if (
+      (latencyMs !== undefined && latencyMs >= DEGRADED_LATENCY)
+      || this.missedPings > 0
+      || reconnects >= DEGRADED_RECONNECTS
+      || this.transport === 'polling'
+      || this.transport === 'http-fallback'
+    ) {
+      quality = 'degraded';
+    }
+
+    return { quality, latencyMs, jitterMs, missedPings: this.missedPings, reconnects, transport: this.transport, measuredAt: now };
+  }
+
+  /**
+   * Listen for changes of the quality rating or transport. Returns an unsubscribe function.
+   */
+  subscribe(listener: ConnectionQualityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(): void {
+    const metrics = this.getMetrics();
+    if (metrics.quality === this.lastReported?.quality && metrics.transport === this.lastReported?.transport) {
+      return;
+    }
+    this.lastReported = { quality: metrics.quality, transport: metrics.transport };
+    this.listeners.forEach((listener) => {
+      try {
+        listener(metrics);
+      } catch (error) {
+        console.error('[Socket.IO] Connection quality listener failed:', error);
+      }
+    });
+  }
+}
+
+export function toConnectionQualityPayload(metrics: ConnectionMetrics): ConnectionQualityPayload {
+  return {
+    quality: metrics.quality,
+    latency_ms: metrics.latencyMs,
+    jitter_ms: metrics.jitterMs,
+    reconnects: metrics.reconnects,
+    transport: metrics.transport,
+  };
+}
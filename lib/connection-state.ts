@@ -0,0 +1,159 @@
+/**
+ * Socket connection state machine
+ * Single source of truth for where ChatWebSocketNative is in its lifecycle:
+ * idle → fetching-session → connecting → in-session-room → joining-conversation → in-conversation,
+ * plus reconnecting / offline / auth-failed / fatal, and polling while Socket.IO can't connect and
+ * messages are received over HTTP instead.
+ * Transitions are checked against an allow-list; callers test `can()` before acting on conditional moves.
+ */
+
+export type ConnectionStatus =
+  | 'idle'
+  | 'fetching-session'
+  | 'connecting'
+  | 'in-session-room'
+  | 'joining-conversation'
+  | 'in-conversation'
+  | 'reconnecting'
+  | 'polling'
+  | 'offline'
+  | 'auth-failed'
+  | 'fatal';
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  since: number; // Timestamp of the transition into this status
+  room?: string; // session:{id} or conversation:{id} once a join was emitted
+  conversationId?: string;
+  attempt?: number; // Reconnect attempt number while reconnecting
+  error?: string; // Reason for offline / auth-failed / fatal
+}
+
+export interface ConnectionTransition {
+  from: ConnectionStatus;
+  to: ConnectionStatus;
+  at: number;
+  reason?: string;
+}
+
+export type ConnectionStateListener = (state: ConnectionState, transition: ConnectionTransition) => void;
+
+const HISTORY_LIMIT = 50;
+
+/** Statuses with a live socket in a room */
+const CONNECTED_STATUSES: ConnectionStatus[] = ['in-session-room', 'joining-conversation', 'in-conversation'];
+
+const TRANSITIONS: Record<ConnectionStatus, ConnectionStatus[]> = {
+  idle: ['fetching-session', 'connecting', 'fatal'],
+  'fetching-session': ['connecting', 'auth-failed', 'offline', 'fatal', 'idle'],
+  connecting: ['connecting', 'in-session-room', 'joining-conversation', 'reconnecting', 'polling', 'fetching-session', 'offline', 'fatal', 'idle'],
+  'in-session-room': ['joining-conversation', 'reconnecting', 'fetching-session', 'connecting', 'offline', 'fatal', 'idle'],
+  'joining-conversation': ['joining-conversation', 'in-conversation', 'reconnecting', 'fetching-session', 'connecting', 'offline', 'fatal', 'idle'],
+  'in-conversation': ['joining-conversation', 'reconnecting', 'fetching-session', 'connecting', 'offline', 'fatal', 'idle'],
+  reconnecting: ['reconnecting', 'in-session-room', 'joining-conversation', 'polling', 'fetching-session', 'connecting', 'offline', 'fatal', 'idle'],
+  polling: ['in-session-room', 'joining-conversation', 'connecting', 'reconnecting', 'fetching-session', 'offline', 'fatal', 'idle'],
+  offline: ['connecting', 'reconnecting', 'polling', 'fetching-session', 'fatal', 'idle'],
+  'auth-failed': ['connecting', 'fetching-session', 'fatal', 'idle'],
+  fatal: ['connecting', 'idle'],
+};
+
+/**
+ * Thrown when code asks for a transition the state machine does not allow
+ */
+export class InvalidTransitionError extends Error {
+  readonly from: ConnectionStatus;
+  readonly to: ConnectionStatus;
+
+  constructor(from: ConnectionStatus, to: ConnectionStatus) {
+    super(`Invalid connection transition: ${from} → ${to}`);
+    this.name = 'InvalidTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export function isConnectedStatus(status: ConnectionStatus): boolean {
+  return CONNECTED_STATUSES.includes(status);
+}
+
+export class ConnectionStateMachine {
+  private state: ConnectionState = { status: 'idle', since: Date.now() };
+  private history: ConnectionTransition[] = [];
+  private listeners = new Set<ConnectionStateListener>();
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Check whether the current status is one of the given statuses
+   */
+  is(...statuses: ConnectionStatus[]): boolean {
+    return statuses.includes(this.state.status);
+  }
+
+  isConnected(): boolean {
+    return isConnectedStatus(this.state.status);
+  }
+
+  can(to: ConnectionStatus): boolean {
+    return TRANSITIONS[this.state.status].includes(to);
+  }
+
+  /**
+   * Move to a new status
+   * Room and conversation carry over unless overridden; attempt and error only live as long as the status that set them.
+   * @throws InvalidTransitionError when the move is not allowed from the current status
+   */
+  transition(
+    to: ConnectionStatus,
+    details: Partial<Omit<ConnectionState, 'status' | 'since'>> = {},
+    reason?: string
+  ): ConnectionState {
+    const from = this.state.status;
+    if (!this.can(to)) {
+      throw new InvalidTransitionError(from, to);
+    }
+
+    const at = Date.now();
+    this.state = {
+      status: to,
+      since: at,
+      room: this.state.room,
+      conversationId: this.state.conversationId,
+      ...details,
+    };
+
+    const transition: ConnectionTransition = { from, to, at, reason };
+    this.history.push(transition);
+    if (this.history.length > HISTORY_LIMIT) {
+      this.history.shift();
+    }
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(this.state, transition);
+      } catch (error) {
+        console.error('[Socket.IO] Connection state listener failed:', error);
+      }
+    });
+    return this.state;
+  }
+
+  /**
+   * Listen for state changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: ConnectionStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Most recent transitions, oldest first (bounded)
+   */
+  getHistory(): ConnectionTransition[] {
+    return [...this.history];
+  }
+}
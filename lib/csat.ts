@@ -0,0 +1,119 @@
+/**
+ * Post-conversation satisfaction survey (CSAT)
+ * Configured by the embedding site (ChatWidgetConfig.csat, passed to the iframe as the `csat` URL param),
+ * shown once a conversation is closed - by an agent, by inactivity or by the visitor ending the chat - and
+ * sent with ChatAPI.submitCsat(). Each conversation is surveyed at most once: submitting or skipping is
+ * remembered in localStorage.
+ */
+
+export type CsatScale = 'stars' | 'thumbs';
+
+export interface CsatQuestion {
+  id: string; // Key of the answer in `answers`
+  label: string;
+  type: 'text' | 'choice';
+  options?: string[]; // For choice questions
+}
+
+export interface CsatConfig {
+  enabled: boolean;
+  scale: CsatScale;
+  comment: boolean; // Offer a free-text comment
+  questions: CsatQuestion[]; // Optional follow-up questions, shown once a rating is picked
+  title: string;
+}
+
+/** What the visitor answered (wire format of POST /webchat/csat) */
+export interface CsatResponse {
+  rating: number; // 1-5 for stars; 1 (thumbs up) or 0 (thumbs down) for thumbs
+  scale: CsatScale;
+  comment?: string;
+  answers?: Record<string, string>; // Follow-up question id -> answer
+}
+
+const DEFAULT_CONFIG: CsatConfig = {
+  enabled: true,
+  scale: 'stars',
+  comment: true,
+  questions: [],
+  title: 'How was your conversation?',
+};
+
+const CSAT_HANDLED_KEY = 'chat_csat_conversations';
+const MAX_REMEMBERED = 50; // Conversations remembered as surveyed (oldest dropped first)
+
+function normalizeQuestions(raw: unknown): CsatQuestion[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((q) => q && typeof q.id === 'string' && typeof q.label === 'string')
+    .map((q) => {
+      const options = Array.isArray(q.options) ? q.options.filter((o: unknown) => typeof o === 'string') : [];
+      return options.length > 0
+        ? { id: q.id, label: q.label, type: 'choice' as const, options }
+        : { id: q.id, label: q.label, type: 'text' as const };
+    });
+}
+
+/**
+ * Survey settings: `csat` URL param (JSON, set by the widget loader from ChatWidgetConfig.csat), then
+ * window.ChatWidgetConfig.csat, else the defaults. `csat: false` turns the survey off.
+ */
+export function getCsatConfig(): CsatConfig {
+  if (typeof window === 'undefined') {
+    return DEFAULT_CONFIG;
+  }
+
+  let raw: unknown = (window as any).ChatWidgetConfig?.csat;
+  const param = new URLSearchParams(window.location.search).get('csat');
+  if (param) {
+    try {
+      raw = JSON.parse(param);
+    } catch {
+      console.warn('[Widget] Ignoring invalid csat config:', param);
+    }
+  }
+
+  if (raw === false) {
+    return { ...DEFAULT_CONFIG, enabled: false };
+  }
+  if (!raw || typeof raw !== 'object') {
+    return DEFAULT_CONFIG;
+  }
+
+  const config = raw as Record<string, unknown>;
+  return {
+    enabled: config.enabled !== false,
+    scale: config.scale === 'thumbs' ? 'thumbs' : 'stars',
+    comment: config.comment !== false,
+    questions: normalizeQuestions(config.questions),
+    title: typeof config.title === 'string' && config.title ? config.title : DEFAULT_CONFIG.title,
+  };
+}
+
+function loadHandled(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CSAT_HANDLED_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether the visitor already answered or skipped the survey for this conversation
+ */
+export function isCsatHandled(conversationId: string): boolean {
+  if (typeof window === 'undefined') return false;
+  return loadHandled().includes(conversationId);
+}
+
+export function markCsatHandled(conversationId: string): void {
+  if (typeof window === 'undefined') return;
+  try {
+    const handled = loadHandled().filter((id) => id !== conversationId);
+    handled.push(conversationId);
+    localStorage.setItem(CSAT_HANDLED_KEY, JSON.stringify(handled.slice(-MAX_REMEMBERED)));
+  } catch (error) {
+    console.warn('[Widget] Failed to remember CSAT survey:', error);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Gateway configuration shared by every client
+ * Base URL, API key headers and the parent website's domain, resolved the same way for HTTP, Socket.IO and uploads.
+ */
+
+import type { WebsiteInfo } from './types';
+
+export const GATEWAY_URL = process.env.NEXT_PUBLIC_GATEWAY_URL || process.env.NEXT_PUBLIC_API_URL || 'https://api-gateway-dfcflow.fly.dev';
+
+/**
+ * Headers for Gateway HTTP calls: API key plus the parent website's domain
+ * Gateway validates the API key, looks up tenant_id from X-Website-Origin (or Origin/Referer as a fallback)
+ * and sets X-Tenant-ID itself - the widget never sends X-Tenant-ID.
+ */
+export function getGatewayHeaders(websiteInfo?: WebsiteInfo): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+
+  const apiKey = process.env.NEXT_PUBLIC_GATEWAY_API_KEY || process.env.NEXT_PUBLIC_API_KEY;
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  // Widget runs in an iframe (webchat.amoiq.com), so the browser's Origin is the iframe's -
+  // send the actual parent website so Gateway can look it up
+  if (websiteInfo?.origin) {
+    headers['X-Website-Origin'] = websiteInfo.origin;
+  }
+  if (websiteInfo?.domain) {
+    headers['X-Website-Domain'] = websiteInfo.domain;
+  }
+
+  return headers;
+}
+
+/**
+ * Pick the parent website info: the one provided if it has a domain/origin, else the widget loader's URL params,
+ * else the current page (only when not on the webchat domain itself, which would be the wrong domain)
+ * @param logPrefix - Prefix for the warning when nothing usable is found, e.g. "[ChatAPI]"
+ */
+export function resolveWebsiteInfo(provided: WebsiteInfo | undefined, logPrefix: string): WebsiteInfo {
+  if (provided && (provided.domain || provided.origin)) {
+    return provided;
+  }
+
+  // Widget loader passes these to the iframe
+  const params = typeof window !== 'undefined' ? new URLSearchParams(window.location.search) : null;
+  const domain = params?.get('domain');
+  const origin = params?.get('origin');
+  if (domain || origin) {
+    return {
+      domain: domain || undefined,
+      origin: origin || undefined,
+      url: params?.get('url') || undefined,
+      referrer: params?.get('referrer') || undefined,
+      siteId: params?.get('siteId') || undefined,
+    };
+  }
+
+  const detected = detectWebsiteInfo(logPrefix);
+  if (detected.domain && !detected.domain.includes('webchat')) {
+    return detected;
+  }
+
+  // On webchat domain without URL params - this shouldn't happen in production
+  console.warn(`${logPrefix} ⚠️ No domain info available. Widget loader should pass domain via URL params.`);
+  return provided || {};
+}
+
+/**
+ * Website info of the current page - only meaningful when the client runs directly on the customer's site
+ */
+function detectWebsiteInfo(logPrefix: string): WebsiteInfo {
+  if (typeof window === 'undefined') {
+    return {};
+  }
+  const hostname = window.location.hostname;
+  // Don't use webchat.amoiq.com as domain - this means we're in iframe without proper info
+  if (hostname === 'webchat.amoiq.com' || hostname.includes('webchat')) {
+    console.warn(`${logPrefix} ⚠️ Widget is on webchat domain but no websiteInfo provided. This should not happen in production.`);
+    return {};
+  }
+  return {
+    domain: hostname,
+    origin: window.location.origin,
+    url: window.location.href,
+    referrer: document.referrer || '',
+  };
+}
@@ -4,8 +4,10 @@
  */
 
 import { useEffect, useState, useRef, useCallback } from 'react';
-import { ChatWebSocketNative, OnlineUser } from '@/lib/ws-native';
+import { ChatWebSocketNative } from '@/lib/ws-native';
+import type { OnlineUser } from '@/lib/types';
 import { ChatAPI } from '@/lib/api';
+import { rateLimiter } from '@/lib/rate-limiter';
 
 export interface UseOnlineUsersOptions {
   /**
@@ -91,6 +93,8 @@ export function useOnlineUsers(
    */
   const fetchOnlineUsers = useCallback(async () => {
     if (!apiRef.current) return;
+    // Skip this poll while rate limited instead of queueing behind the visitor's own requests
+    if (rateLimiter.isThrottled('http')) return;
 
     try {
       setIsLoading(true);
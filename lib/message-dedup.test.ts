@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { LruSet, MessageDeduplicator } from './message-dedup';
+
+describe('LruSet', () => {
+  it('evicts the least recently added key once over capacity', () => {
+    const set = new LruSet<string>(2);
+    set.add('a');
+    set.add('b');
+    set.add('c');
+
+    expect(set.size).toBe(2);
+    expect(set.has('a')).toBe(false);
+    expect(set.has('b')).toBe(true);
+    expect(set.has('c')).toBe(true);
+  });
+
+  it('treats a looked-up key as recently used', () => {
+    const set = new LruSet<string>(2);
+    set.add('a');
+    set.add('b');
+    expect(set.has('a')).toBe(true); // 'b' is now the oldest
+    set.add('c');
+
+    expect(set.has('a')).toBe(true);
+    expect(set.has('b')).toBe(false);
+  });
+
+  it('does not grow when a key is added again', () => {
+    const set = new LruSet<string>(2);
+    set.add('a');
+    set.add('a');
+    set.add('b');
+
+    expect(set.size).toBe(2);
+    expect(set.has('a')).toBe(true);
+  });
+
+  it('keeps at least one key', () => {
+    const set = new LruSet<string>(0);
+    set.add('a');
+
+    expect(set.size).toBe(1);
+    expect(set.has('a')).toBe(true);
+  });
+});
+
+describe('MessageDeduplicator', () => {
+  it('reports the first delivery of a server id as new and later copies as duplicates', () => {
+    const dedup = new MessageDeduplicator();
+
+    expect(dedup.markIfNew({ id: 'msg-1' })).toBe(true);
+    expect(dedup.markIfNew({ id: 'msg-1' })).toBe(false);
+    expect(dedup.markIfNew({ id: 'msg-2' })).toBe(true);
+  });
+
+  it('matches a server echo to the temp_id of the visitor message it confirms', () => {
+    const dedup = new MessageDeduplicator();
+
+    // The HTTP/ack path reports the real id together with the temp_id first...
+    expect(dedup.markIfNew({ id: 'msg-1', temp_id: 'temp-1' })).toBe(true);
+    // ...then a broadcast carries only one of them
+    expect(dedup.markIfNew({ id: 'msg-1' })).toBe(false);
+    expect(dedup.markIfNew({ id: 'event-9', temp_id: 'temp-1' })).toBe(false);
+  });
+
+  it('remembers the server id of a copy first seen by its temp_id', () => {
+    const dedup = new MessageDeduplicator();
+
+    expect(dedup.markIfNew({ id: 'msg-1', temp_id: 'temp-1' })).toBe(true);
+    expect(dedup.markIfNew({ id: 'msg-2', temp_id: 'temp-1' })).toBe(false);
+    // msg-2 was recorded with the duplicate, so its own later copy is caught too
+    expect(dedup.markIfNew({ id: 'msg-2' })).toBe(false);
+  });
+
+  it('pairs broadcasts of one message that identify it by different ids', () => {
+    const dedup = new MessageDeduplicator();
+
+    // message:new: message id plus the event id
+    expect(dedup.markIfNew({ id: 'msg-1', aliases: ['event-1'] })).toBe(true);
+    // meta_message_created under the event id
+    expect(dedup.markIfNew({ id: 'event-1' })).toBe(false);
+
+    // Neither id shared, but the same server-provided stream id
+    expect(dedup.markIfNew({ id: 'msg-2', aliases: ['1705312200000-0'] })).toBe(true);
+    expect(dedup.markIfNew({ id: 'event-2', aliases: ['1705312200000-0'] })).toBe(false);
+  });
+
+  it('keeps two distinct messages apart even when they would look alike', () => {
+    const dedup = new MessageDeduplicator();
+
+    // An agent sending "ok" twice: each message and each of its broadcasts has its own ids
+    expect(dedup.markIfNew({ id: 'msg-1', aliases: ['event-1'] })).toBe(true);
+    expect(dedup.markIfNew({ id: 'msg-2', aliases: ['event-2'] })).toBe(true);
+    expect(dedup.markIfNew({ id: 'msg-2' })).toBe(false);
+  });
+
+  it('forgets ids beyond its capacity', () => {
+    const dedup = new MessageDeduplicator(2);
+    dedup.markIfNew({ id: 'msg-1' });
+    dedup.markIfNew({ id: 'msg-2' });
+    dedup.markIfNew({ id: 'msg-3' });
+
+    expect(dedup.markIfNew({ id: 'msg-1' })).toBe(true);
+  });
+
+  it('starts over after clear()', () => {
+    const dedup = new MessageDeduplicator();
+    dedup.markIfNew({ id: 'msg-1', temp_id: 'temp-1' });
+    dedup.clear();
+
+    expect(dedup.markIfNew({ id: 'msg-1' })).toBe(true);
+    expect(dedup.markIfNew({ id: 'msg-9', temp_id: 'temp-1' })).toBe(true);
+  });
+});
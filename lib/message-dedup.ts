@@ -0,0 +1,91 @@
+/**
+ * Identity-based message deduplication
+ * The backend broadcasts each message to both session:{id} and conversation:{id} rooms, and the widget
+ * keeps session-room and conversation-room listeners attached during a room switch, so the same message
+ * can reach the client several times. Messages are identified by server message id, with the client
+ * temp_id (client_temp_id) correlating echoes of the visitor's own messages. message:new and
+ * meta_message_created may identify the same message differently (message id vs event / stream id); every id a
+ * broadcast carries is recorded, so the two copies pair up as long as they share one of them.
+ * Identical text is never treated as a duplicate here - "ok" sent twice is two messages.
+ */
+
+import type { ChatMessagePayload } from './protocol';
+
+const DEFAULT_CAPACITY = 500;
+
+type DedupIdentity = Pick<ChatMessagePayload, 'id' | 'temp_id' | 'aliases'>;
+
+/**
+ * Minimal LRU set backed by Map insertion order
+ */
+export class LruSet<K> {
+  private entries = new Map<K, true>();
+  private capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(1, capacity);
+  }
+
+  /**
+   * Check membership and mark the key as recently used
+   */
+  has(key: K): boolean {
+    if (!this.entries.has(key)) return false;
+    this.entries.delete(key);
+    this.entries.set(key, true);
+    return true;
+  }
+
+  add(key: K): void {
+    this.entries.delete(key);
+    this.entries.set(key, true);
+    if (this.entries.size > this.capacity) {
+      // Evict least recently used (first in insertion order)
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export class MessageDeduplicator {
+  private seen: LruSet<string>;
+
+  constructor(capacity: number = DEFAULT_CAPACITY) {
+    this.seen = new LruSet(capacity);
+  }
+
+  /**
+   * Identity keys for a message: server id and its aliases, plus temp_id when the server echoed one
+   */
+  private keysFor(message: DedupIdentity): string[] {
+    const keys = [message.id, ...(message.aliases ?? [])].map((id) => `id:${id}`);
+    if (message.temp_id) {
+      keys.push(`temp:${message.temp_id}`);
+    }
+    return keys;
+  }
+
+  /**
+   * Record a message and report whether it was seen before
+   * Returns true for the first delivery, false for any later copy.
+   */
+  markIfNew(message: DedupIdentity): boolean {
+    const keys = this.keysFor(message);
+    const isDuplicate = keys.some((key) => this.seen.has(key));
+    // Record all keys, so a later copy matching on either id or temp_id is caught
+    keys.forEach((key) => this.seen.add(key));
+    return !isDuplicate;
+  }
+
+  clear(): void {
+    this.seen.clear();
+  }
+}
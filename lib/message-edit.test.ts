@@ -0,0 +1,50 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_EDIT_WINDOW_MINUTES, getMessageEditWindow, isWithinEditWindow } from './message-edit';
+
+const MINUTE = 60 * 1000;
+
+describe('getMessageEditWindow', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+    delete (window as any).ChatWidgetConfig;
+  });
+
+  it('defaults to 15 minutes', () => {
+    expect(getMessageEditWindow()).toBe(DEFAULT_EDIT_WINDOW_MINUTES * MINUTE);
+  });
+
+  it('reads the editWindow param set by the widget loader', () => {
+    window.history.replaceState(null, '', '/?editWindow=5');
+    expect(getMessageEditWindow()).toBe(5 * MINUTE);
+  });
+
+  it('reads ChatWidgetConfig.messageEditWindow, where 0 turns editing off', () => {
+    (window as any).ChatWidgetConfig = { messageEditWindow: 0 };
+    expect(getMessageEditWindow()).toBe(0);
+  });
+
+  it('falls back to the default for an invalid value', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    window.history.replaceState(null, '', '/?editWindow=soon');
+
+    expect(getMessageEditWindow()).toBe(DEFAULT_EDIT_WINDOW_MINUTES * MINUTE);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
+
+describe('isWithinEditWindow', () => {
+  const sentAt = '2024-01-15T10:30:00.000Z';
+  const sentTime = new Date(sentAt).getTime();
+
+  it('allows changes until the window has passed', () => {
+    expect(isWithinEditWindow(sentAt, sentTime + 15 * MINUTE, 15 * MINUTE)).toBe(true);
+    expect(isWithinEditWindow(sentAt, sentTime + 15 * MINUTE + 1, 15 * MINUTE)).toBe(false);
+  });
+
+  it('allows nothing when editing is off or the timestamp is unreadable', () => {
+    expect(isWithinEditWindow(sentAt, sentTime, 0)).toBe(false);
+    expect(isWithinEditWindow('not a date', sentTime, 15 * MINUTE)).toBe(false);
+  });
+});
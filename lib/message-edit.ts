@@ -0,0 +1,37 @@
+/**
+ * Edit window for the visitor's own messages
+ * Visitors can edit or delete a message they sent for a while afterwards: `messageEditWindow` minutes
+ * (ChatWidgetConfig, passed by the widget loader as the `editWindow` URL param), 15 by default, 0 turns it off.
+ * The backend enforces its own window and answers EDIT_WINDOW_EXPIRED.
+ */
+
+export const DEFAULT_EDIT_WINDOW_MINUTES = 15;
+
+/**
+ * Edit window in ms (0 when editing is off)
+ */
+export function getMessageEditWindow(): number {
+  if (typeof window === 'undefined') {
+    return DEFAULT_EDIT_WINDOW_MINUTES * 60 * 1000;
+  }
+  const requested = new URLSearchParams(window.location.search).get('editWindow')
+    ?? (window as any).ChatWidgetConfig?.messageEditWindow;
+  if (requested === undefined || requested === null || requested === '') {
+    return DEFAULT_EDIT_WINDOW_MINUTES * 60 * 1000;
+  }
+  const minutes = Number(requested);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    console.warn(`[Widget] Ignoring invalid messageEditWindow "${requested}", using ${DEFAULT_EDIT_WINDOW_MINUTES} minutes`);
+    return DEFAULT_EDIT_WINDOW_MINUTES * 60 * 1000;
+  }
+  return minutes * 60 * 1000;
+}
+
+/**
+ * Whether a message sent at `sentAt` can still be edited or deleted
+ */
+export function isWithinEditWindow(sentAt: string, now: number = Date.now(), windowMs: number = getMessageEditWindow()): boolean {
+  const sentTime = new Date(sentAt).getTime();
+  if (Number.isNaN(sentTime) || windowMs <= 0) return false;
+  return now - sentTime <= windowMs;
+}
@@ -0,0 +1,268 @@
+/**
+ * Persistent outbox for unsent messages
+ * Keeps messages (and their attachment payloads) that could not be delivered, keyed by temp_id,
+ * so they survive iframe reloads and can be replayed in order once the network is back. Entries that can't be
+ * delivered as they are stay set aside (failed) until the visitor retries them.
+ * Storage: IndexedDB, falling back to localStorage when IndexedDB is unavailable (private mode, old browsers)
+ */
+
+import type { AttachmentItem } from './api';
+
+const DB_NAME = 'amoiq_chat';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+const LOCAL_STORAGE_KEY = 'chat_outbox';
+const MAX_ENTRY_AGE = 24 * 60 * 60 * 1000; // 24 hours - same lifetime as session/conversation
+const MAX_ATTEMPTS = 5; // Set an entry aside after this many failed replays
+
+export interface OutboxEntry {
+  temp_id: string;
+  text: string;
+  attachments?: { items: AttachmentItem[] };
+  createdAt: number;
+  attempts: number;
+  failed?: boolean; // Set aside - not replayed until retry()
+}
+
+/**
+ * What became of one delivery attempt:
+ * - 'sent': the server accepted it (or it was deliberately not sent) - remove it
+ * - 'retry': try again on the next replay - later entries wait behind it
+ * - 'failed': can't succeed as it is - set it aside so later entries go ahead
+ */
+export type OutboxResult = 'sent' | 'retry' | 'failed';
+
+export type OutboxSender = (entry: OutboxEntry) => Promise<OutboxResult>;
+
+/**
+ * Told which entries are held back behind one that has to be retried (empty once nothing waits)
+ */
+export type OutboxWaitingHandler = (waiting: OutboxEntry[]) => void;
+
+interface OutboxStore {
+  getAll(): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(tempId: string): Promise<void>;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class IndexedDbStore implements OutboxStore {
+  private db: IDBDatabase;
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+
+  static async open(): Promise<IndexedDbStore> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'temp_id' });
+      }
+    };
+    return new IndexedDbStore(await requestToPromise(request));
+  }
+
+  private store(mode: IDBTransactionMode): IDBObjectStore {
+    return this.db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async getAll(): Promise<OutboxEntry[]> {
+    return requestToPromise(this.store('readonly').getAll() as IDBRequest<OutboxEntry[]>);
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    await requestToPromise(this.store('readwrite').put(entry));
+  }
+
+  async delete(tempId: string): Promise<void> {
+    await requestToPromise(this.store('readwrite').delete(tempId));
+  }
+}
+
+class LocalStorageStore implements OutboxStore {
+  private read(): OutboxEntry[] {
+    try {
+      const stored = localStorage.getItem(LOCAL_STORAGE_KEY);
+      const entries = stored ? JSON.parse(stored) : [];
+      return Array.isArray(entries) ? entries : [];
+    } catch (error) {
+      console.warn('[Outbox] Failed to read outbox from localStorage:', error);
+      return [];
+    }
+  }
+
+  private write(entries: OutboxEntry[]): void {
+    try {
+      if (entries.length === 0) {
+        localStorage.removeItem(LOCAL_STORAGE_KEY);
+      } else {
+        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(entries));
+      }
+    } catch (error) {
+      console.warn('[Outbox] Failed to write outbox to localStorage:', error);
+    }
+  }
+
+  async getAll(): Promise<OutboxEntry[]> {
+    return this.read();
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.write([...this.read().filter((e) => e.temp_id !== entry.temp_id), entry]);
+  }
+
+  async delete(tempId: string): Promise<void> {
+    this.write(this.read().filter((e) => e.temp_id !== tempId));
+  }
+}
+
+export class MessageOutbox {
+  private storePromise: Promise<OutboxStore> | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private flushRequested = false;
+
+  /**
+   * Resolve the storage backend once (IndexedDB first, localStorage fallback)
+   */
+  private getStore(): Promise<OutboxStore> {
+    if (!this.storePromise) {
+      this.storePromise = (async () => {
+        if (typeof indexedDB !== 'undefined') {
+          try {
+            return await IndexedDbStore.open();
+          } catch (error) {
+            console.warn('[Outbox] IndexedDB unavailable, falling back to localStorage:', error);
+          }
+        }
+        return new LocalStorageStore();
+      })();
+    }
+    return this.storePromise;
+  }
+
+  /**
+   * Add (or overwrite) an unsent message
+   */
+  async enqueue(entry: Omit<OutboxEntry, 'createdAt' | 'attempts'> & Partial<Pick<OutboxEntry, 'createdAt' | 'attempts'>>): Promise<void> {
+    if (typeof window === 'undefined') return;
+    try {
+      const store = await this.getStore();
+      await store.put({ createdAt: Date.now(), attempts: 0, ...entry });
+    } catch (error) {
+      console.warn('[Outbox] Failed to enqueue message:', error);
+    }
+  }
+
+  /**
+   * Remove a message once it has been delivered
+   */
+  async remove(tempId: string): Promise<void> {
+    if (typeof window === 'undefined') return;
+    try {
+      const store = await this.getStore();
+      await store.delete(tempId);
+    } catch (error) {
+      console.warn('[Outbox] Failed to remove message:', error);
+    }
+  }
+
+  /**
+   * Put a set-aside entry back in line, as if it was new
+   * Returns false when the outbox doesn't have it (e.g. expired).
+   */
+  async retry(tempId: string): Promise<boolean> {
+    if (typeof window === 'undefined') return false;
+    const entry = (await this.list()).find((e) => e.temp_id === tempId);
+    if (!entry) return false;
+    await this.enqueue({ ...entry, attempts: 0, failed: false });
+    return true;
+  }
+
+  /**
+   * Get queued messages, oldest first (expired entries are dropped)
+   */
+  async list(): Promise<OutboxEntry[]> {
+    if (typeof window === 'undefined') return [];
+    try {
+      const store = await this.getStore();
+      const entries = await store.getAll();
+      const now = Date.now();
+      const valid: OutboxEntry[] = [];
+      for (const entry of entries) {
+        if (now - entry.createdAt >= MAX_ENTRY_AGE) {
+          await store.delete(entry.temp_id);
+        } else {
+          valid.push(entry);
+        }
+      }
+      return valid.sort((a, b) => a.createdAt - b.createdAt);
+    } catch (error) {
+      console.warn('[Outbox] Failed to list messages:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Replay queued messages in order through `send`
+   * Stops at the first entry to retry so later messages never overtake earlier ones; entries that failed for
+   * good are set aside and skipped. Concurrent calls are coalesced: a flush requested while one is running
+   * triggers one more pass.
+   */
+  flush(send: OutboxSender, onWaiting?: OutboxWaitingHandler): Promise<void> {
+    if (this.flushPromise) {
+      this.flushRequested = true;
+      return this.flushPromise;
+    }
+
+    this.flushPromise = (async () => {
+      try {
+        do {
+          this.flushRequested = false;
+          await this.replay(send, onWaiting);
+        } while (this.flushRequested);
+      } finally {
+        this.flushPromise = null;
+      }
+    })();
+    return this.flushPromise;
+  }
+
+  private async replay(send: OutboxSender, onWaiting?: OutboxWaitingHandler): Promise<void> {
+    const entries = (await this.list()).filter((entry) => !entry.failed);
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      let result: OutboxResult = 'retry';
+      try {
+        result = await send(entry);
+      } catch (error) {
+        console.warn('[Outbox] Replay failed for', entry.temp_id, error);
+      }
+
+      if (result === 'sent') {
+        await this.remove(entry.temp_id);
+        continue;
+      }
+
+      const attempts = entry.attempts + 1;
+      if (result === 'failed' || attempts >= MAX_ATTEMPTS) {
+        console.warn('[Outbox] Setting message aside until the visitor retries it:', entry.temp_id);
+        await this.enqueue({ ...entry, attempts, failed: true });
+        continue;
+      }
+      await this.enqueue({ ...entry, attempts });
+      onWaiting?.(entries.slice(i + 1));
+      return;
+    }
+    onWaiting?.([]);
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Send/receive plugins
+ * Hooks that see every visitor message on its way out (HTTP or socket) and every message and conversation
+ * lifecycle event on its way in, so integrations can enrich, redact, cancel or observe them without
+ * forking ChatAPI / ChatWebSocketNative.
+ * Plugins run in registration order. A plugin that throws is logged and skipped - the message carries on
+ * as the previous plugin left it.
+ *
+ * Plugins live in the window that runs the chat client. The hosted widget runs in an iframe on another
+ * origin, so plugins defined on the host page can't reach it - they apply to custom UIs built on these
+ * libraries and to self-hosted builds of the embed page.
+ */
+
+import type {
+  ChatMessagePayload,
+  ConversationCreatedEvent,
+  ConversationClosedEvent,
+  ConversationReopenedEvent,
+  ConversationAssignedEvent,
+  ConversationTransferredEvent,
+} from './protocol';
+import type { AttachmentItem } from './types';
+
+export interface OutgoingMessage {
+  text: string;
+  temp_id?: string;
+  attachments?: { items: AttachmentItem[] };
+  metadata?: Record<string, unknown>; // Sent as `metadata` with the message, e.g. page context or cart id
+}
+
+export interface SendContext {
+  channel: 'http' | 'socket'; // Path carrying this attempt
+  conversationId?: string;
+}
+
+export interface SendOutcome {
+  message_id?: string;
+  conversation_id?: string;
+}
+
+export type LifecycleEvent =
+  | ConversationCreatedEvent
+  | ConversationClosedEvent
+  | ConversationReopenedEvent
+  | ConversationAssignedEvent
+  | ConversationTransferredEvent;
+
+type MaybePromise<T> = T | Promise<T>;
+
+export interface ChatPlugin {
+  name: string;
+  /**
+   * Return a changed message to replace it, false to cancel the send, nothing to leave it as is
+   * Runs once per send attempt and always starts from the message as the visitor wrote it. A hybrid send that
+   * falls back from HTTP to the socket is one attempt: the socket carries the message prepared for HTTP.
+   */
+  beforeSend?: (message: OutgoingMessage, context: SendContext) => MaybePromise<OutgoingMessage | false | void>;
+  /** The server accepted the message (as sent, after beforeSend) */
+  afterSend?: (message: OutgoingMessage, outcome: SendOutcome, context: SendContext) => MaybePromise<void>;
+  /** Return a changed message to replace it, false to drop it, nothing to leave it as is */
+  onReceive?: (message: ChatMessagePayload) => ChatMessagePayload | false | void;
+  onLifecycleEvent?: (event: LifecycleEvent) => void;
+}
+
+export type BeforeSendResult =
+  | { cancelled: false; message: OutgoingMessage }
+  | { cancelled: true; plugin: string };
+
+export class PluginPipeline {
+  private plugins: ChatPlugin[] = [];
+
+  /**
+   * Add a plugin (a plugin with the same name is replaced in place). Returns an unregister function.
+   */
+  register(plugin: ChatPlugin): () => void {
+    if (!plugin || typeof plugin.name !== 'string' || !plugin.name) {
+      console.warn('[Plugins] Ignoring plugin without a name:', plugin);
+      return () => {};
+    }
+    const index = this.plugins.findIndex((p) => p.name === plugin.name);
+    if (index >= 0) {
+      this.plugins[index] = plugin;
+    } else {
+      this.plugins.push(plugin);
+    }
+    return () => this.unregister(plugin.name);
+  }
+
+  unregister(name: string): void {
+    this.plugins = this.plugins.filter((p) => p.name !== name);
+  }
+
+  /** Names of registered plugins, in run order */
+  list(): string[] {
+    return this.plugins.map((p) => p.name);
+  }
+
+  async runBeforeSend(message: OutgoingMessage, context: SendContext): Promise<BeforeSendResult> {
+    let current = message;
+    for (const plugin of this.plugins) {
+      if (!plugin.beforeSend) continue;
+      try {
+        const result = await plugin.beforeSend({ ...current }, context);
+        if (result === false) {
+          return { cancelled: true, plugin: plugin.name };
+        }
+        if (result && typeof result.text === 'string') {
+          current = result;
+        }
+      } catch (error) {
+        console.error(`[Plugins] "${plugin.name}" beforeSend failed:`, error);
+      }
+    }
+    return { cancelled: false, message: current };
+  }
+
+  /**
+   * Not awaited by senders - a slow afterSend never holds up the next message
+   */
+  runAfterSend(message: OutgoingMessage, outcome: SendOutcome, context: SendContext): void {
+    for (const plugin of this.plugins) {
+      if (!plugin.afterSend) continue;
+      Promise.resolve()
+        .then(() => plugin.afterSend!(message, outcome, context))
+        .catch((error) => console.error(`[Plugins] "${plugin.name}" afterSend failed:`, error));
+    }
+  }
+
+  /**
+   * Returns the message to deliver, or null when a plugin dropped it
+   */
+  runOnReceive(message: ChatMessagePayload): ChatMessagePayload | null {
+    let current = message;
+    for (const plugin of this.plugins) {
+      if (!plugin.onReceive) continue;
+      try {
+        const result = plugin.onReceive({ ...current });
+        if (result === false) {
+          return null;
+        }
+        if (result && typeof result.id === 'string') {
+          current = result;
+        }
+      } catch (error) {
+        console.error(`[Plugins] "${plugin.name}" onReceive failed:`, error);
+      }
+    }
+    return current;
+  }
+
+  runLifecycleEvent(event: LifecycleEvent): void {
+    for (const plugin of this.plugins) {
+      if (!plugin.onLifecycleEvent) continue;
+      try {
+        plugin.onLifecycleEvent(event);
+      } catch (error) {
+        console.error(`[Plugins] "${plugin.name}" onLifecycleEvent failed:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Shared pipeline: ChatAPI, ChatWebSocketNative and the transports all run the same plugins
+ */
+export const plugins = new PluginPipeline();
+
+export function registerPlugin(plugin: ChatPlugin): () => void {
+  return plugins.register(plugin);
+}
+
+/**
+ * Register plugins from window.ChatWidgetConfig.plugins and expose window.AmoiqChat.registerPlugin
+ * for scripts that load later. Safe to call more than once (plugins are keyed by name).
+ */
+export function loadConfiguredPlugins(): void {
+  if (typeof window === 'undefined') return;
+  const configured = (window as any).ChatWidgetConfig?.plugins;
+  if (Array.isArray(configured)) {
+    configured.forEach((plugin: ChatPlugin) => plugins.register(plugin));
+  }
+  const api = ((window as any).AmoiqChat = (window as any).AmoiqChat || {});
+  api.registerPlugin = registerPlugin;
+  api.unregisterPlugin = (name: string) => plugins.unregister(name);
+}
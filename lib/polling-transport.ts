@@ -0,0 +1,150 @@
+/**
+ * HTTP long-poll receive channel
+ * Fallback for networks where Socket.IO can't connect at all (corporate proxies that block WebSockets and
+ * Engine.IO polling alike). Long-polls GET /webchat/messages with the conversation's message cursor and
+ * hands back new messages plus any conversation lifecycle events the Gateway includes in the response.
+ * Sending keeps going over HTTP (ChatAPI.sendMessage) either way - this only covers receiving.
+ */
+
+import { normalizeMessage, type ChatMessagePayload } from './protocol';
+import type { MessageCursor } from './session';
+import { ChatApiError } from './api-error';
+import { rateLimitedFetch } from './rate-limiter';
+
+const LONG_POLL_WAIT = 25; // Seconds the Gateway may hold the request open waiting for new messages
+const POLL_INTERVAL = 3000; // Pause between polls when the Gateway answers immediately (no long-poll support)
+const MAX_ERROR_BACKOFF = 30000;
+
+/** Lifecycle event relayed in a poll response: { event: 'conversation:closed', data: {...} } */
+export interface PolledEvent {
+  event: string;
+  data: unknown;
+}
+
+export interface PollingTarget {
+  conversationId?: string;
+  sessionId?: string; // Used until a conversation exists - the Gateway resolves the session's conversation
+}
+
+export interface PollingReceiverOptions {
+  baseUrl: string;
+  getHeaders: () => HeadersInit;
+  getTarget: () => PollingTarget;
+  getCursor: (conversationId: string) => MessageCursor | null;
+  onMessage: (message: ChatMessagePayload) => void;
+  onEvent?: (event: PolledEvent) => void;
+  onError?: (error: ChatApiError) => void;
+}
+
+export class PollingReceiver {
+  private options: PollingReceiverOptions;
+  private running = false;
+  private controller: AbortController | null = null;
+  private waitTimer?: ReturnType<typeof setTimeout>;
+  private wakeUp?: () => void;
+  private failures = 0;
+
+  constructor(options: PollingReceiverOptions) {
+    this.options = options;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.failures = 0;
+    void this.loop();
+  }
+
+  /**
+   * Stop polling and abort the request in flight
+   */
+  stop(): void {
+    this.running = false;
+    this.controller?.abort();
+    this.controller = null;
+    if (this.waitTimer) {
+      clearTimeout(this.waitTimer);
+      this.waitTimer = undefined;
+    }
+    this.wakeUp?.();
+  }
+
+  private async loop(): Promise<void> {
+    while (this.running) {
+      const startedAt = Date.now();
+      let delay = 0;
+      try {
+        await this.poll();
+        this.failures = 0;
+        // Answered right away - the Gateway doesn't hold requests open, so pace the polls ourselves
+        delay = Math.max(0, POLL_INTERVAL - (Date.now() - startedAt));
+      } catch (error) {
+        if (!this.running) return;
+        const apiError = ChatApiError.from(error, 'Polling for messages failed');
+        this.failures++;
+        delay = Math.min(POLL_INTERVAL * Math.pow(2, this.failures - 1), MAX_ERROR_BACKOFF);
+        console.warn(`[Polling] ${apiError.message} - retrying in ${delay}ms`);
+        this.options.onError?.(apiError);
+      }
+      if (this.running && delay > 0) {
+        await new Promise<void>((resolve) => {
+          this.wakeUp = resolve;
+          this.waitTimer = setTimeout(resolve, delay);
+        });
+        this.wakeUp = undefined;
+      }
+    }
+  }
+
+  private async poll(): Promise<void> {
+    const target = this.options.getTarget();
+    if (!target.conversationId && !target.sessionId) {
+      return;
+    }
+
+    const params = new URLSearchParams({ wait: String(LONG_POLL_WAIT) });
+    const cursor = target.conversationId ? this.options.getCursor(target.conversationId) : null;
+    if (target.conversationId) {
+      params.append('conversationId', target.conversationId);
+    } else if (target.sessionId) {
+      params.append('sessionId', target.sessionId);
+    }
+    if (cursor) {
+      params.append('after', cursor.id);
+      params.append('since', cursor.timestamp);
+    }
+
+    this.controller = new AbortController();
+    const response = await rateLimitedFetch(
+      `${this.options.baseUrl}/webchat/messages?${params.toString()}`,
+      { method: 'GET', headers: this.options.getHeaders(), signal: this.controller.signal },
+      (LONG_POLL_WAIT + 5) * 1000
+    );
+    if (!response.ok) {
+      throw await ChatApiError.fromResponse(response, 'Polling for messages failed');
+    }
+    const data = await response.json();
+    if (!this.running) return;
+
+    // Plain array (no long-poll support) or { messages, events }
+    const rawMessages: unknown[] = Array.isArray(data) ? data : (data?.messages || []);
+    const events: PolledEvent[] = Array.isArray(data?.events) ? data.events : [];
+
+    // The Gateway may ignore the cursor - keep only messages at or after it, oldest first
+    const cursorTime = cursor ? new Date(cursor.timestamp).getTime() : 0;
+    rawMessages
+      .map((raw) => normalizeMessage(raw))
+      .filter((message): message is ChatMessagePayload => message !== null)
+      .filter((message) => message.id !== cursor?.id && new Date(message.timestamp).getTime() >= cursorTime)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .forEach((message) => this.options.onMessage(message));
+
+    events
+      .filter((event) => event && typeof event.event === 'string')
+      .forEach((event) => this.options.onEvent?.(event));
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Pre-chat form
+ * What the visitor fills in before their first message: name, email, phone, a department, a consent
+ * checkbox and custom fields. The form is part of the tenant's configuration (`pre_chat_form` in the
+ * POST /webchat/session response); without one the widget asks for a name only. Answers are kept in
+ * localStorage, merged into UserInfo and sent with POST /webchat/init. Visitors the site identified
+ * (ChatWidgetConfig.user) don't see the form.
+ */
+
+import type { UserInfo } from './types';
+
+export type PreChatFieldType = 'text' | 'email' | 'phone' | 'select' | 'checkbox' | 'textarea';
+
+export interface PreChatField {
+  id: string; // Answer key - name / email / phone also fill the UserInfo fields of the same name
+  label: string;
+  type: PreChatFieldType;
+  required: boolean;
+  options?: string[]; // For select fields
+  placeholder?: string;
+  pattern?: string; // Regular expression a text answer must match
+}
+
+export interface PreChatForm {
+  enabled: boolean;
+  title: string;
+  fields: PreChatField[];
+}
+
+/** Field id -> answer (checkboxes answer true / false) */
+export type PreChatAnswers = Record<string, string | boolean>;
+
+const DEFAULT_FORM: PreChatForm = {
+  enabled: true,
+  title: 'Welcome! Please enter your name to start chatting.',
+  fields: [{ id: 'name', label: 'Name', type: 'text', required: true, placeholder: 'Enter your name...' }],
+};
+
+const FIELD_TYPES: PreChatFieldType[] = ['text', 'email', 'phone', 'select', 'checkbox', 'textarea'];
+
+// Type of the well-known fields when the tenant config leaves it out
+const DEFAULT_FIELD_TYPES: Record<string, PreChatFieldType> = {
+  email: 'email',
+  phone: 'phone',
+  department: 'select',
+  consent: 'checkbox',
+};
+
+const PRE_CHAT_ANSWERS_KEY = 'chat_pre_chat_answers';
+const MAX_ANSWER_LENGTH = 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{6,20}$/;
+const USER_INFO_FIELDS = ['name', 'email', 'phone'];
+
+function normalizeField(raw: any): PreChatField | null {
+  if (!raw || typeof raw.id !== 'string' || !raw.id) return null;
+  const options = Array.isArray(raw.options) ? raw.options.filter((o: unknown) => typeof o === 'string') : [];
+  let type: PreChatFieldType = FIELD_TYPES.includes(raw.type) ? raw.type : DEFAULT_FIELD_TYPES[raw.id] || 'text';
+  if (type === 'select' && options.length === 0) {
+    type = 'text';
+  }
+  return {
+    id: raw.id,
+    label: typeof raw.label === 'string' && raw.label ? raw.label : raw.id,
+    type,
+    required: raw.required === true,
+    options: type === 'select' ? options : undefined,
+    placeholder: typeof raw.placeholder === 'string' ? raw.placeholder : undefined,
+    pattern: typeof raw.pattern === 'string' ? raw.pattern : undefined,
+  };
+}
+
+/**
+ * Form definition from the tenant's configuration (`pre_chat_form`): missing or invalid means the default
+ * name-only form, `false` or `enabled: false` means no form
+ */
+export function parsePreChatForm(raw: unknown): PreChatForm {
+  if (raw === false) {
+    return { ...DEFAULT_FORM, enabled: false };
+  }
+  if (!raw || typeof raw !== 'object') {
+    return DEFAULT_FORM;
+  }
+
+  const config = raw as Record<string, unknown>;
+  if (config.enabled === false) {
+    return { ...DEFAULT_FORM, enabled: false };
+  }
+  const fields = Array.isArray(config.fields)
+    ? config.fields.map(normalizeField).filter((field): field is PreChatField => field !== null)
+    : [];
+  if (fields.length === 0) {
+    console.warn('[Widget] Pre-chat form has no valid fields, asking for a name only');
+    return DEFAULT_FORM;
+  }
+  return {
+    enabled: true,
+    title: typeof config.title === 'string' && config.title ? config.title : 'Before we start, please tell us a bit about you.',
+    fields,
+  };
+}
+
+function fieldError(field: PreChatField, value: string | boolean | undefined): string | null {
+  if (field.type === 'checkbox') {
+    return field.required && value !== true ? 'Please check this box to continue.' : null;
+  }
+
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) {
+    return field.required ? `${field.label} is required.` : null;
+  }
+  if (text.length > MAX_ANSWER_LENGTH) {
+    return `${field.label} is too long.`;
+  }
+  if (field.type === 'email' && !EMAIL_PATTERN.test(text)) {
+    return 'Please enter a valid email address.';
+  }
+  if (field.type === 'phone' && !PHONE_PATTERN.test(text)) {
+    return 'Please enter a valid phone number.';
+  }
+  if (field.type === 'select' && !field.options?.includes(text)) {
+    return `Please choose a ${field.label.toLowerCase()}.`;
+  }
+  if (field.pattern) {
+    try {
+      if (!new RegExp(`^(?:${field.pattern})$`).test(text)) {
+        return `Please check your ${field.label.toLowerCase()}.`;
+      }
+    } catch {
+      console.warn(`[Widget] Ignoring invalid pattern of pre-chat field "${field.id}":`, field.pattern);
+    }
+  }
+  return null;
+}
+
+/**
+ * Field id -> error message for every answer that doesn't pass (empty when the form is complete)
+ */
+export function validatePreChatAnswers(form: PreChatForm, answers: PreChatAnswers): Record<string, string> {
+  const errors: Record<string, string> = {};
+  form.fields.forEach((field) => {
+    const error = fieldError(field, answers[field.id]);
+    if (error) errors[field.id] = error;
+  });
+  return errors;
+}
+
+/**
+ * Answers to the form's fields only, with text trimmed and empty answers left out
+ */
+export function cleanPreChatAnswers(form: PreChatForm, answers: PreChatAnswers): PreChatAnswers {
+  const cleaned: PreChatAnswers = {};
+  form.fields.forEach((field) => {
+    const value = answers[field.id];
+    if (field.type === 'checkbox') {
+      cleaned[field.id] = value === true;
+    } else if (typeof value === 'string' && value.trim()) {
+      cleaned[field.id] = value.trim();
+    }
+  });
+  return cleaned;
+}
+
+/**
+ * Answers as UserInfo: name / email / phone into their fields, everything else under its field id
+ */
+export function preChatUserInfo(answers: PreChatAnswers): UserInfo {
+  const userInfo: UserInfo = {};
+  Object.entries(answers).forEach(([id, value]) => {
+    if (USER_INFO_FIELDS.includes(id) && typeof value !== 'string') return;
+    userInfo[id] = value;
+  });
+  return userInfo;
+}
+
+/**
+ * Stored answers, or null when the visitor hasn't filled in a form yet
+ */
+export function getPreChatAnswers(): PreChatAnswers | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRE_CHAT_ANSWERS_KEY) || 'null');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setPreChatAnswers(answers: PreChatAnswers): void {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(PRE_CHAT_ANSWERS_KEY, JSON.stringify(answers));
+  } catch (error) {
+    console.warn('[Widget] Failed to store pre-chat answers:', error);
+  }
+}
+
+/**
+ * Add the stored answers to a POST /webchat/init payload: as `pre_chat`, and merged into `userInfo`
+ * (details the site passed for an identified visitor win)
+ */
+export function addPreChatAnswers(payload: Record<string, any>): void {
+  const answers = getPreChatAnswers();
+  if (!answers) return;
+  payload.pre_chat = answers;
+  payload.userInfo = { ...preChatUserInfo(answers), ...payload.userInfo };
+}
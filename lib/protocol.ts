@@ -0,0 +1,507 @@
+/**
+ * Socket.IO server → client protocol
+ * Typed payloads for every server event the widget listens to, runtime validation,
+ * and the single message normalizer shared by ChatWebSocketNative and the embed page
+ */
+
+import { parseAvailability, type AgentAvailability } from './availability';
+
+export type MessageSender = 'user' | 'bot' | 'agent' | 'system';
+
+/**
+ * Lifecycle of a visitor message:
+ * pending (optimistic) → sent (accepted by gateway) → delivered (saved and broadcast) → read (seen by agent)
+ * failed when sending gave up
+ */
+export type DeliveryStatus = 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+/**
+ * Chat message after normalization
+ * Backend payloads vary (message_id / messageId / id, message_text / text, sender_type / sender),
+ * everything downstream of normalizeMessage() only sees this shape
+ */
+export interface ChatMessagePayload {
+  id: string;
+  text: string;
+  sender: MessageSender;
+  timestamp: string;
+  conversation_id?: string;
+  temp_id?: string; // Client temp_id echoed by the server for optimistic message replacement
+  aliases?: string[]; // Other ids the payload carried (event id, stream_id, correlation_id) - pairs broadcasts of the same message
+  sender_type?: string; // Original backend sender type: "user" | "human" | "agent" | "ai" | "bot"
+  senderId?: string;
+  senderName?: string;
+  tenant_id?: string;
+  status?: string;
+  attachments?: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+export interface SessionUpdateEvent {
+  type: 'session:update';
+  session_id?: string;
+  status?: string; // "initial" | "bubble_click"
+  tenant_id?: string;
+  site_id?: string;
+  conversation_id?: string;
+}
+
+export interface ConversationCreatedEvent {
+  type: 'conversation:created';
+  conversation_id: string;
+  visitor_id?: string;
+  session_id?: string;
+}
+
+export interface ConversationNewEvent {
+  type: 'conversation:new';
+  conversation_id: string;
+}
+
+export interface ConversationUpdateEvent {
+  type: 'conversation:update';
+  conversation_id: string;
+  status?: string;
+}
+
+/**
+ * Who triggered a lifecycle change (agent, bot, the visitor, or the system e.g. inactivity timer)
+ */
+export interface ConversationActor {
+  type: MessageSender;
+  id?: string;
+  name?: string;
+}
+
+export interface ConversationAssignedEvent {
+  type: 'conversation:assigned';
+  conversation_id: string;
+  agent: ConversationActor;
+  assigned_at?: string;
+}
+
+export interface ConversationTransferredEvent {
+  type: 'conversation:transferred';
+  conversation_id: string;
+  from_agent?: ConversationActor;
+  to_agent: ConversationActor;
+  reason?: string;
+  transferred_at?: string;
+}
+
+export interface ConversationClosedEvent {
+  type: 'conversation:closed';
+  conversation_id: string;
+  reason?: string; // "inactivity" | "agent" | "visitor" | ...
+  closed_by?: ConversationActor;
+  closed_at?: string;
+}
+
+export interface ConversationReopenedEvent {
+  type: 'conversation:reopened';
+  conversation_id: string;
+  reopened_by?: ConversationActor;
+  reopened_at?: string;
+}
+
+export interface MetaMessageCreatedEvent {
+  type: 'meta_message_created';
+  message: ChatMessagePayload;
+}
+
+export interface MessageNewEvent {
+  type: 'message:new';
+  message: ChatMessagePayload;
+}
+
+export interface TypingStartEvent {
+  type: 'typing:start';
+  conversation_id?: string;
+  sender: MessageSender;
+  sender_name?: string;
+}
+
+export interface TypingStopEvent {
+  type: 'typing:stop';
+  conversation_id?: string;
+  sender: MessageSender;
+  sender_name?: string;
+}
+
+export type TypingEvent = TypingStartEvent | TypingStopEvent;
+
+/**
+ * Messages were read by the other side
+ * Either an explicit list of ids, or everything up to and including `up_to_message_id`
+ */
+export interface MessageReadEvent {
+  type: 'message:read';
+  conversation_id?: string;
+  message_ids: string[];
+  up_to_message_id?: string;
+  read_at: string;
+  reader: MessageSender;
+}
+
+/**
+ * The visitor edited one of their messages (from this or another device)
+ */
+export interface MessageUpdatedEvent {
+  type: 'message:updated';
+  conversation_id?: string;
+  message_id: string;
+  text: string;
+  edited_at: string;
+}
+
+/**
+ * The visitor deleted one of their messages - shown as a tombstone
+ */
+export interface MessageDeletedEvent {
+  type: 'message:deleted';
+  conversation_id?: string;
+  message_id: string;
+  deleted_at: string;
+}
+
+/**
+ * Agents came online or went offline (broadcast to the session room)
+ */
+export interface AgentsAvailabilityEvent {
+  type: 'agents:availability';
+  availability: AgentAvailability;
+}
+
+export interface JoinedEvent {
+  type: 'joined';
+  conversation_id?: string;
+  room?: string;
+}
+
+export type ServerEvent =
+  | SessionUpdateEvent
+  | ConversationCreatedEvent
+  | ConversationNewEvent
+  | ConversationUpdateEvent
+  | ConversationAssignedEvent
+  | ConversationTransferredEvent
+  | ConversationClosedEvent
+  | ConversationReopenedEvent
+  | MetaMessageCreatedEvent
+  | MessageNewEvent
+  | TypingStartEvent
+  | TypingStopEvent
+  | MessageReadEvent
+  | MessageUpdatedEvent
+  | MessageDeletedEvent
+  | AgentsAvailabilityEvent
+  | JoinedEvent;
+
+export type ServerEventName = ServerEvent['type'];
+
+export type ServerEventOf<N extends ServerEventName> = Extract<ServerEvent, { type: N }>;
+
+type RawPayload = Record<string, unknown>;
+
+/** Validator returns the event body, or a rejection reason */
+type Validator<N extends ServerEventName> = (data: RawPayload) => Omit<ServerEventOf<N>, 'type'> | string;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isRecord(value: unknown): value is RawPayload {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Return the first non-empty string (or number, stringified) among the given keys
+ */
+function pickString(data: RawPayload, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = data[key];
+    if (typeof value === 'string' && value !== '') return value;
+    if (typeof value === 'number') return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Map backend sender fields to the widget's sender type
+ * Backend uses: "user" (customer/widget), "human" (admin/agent), "ai" (bot)
+ */
+function resolveSender(data: RawPayload): MessageSender {
+  const senderType = pickString(data, 'sender_type');
+  if (senderType) {
+    if (senderType === 'user') return 'user';
+    if (senderType === 'human' || senderType === 'agent') return 'agent';
+    if (senderType === 'system') return 'system';
+    return 'bot';
+  }
+
+  const sender = pickString(data, 'sender');
+  if (sender) {
+    // Sender is a UUID (user ID) - it's the visitor's own message
+    if (UUID_PATTERN.test(sender)) return 'user';
+    if (sender === 'user' || sender === 'bot' || sender === 'agent' || sender === 'system') return sender;
+    if (sender === 'human') return 'agent';
+    if (sender === 'ai') return 'bot';
+  }
+
+  // Messages carrying user identifiers are the visitor's own
+  if (data.userId || data.user_id || data.visitor_id || sender) {
+    return 'user';
+  }
+  return 'bot';
+}
+
+/**
+ * Normalize a raw message payload into ChatMessagePayload
+ * Accepts either the message itself or a { message: {...} } wrapper.
+ * Idempotent: normalizing an already-normalized message returns an equivalent object.
+ * Returns null (and logs) when the payload cannot be turned into a message.
+ */
+export function normalizeMessage(raw: unknown): ChatMessagePayload | null {
+  const result = toChatMessage(raw);
+  if (typeof result === 'string') {
+    console.warn(`[Protocol] Rejected message payload: ${result}`, raw);
+    return null;
+  }
+  return result;
+}
+
+function toChatMessage(raw: unknown): ChatMessagePayload | string {
+  if (!isRecord(raw)) {
+    return 'payload is not an object';
+  }
+  const data = isRecord(raw.message) ? raw.message : raw;
+
+  // message:new carries message_id (actual message ID) and id (event ID) - prefer message_id
+  const id = pickString(data, 'message_id', 'messageId', 'id');
+  if (!id) {
+    return 'missing id/message_id/messageId';
+  }
+
+  const text = pickString(data, 'text', 'message_text') ?? (typeof data.message === 'string' ? data.message : '');
+  const hasAttachments = data.attachments !== undefined && data.attachments !== null;
+  if (!text && !hasAttachments) {
+    return 'missing text/message_text and no attachments';
+  }
+
+  const message: ChatMessagePayload = {
+    id,
+    text,
+    sender: resolveSender(data),
+    timestamp: pickString(data, 'timestamp', 'created_at', 'inserted_at') || new Date().toISOString(),
+  };
+
+  const normalizedAliases = Array.isArray(data.aliases) ? data.aliases : [];
+  const aliases = Array.from(new Set(
+    [...['message_id', 'messageId', 'id', 'stream_id', 'correlation_id'].map((key) => pickString(data, key)), ...normalizedAliases]
+      .filter((alias): alias is string => typeof alias === 'string' && alias !== '' && alias !== id)
+  ));
+  if (aliases.length > 0) message.aliases = aliases;
+
+  const conversationId = pickString(data, 'conversation_id', 'conversationId');
+  if (conversationId) message.conversation_id = conversationId;
+
+  const tempId = pickString(data, 'temp_id', 'client_temp_id');
+  if (tempId) message.temp_id = tempId;
+
+  const senderType = pickString(data, 'sender_type');
+  if (senderType) message.sender_type = senderType;
+
+  const senderId = pickString(data, 'senderId', 'sender_id') ?? (typeof data.sender === 'string' && UUID_PATTERN.test(data.sender) ? data.sender : undefined);
+  if (senderId) message.senderId = senderId;
+
+  const senderName = pickString(data, 'senderName', 'sender_name');
+  if (senderName) message.senderName = senderName;
+
+  const tenantId = pickString(data, 'tenant_id', 'tenantId');
+  if (tenantId) message.tenant_id = tenantId;
+
+  const status = pickString(data, 'status');
+  if (status) message.status = status;
+
+  if (hasAttachments) message.attachments = data.attachments;
+  if (isRecord(data.metadata)) message.metadata = data.metadata;
+
+  return message;
+}
+
+/**
+ * Read an actor given either as an object ({ id, name, type }) or as flat fields (<key>, <key>_name, <key>_type)
+ * e.g. actorFrom(data, 'closed_by') accepts closed_by: { ... } or closed_by: "agent-uuid" + closed_by_name + closed_by_type
+ */
+function actorFrom(data: RawPayload, key: string): ConversationActor | undefined {
+  const value = data[key];
+  const fields: RawPayload = isRecord(value)
+    ? value
+    : { id: value, name: data[`${key}_name`], sender_type: data[`${key}_type`] };
+
+  const id = pickString(fields, 'id', 'user_id', 'agent_id');
+  const name = pickString(fields, 'name', 'display_name');
+  const senderType = pickString(fields, 'sender_type', 'type', 'role');
+  if (!id && !name && !senderType) return undefined;
+
+  return {
+    // Actors without a type are agents - visitors and the system always say so
+    type: !senderType ? 'agent' : senderType === 'visitor' ? 'user' : resolveSender({ sender_type: senderType }),
+    id,
+    name,
+  };
+}
+
+function typingEvent(data: RawPayload): Omit<TypingStartEvent, 'type'> {
+  return {
+    conversation_id: pickString(data, 'conversation_id', 'conversationId'),
+    sender: resolveSender(data),
+    sender_name: pickString(data, 'sender_name', 'senderName'),
+  };
+}
+
+function messageEvent(data: RawPayload): { message: ChatMessagePayload } | string {
+  const message = toChatMessage(data);
+  return typeof message === 'string' ? message : { message };
+}
+
+const validators: { [N in ServerEventName]: Validator<N> } = {
+  'session:update': (data) => ({
+    session_id: pickString(data, 'session_id', 'sessionId'),
+    status: pickString(data, 'status'),
+    tenant_id: pickString(data, 'tenant_id', 'tenantId'),
+    site_id: pickString(data, 'site_id', 'siteId'),
+    conversation_id: pickString(data, 'conversation_id', 'conversationId'),
+  }),
+  'conversation:created': (data) => {
+    const conversationId = pickString(data, 'conversation_id', 'conversationId', 'id');
+    if (!conversationId) return 'missing conversation_id';
+    return {
+      conversation_id: conversationId,
+      visitor_id: pickString(data, 'visitor_id', 'visitorId'),
+      session_id: pickString(data, 'session_id', 'sessionId'),
+    };
+  },
+  'conversation:new': (data) => {
+    const conversationId = pickString(data, 'id', 'conversation_id', 'conversationId');
+    if (!conversationId) return 'missing id/conversation_id';
+    return { conversation_id: conversationId };
+  },
+  'conversation:update': (data) => {
+    // Backend uses 'id' field per WEBSOCKET_PAYLOADS.md, other variants kept for compatibility
+    const conversationId = pickString(data, 'id', 'conversation_id', 'conversationId');
+    if (!conversationId) return 'missing id/conversation_id';
+    return { conversation_id: conversationId, status: pickString(data, 'status') };
+  },
+  'conversation:assigned': (data) => {
+    const conversationId = pickString(data, 'conversation_id', 'conversationId', 'id');
+    if (!conversationId) return 'missing conversation_id';
+    const agent = actorFrom(data, 'agent') ?? actorFrom(data, 'assigned_to');
+    if (!agent) return 'missing agent/assigned_to';
+    return {
+      conversation_id: conversationId,
+      agent,
+      assigned_at: pickString(data, 'assigned_at'),
+    };
+  },
+  'conversation:transferred': (data) => {
+    const conversationId = pickString(data, 'conversation_id', 'conversationId', 'id');
+    if (!conversationId) return 'missing conversation_id';
+    const toAgent = actorFrom(data, 'to_agent') ?? actorFrom(data, 'to');
+    if (!toAgent) return 'missing to_agent';
+    return {
+      conversation_id: conversationId,
+      from_agent: actorFrom(data, 'from_agent') ?? actorFrom(data, 'from'),
+      to_agent: toAgent,
+      reason: pickString(data, 'reason'),
+      transferred_at: pickString(data, 'transferred_at'),
+    };
+  },
+  'conversation:closed': (data) => {
+    const conversationId = pickString(data, 'conversation_id', 'conversationId', 'id');
+    if (!conversationId) return 'missing conversation_id';
+    return {
+      conversation_id: conversationId,
+      reason: pickString(data, 'reason'),
+      closed_by: actorFrom(data, 'closed_by'),
+      closed_at: pickString(data, 'closed_at'),
+    };
+  },
+  'conversation:reopened': (data) => {
+    const conversationId = pickString(data, 'conversation_id', 'conversationId', 'id');
+    if (!conversationId) return 'missing conversation_id';
+    return {
+      conversation_id: conversationId,
+      reopened_by: actorFrom(data, 'reopened_by'),
+      reopened_at: pickString(data, 'reopened_at'),
+    };
+  },
+  meta_message_created: messageEvent,
+  'message:new': messageEvent,
+  'typing:start': typingEvent,
+  'typing:stop': typingEvent,
+  'message:read': (data) => {
+    const rawIds = Array.isArray(data.message_ids) ? data.message_ids : (Array.isArray(data.messageIds) ? data.messageIds : []);
+    const messageIds = rawIds.filter((id): id is string => typeof id === 'string' && id !== '');
+    const singleId = pickString(data, 'message_id', 'messageId');
+    if (singleId) messageIds.push(singleId);
+    const upTo = pickString(data, 'up_to_message_id', 'last_read_message_id');
+    if (messageIds.length === 0 && !upTo) return 'missing message_ids/message_id/up_to_message_id';
+    return {
+      conversation_id: pickString(data, 'conversation_id', 'conversationId'),
+      message_ids: messageIds,
+      up_to_message_id: upTo,
+      read_at: pickString(data, 'read_at', 'readAt') || new Date().toISOString(),
+      reader: resolveSender({ sender_type: data.reader_type ?? data.sender_type }),
+    };
+  },
+  'message:updated': (data) => {
+    const messageId = pickString(data, 'message_id', 'messageId', 'id');
+    if (!messageId) return 'missing message_id';
+    const text = pickString(data, 'text', 'message_text');
+    if (!text) return 'missing text';
+    return {
+      conversation_id: pickString(data, 'conversation_id', 'conversationId'),
+      message_id: messageId,
+      text,
+      edited_at: pickString(data, 'edited_at', 'editedAt', 'updated_at') || new Date().toISOString(),
+    };
+  },
+  'message:deleted': (data) => {
+    const messageId = pickString(data, 'message_id', 'messageId', 'id');
+    if (!messageId) return 'missing message_id';
+    return {
+      conversation_id: pickString(data, 'conversation_id', 'conversationId'),
+      message_id: messageId,
+      deleted_at: pickString(data, 'deleted_at', 'deletedAt') || new Date().toISOString(),
+    };
+  },
+  'agents:availability': (data) => {
+    const availability = parseAvailability(data);
+    if (!availability) return 'missing available/agents_available/online_agents';
+    return { availability };
+  },
+  joined: (data) => ({
+    conversation_id: pickString(data, 'conversation_id', 'conversationId'),
+    room: pickString(data, 'room'),
+  }),
+};
+
+/**
+ * Validate a raw Socket.IO payload for a known server event
+ * Returns the typed event, or null (and logs the reason) when the payload doesn't match the protocol
+ */
+export function parseServerEvent<N extends ServerEventName>(name: N, data: unknown): ServerEventOf<N> | null {
+  // Some events (e.g. joined) may arrive without a payload
+  const payload = data === undefined || data === null ? {} : data;
+  if (!isRecord(payload)) {
+    console.warn(`[Protocol] Rejected "${name}" payload: not an object`, data);
+    return null;
+  }
+
+  const validate = validators[name] as Validator<N>;
+  const result = validate(payload);
+  if (typeof result === 'string') {
+    console.warn(`[Protocol] Rejected "${name}" payload: ${result}`, data);
+    return null;
+  }
+  return { type: name, ...result } as ServerEventOf<N>;
+}
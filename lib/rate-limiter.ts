@@ -0,0 +1,292 @@
+/**
+ * Client-side rate limiting
+ * Token buckets sized to the documented backend limits (100 HTTP requests/min per IP, 10 socket messages/sec
+ * per connection), kept in sync with the X-RateLimit-* and Retry-After headers the Gateway sends back.
+ * Requests wait in a FIFO queue for a token instead of being fired and rejected; listeners are told
+ * while the visitor is being throttled so the UI can say so.
+ */
+
+import { readRateLimitHeaders, type RateLimitInfo } from './api-error';
+import { recordServerDate } from './ws-token';
+
+export type RateLimitBucket = 'http' | 'socket';
+
+export interface ThrottleState {
+  bucket: RateLimitBucket;
+  throttled: boolean;
+  until?: number; // Best estimate of when requests flow again (timestamp)
+  queued: number; // Requests waiting for a token
+}
+
+export type ThrottleListener = (state: ThrottleState) => void;
+
+interface BucketLimit {
+  capacity: number;
+  intervalMs: number; // Time to refill a full bucket
+}
+
+const DEFAULT_LIMITS: Record<RateLimitBucket, BucketLimit> = {
+  http: { capacity: 100, intervalMs: 60 * 1000 },
+  socket: { capacity: 10, intervalMs: 1000 },
+};
+
+const REJECTED_BACKOFF = 5000; // Pause after a 429 that carried no Retry-After / X-RateLimit-Reset
+
+/**
+ * Token bucket with continuous refill and an optional hard block (backend told us to stop)
+ */
+export class TokenBucket {
+  private capacity: number;
+  private intervalMs: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+
+  constructor(capacity: number, intervalMs: number) {
+    this.capacity = Math.max(1, capacity);
+    this.intervalMs = intervalMs;
+    this.tokens = this.capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.capacity) / this.intervalMs);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Milliseconds until a token can be taken (0 = now)
+   */
+  waitTime(): number {
+    this.refill();
+    const blockedFor = Math.max(0, this.blockedUntil - Date.now());
+    const refillFor = this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * this.intervalMs) / this.capacity);
+    return Math.max(blockedFor, refillFor);
+  }
+
+  tryTake(): boolean {
+    if (this.waitTime() > 0) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Stop handing out tokens until the given timestamp
+   */
+  block(until: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, until);
+  }
+
+  isBlocked(): boolean {
+    return this.blockedUntil > Date.now();
+  }
+
+  /**
+   * Align with what the backend reports: its limit, and never more tokens than it says remain
+   */
+  sync(info: RateLimitInfo): void {
+    this.refill();
+    if (info.limit !== undefined && info.limit > 0 && info.limit !== this.capacity) {
+      this.capacity = info.limit;
+      this.tokens = Math.min(this.tokens, this.capacity);
+    }
+    if (info.remaining !== undefined) {
+      this.tokens = Math.min(this.tokens, Math.max(0, info.remaining));
+      if (info.remaining <= 0 && info.resetAt !== undefined) {
+        this.block(info.resetAt);
+      }
+    }
+    if (info.retryAfterMs !== undefined) {
+      this.block(Date.now() + info.retryAfterMs);
+    }
+  }
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+export class RateLimiter {
+  private buckets: Record<RateLimitBucket, TokenBucket>;
+  private queues: Record<RateLimitBucket, Waiter[]> = { http: [], socket: [] };
+  private timers: Partial<Record<RateLimitBucket, ReturnType<typeof setTimeout>>> = {};
+  private reported: Record<RateLimitBucket, Pick<ThrottleState, 'throttled' | 'queued'>> = {
+    http: { throttled: false, queued: 0 },
+    socket: { throttled: false, queued: 0 },
+  };
+  private listeners = new Set<ThrottleListener>();
+
+  constructor(limits: Record<RateLimitBucket, BucketLimit> = DEFAULT_LIMITS) {
+    this.buckets = {
+      http: new TokenBucket(limits.http.capacity, limits.http.intervalMs),
+      socket: new TokenBucket(limits.socket.capacity, limits.socket.intervalMs),
+    };
+  }
+
+  /**
+   * Wait for a token. Resolves immediately when one is free; queued requests are served in order.
+   * Rejects with the signal's reason if it is aborted while waiting.
+   */
+  acquire(bucket: RateLimitBucket, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    if (this.queues[bucket].length === 0 && this.buckets[bucket].tryTake()) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queues[bucket] = this.queues[bucket].filter((w) => w !== waiter);
+          reject(signal.reason);
+          this.drain(bucket);
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queues[bucket].push(waiter);
+      this.drain(bucket);
+    });
+  }
+
+  /**
+   * Take a token only if one is free right now (for sends that are fine to drop, e.g. typing)
+   */
+  tryAcquire(bucket: RateLimitBucket): boolean {
+    return this.queues[bucket].length === 0 && this.buckets[bucket].tryTake();
+  }
+
+  /**
+   * Apply X-RateLimit-* / Retry-After values from a response
+   */
+  update(bucket: RateLimitBucket, info?: RateLimitInfo): void {
+    if (!info) return;
+    this.buckets[bucket].sync(info);
+    this.drain(bucket);
+  }
+
+  /**
+   * The backend rejected a request as rate limited - pause the bucket
+   */
+  reportRejected(bucket: RateLimitBucket, info?: RateLimitInfo): void {
+    this.buckets[bucket].block(Date.now() + (info?.retryAfterMs ?? REJECTED_BACKOFF));
+    if (info) {
+      this.buckets[bucket].sync(info);
+    }
+    this.drain(bucket);
+  }
+
+  isThrottled(bucket: RateLimitBucket): boolean {
+    return this.queues[bucket].length > 0 || this.buckets[bucket].isBlocked();
+  }
+
+  getState(bucket: RateLimitBucket): ThrottleState {
+    const queued = this.queues[bucket].length;
+    const throttled = this.isThrottled(bucket);
+    const waitTime = this.buckets[bucket].waitTime();
+    return {
+      bucket,
+      throttled,
+      until: throttled && waitTime > 0 ? Date.now() + waitTime : undefined,
+      queued,
+    };
+  }
+
+  /**
+   * Listen for throttle changes (start, queue length, end). Returns an unsubscribe function.
+   */
+  subscribe(listener: ThrottleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Hand out tokens to queued requests, then re-arm the timer for the next token or the end of a block
+   */
+  private drain(bucket: RateLimitBucket): void {
+    const queue = this.queues[bucket];
+    const tokens = this.buckets[bucket];
+
+    while (queue.length > 0 && tokens.tryTake()) {
+      const waiter = queue.shift()!;
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+      waiter.resolve();
+    }
+
+    if (this.timers[bucket]) {
+      clearTimeout(this.timers[bucket]);
+      delete this.timers[bucket];
+    }
+    const waitTime = tokens.waitTime();
+    if ((queue.length > 0 || tokens.isBlocked()) && waitTime > 0) {
+      this.timers[bucket] = setTimeout(() => {
+        delete this.timers[bucket];
+        this.drain(bucket);
+      }, waitTime);
+    }
+
+    const throttled = this.isThrottled(bucket);
+    const reported = this.reported[bucket];
+    if (throttled !== reported.throttled || queue.length !== reported.queued) {
+      this.reported[bucket] = { throttled, queued: queue.length };
+      this.notify(bucket);
+    }
+  }
+
+  private notify(bucket: RateLimitBucket): void {
+    const state = this.getState(bucket);
+    this.listeners.forEach((listener) => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('[RateLimiter] Throttle listener failed:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Shared limiter: the HTTP limit is per IP, so ChatAPI, uploads and polling all draw from the same bucket
+ */
+export const rateLimiter = new RateLimiter();
+
+/**
+ * fetch() against the Gateway, metered by the shared HTTP bucket
+ * Waits for a token first, then feeds the response's rate-limit headers back into the bucket (a 429 pauses it).
+ * @param timeoutMs - Abort this long after the request is actually sent; time spent queued doesn't count
+ */
+export async function rateLimitedFetch(url: string, init: RequestInit = {}, timeoutMs?: number): Promise<Response> {
+  await rateLimiter.acquire('http', init.signal ?? undefined);
+
+  const controller = timeoutMs ? new AbortController() : null;
+  const timeoutId = controller ? setTimeout(() => controller.abort(), timeoutMs) : null;
+  // The caller's own signal still cancels the request
+  const abortFromCaller = () => controller?.abort();
+  if (controller) init.signal?.addEventListener('abort', abortFromCaller, { once: true });
+  let response: Response;
+  try {
+    response = await fetch(url, controller ? { ...init, signal: controller.signal } : init);
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+    init.signal?.removeEventListener('abort', abortFromCaller);
+  }
+
+  // Every Gateway response keeps the server clock skew (for ws_token exp) up to date
+  recordServerDate(response.headers);
+  const info = readRateLimitHeaders(response.headers);
+  if (response.status === 429) {
+    rateLimiter.reportRejected('http', info);
+  } else {
+    rateLimiter.update('http', info);
+  }
+  return response;
+}
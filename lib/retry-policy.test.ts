@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatApiError, type ChatApiErrorCode, type RateLimitInfo } from './api-error';
+import { getRetryDelay, getRetryPolicy, shouldRetry, withRetry, type RetryPolicy } from './retry-policy';
+
+const policy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 5000,
+  maxRetryAfterMs: 10000,
+  idempotent: true,
+};
+
+function apiError(code: ChatApiErrorCode, init: { status?: number; rateLimit?: RateLimitInfo } = {}) {
+  return new ChatApiError(`Request failed (${code})`, { code, ...init });
+}
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('waits a jittered delay below the doubled base, never above maxDelayMs', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+
+    expect(getRetryDelay(policy, 1)).toBe(999);
+    expect(getRetryDelay(policy, 2)).toBe(1998);
+    expect(getRetryDelay(policy, 5)).toBe(4995);
+  });
+
+  it('waits for the server Retry-After', () => {
+    expect(getRetryDelay(policy, 1, apiError('RATE_LIMIT_EXCEEDED', { rateLimit: { retryAfterMs: 3000 } }))).toBe(3000);
+  });
+
+  it('waits for the reset of an exhausted rate limit window', () => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    const rateLimit = { remaining: 0, resetAt: 1_700_000_004_000 };
+
+    expect(getRetryDelay(policy, 1, apiError('RATE_LIMIT_EXCEEDED', { rateLimit }))).toBe(4000);
+  });
+
+  it('caps a server-requested wait at maxRetryAfterMs', () => {
+    const error = apiError('RATE_LIMIT_EXCEEDED', { rateLimit: { retryAfterMs: 3_600_000 } });
+
+    expect(getRetryDelay(policy, 1, error)).toBe(10000);
+  });
+});
+
+describe('shouldRetry', () => {
+  it('retries retryable errors of idempotent calls only', () => {
+    expect(shouldRetry(policy, apiError('NETWORK_ERROR'))).toBe(true);
+    expect(shouldRetry(policy, apiError('SERVER_ERROR', { status: 500 }))).toBe(true);
+    expect(shouldRetry(policy, apiError('BAD_REQUEST', { status: 400 }))).toBe(false);
+    expect(shouldRetry(policy, apiError('CANCELLED'))).toBe(false);
+  });
+
+  it('retries non-idempotent calls only when the server cannot have processed them', () => {
+    const once = { ...policy, idempotent: false };
+
+    expect(shouldRetry(once, apiError('RATE_LIMIT_EXCEEDED', { status: 429 }))).toBe(true);
+    expect(shouldRetry(once, apiError('SERVER_ERROR', { status: 503 }))).toBe(true);
+    expect(shouldRetry(once, apiError('SERVER_ERROR', { status: 500 }))).toBe(false);
+    expect(shouldRetry(once, apiError('TIMEOUT'))).toBe(false);
+  });
+
+  it('does not retry when the server asks to wait longer than maxRetryAfterMs', () => {
+    expect(shouldRetry(policy, apiError('RATE_LIMIT_EXCEEDED', { rateLimit: { retryAfterMs: 10000 } }))).toBe(true);
+    expect(shouldRetry(policy, apiError('RATE_LIMIT_EXCEEDED', { rateLimit: { retryAfterMs: 10001 } }))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fails at once with RATE_LIMIT_EXCEEDED when the server asks for a longer wait', async () => {
+    const rateLimit = { retryAfterMs: 120000 };
+    const run = vi.fn(async () => {
+      throw apiError('SERVER_ERROR', { status: 503, rateLimit });
+    });
+
+    const error = await withRetry('history', run, { context: 'Failed to fetch messages' }).catch((e: unknown) => e);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(error).toMatchObject({ code: 'RATE_LIMIT_EXCEEDED', status: 503, rateLimit });
+  });
+});
+
+describe('getRetryPolicy', () => {
+  it('takes maxRetryAfterMs from the defaults unless the call overrides it', () => {
+    expect(getRetryPolicy('sendMessage').maxRetryAfterMs).toBe(10000);
+    expect(getRetryPolicy('history', { maxRetryAfterMs: 60000 }).maxRetryAfterMs).toBe(60000);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Retry / timeout policy for Gateway calls
+ * Decides per operation how often a failed call is repeated, how long each attempt may take and how long to
+ * wait in between: exponential backoff with full jitter, or what the server asked for (Retry-After /
+ * X-RateLimit-Reset). Operations that aren't idempotent are only repeated when the server can't have acted
+ * on the request. Every call can be cancelled with an AbortSignal (ChatApiError CANCELLED).
+ */
+
+import { ChatApiError } from './api-error';
+import { rateLimitedFetch } from './rate-limiter';
+
+export type RetryOperation =
+  | 'sendMessage' // POST /webchat/message
+  | 'editMessage' // PATCH /webchat/messages/:id
+  | 'deleteMessage' // DELETE /webchat/messages/:id
+  | 'socketSend' // Socket.IO 'message' emit
+  | 'history' // GET /webchat/messages
+  | 'init' // POST /webchat/init
+  | 'presenceSession' // POST /webchat/session
+  | 'openChat' // POST /webchat/open
+  | 'chatSession' // POST /api/chat/session
+  | 'onlineUsers' // GET /api/webchat/online-users
+  | 'closeConversation' // POST /webchat/close
+  | 'csat' // POST /webchat/csat
+  | 'transcriptEmail' // POST /webchat/transcript/email
+  | 'availability' // GET /webchat/availability
+  | 'ticket' // POST /webchat/ticket
+  | 'upload'; // Upload init / storage PUT / complete
+
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first attempt
+  timeoutMs?: number; // Per attempt, counted once the request is sent (none when unset)
+  baseDelayMs: number; // Backoff ceiling before the first retry, doubled for each further retry
+  maxDelayMs: number; // Backoff ceiling never exceeds this
+  maxRetryAfterMs: number; // Longest Retry-After / X-RateLimit-Reset wait honoured - asking for more fails at once
+  idempotent: boolean; // Repeating a request the server may already have processed is harmless
+}
+
+// Sends, edits and deletes wait at most 10s for a server's Retry-After (the visitor is watching), the rest 30s
+const DEFAULT_POLICIES: Record<RetryOperation, RetryPolicy> = {
+  // Backend deduplicates by temp_id, but keep repeats of a visitor message to a minimum
+  sendMessage: { maxAttempts: 2, timeoutMs: 15000, baseDelayMs: 1000, maxDelayMs: 5000, maxRetryAfterMs: 10000, idempotent: true },
+  // Repeating sets the same text / deletes the already deleted message
+  editMessage: { maxAttempts: 3, timeoutMs: 10000, baseDelayMs: 1000, maxDelayMs: 5000, maxRetryAfterMs: 10000, idempotent: true },
+  deleteMessage: { maxAttempts: 3, timeoutMs: 10000, baseDelayMs: 1000, maxDelayMs: 5000, maxRetryAfterMs: 10000, idempotent: true },
+  socketSend: { maxAttempts: 3, timeoutMs: 10000, baseDelayMs: 1000, maxDelayMs: 5000, maxRetryAfterMs: 10000, idempotent: true },
+  history: { maxAttempts: 3, timeoutMs: 15000, baseDelayMs: 500, maxDelayMs: 5000, maxRetryAfterMs: 30000, idempotent: true },
+  // Keyed by sessionId - repeating returns the same session
+  init: { maxAttempts: 3, timeoutMs: 15000, baseDelayMs: 1000, maxDelayMs: 8000, maxRetryAfterMs: 30000, idempotent: true },
+  presenceSession: { maxAttempts: 3, timeoutMs: 15000, baseDelayMs: 1000, maxDelayMs: 8000, maxRetryAfterMs: 30000, idempotent: true },
+  openChat: { maxAttempts: 2, timeoutMs: 10000, baseDelayMs: 1000, maxDelayMs: 5000, maxRetryAfterMs: 30000, idempotent: true },
+  chatSession: { maxAttempts: 2, timeoutMs: 15000, baseDelayMs: 1000, maxDelayMs: 5000, maxRetryAfterMs: 30000, idempotent: false },
+  onlineUsers: { maxAttempts: 2, timeoutMs: 15000, baseDelayMs: 1000, maxDelayMs: 5000, maxRetryAfterMs: 30000, idempotent: true },
+  closeConversation: { maxAttempts: 3, timeoutMs: 10000, baseDelayMs: 1000, maxDelayMs: 5000, maxRetryAfterMs: 30000, idempotent: true },
+  // One rating per conversation - the backend keeps the latest
+  csat: { maxAttempts: 3, timeoutMs: 10000, baseDelayMs: 1000, maxDelayMs: 5000, maxRetryAfterMs: 30000, idempotent: true },
+  // A repeat would send the visitor a second email
+  transcriptEmail: { maxAttempts: 2, timeoutMs: 15000, baseDelayMs: 1000, maxDelayMs: 5000, maxRetryAfterMs: 30000, idempotent: false },
+  availability: { maxAttempts: 2, timeoutMs: 10000, baseDelayMs: 1000, maxDelayMs: 5000, maxRetryAfterMs: 30000, idempotent: true },
+  // Backend deduplicates by client_ticket_id
+  ticket: { maxAttempts: 3, timeoutMs: 15000, baseDelayMs: 1000, maxDelayMs: 8000, maxRetryAfterMs: 30000, idempotent: true },
+  // Upload init creates a file record each time; the storage PUT and complete override this per call
+  upload: { maxAttempts: 3, timeoutMs: 30000, baseDelayMs: 1000, maxDelayMs: 8000, maxRetryAfterMs: 30000, idempotent: false },
+};
+
+/** Fields left undefined (e.g. an unset option passed through) don't override the default */
+function definedFields(policy?: Partial<RetryPolicy>): Partial<RetryPolicy> {
+  if (!policy) return {};
+  return Object.fromEntries(Object.entries(policy).filter(([, value]) => value !== undefined)) as Partial<RetryPolicy>;
+}
+
+let configured: Partial<Record<RetryOperation, Partial<RetryPolicy>>> = {};
+
+/**
+ * Change the policy of some operations for every client (unlisted operations and fields keep their defaults)
+ */
+export function configureRetryPolicies(overrides: Partial<Record<RetryOperation, Partial<RetryPolicy>>>): void {
+  const next = { ...configured };
+  (Object.keys(overrides) as RetryOperation[]).forEach((operation) => {
+    next[operation] = { ...next[operation], ...definedFields(overrides[operation]) };
+  });
+  configured = next;
+}
+
+/**
+ * Effective policy: defaults, then configureRetryPolicies(), then the call's own overrides
+ */
+export function getRetryPolicy(operation: RetryOperation, override?: Partial<RetryPolicy>): RetryPolicy {
+  const policy = { ...DEFAULT_POLICIES[operation], ...configured[operation], ...definedFields(override) };
+  return { ...policy, maxAttempts: Math.max(1, policy.maxAttempts) };
+}
+
+/**
+ * Wait the server asked for: Retry-After, or the reset of an exhausted X-RateLimit window
+ */
+function requestedDelay(error?: ChatApiError | null): number | undefined {
+  const rateLimit = error?.rateLimit;
+  if (rateLimit?.retryAfterMs !== undefined) {
+    return rateLimit.retryAfterMs;
+  }
+  if (rateLimit?.remaining !== undefined && rateLimit.remaining <= 0 && rateLimit.resetAt !== undefined) {
+    return Math.max(0, rateLimit.resetAt - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * The server asked a retryable call to wait longer than the policy is willing to
+ */
+function exceedsRetryAfter(policy: RetryPolicy, error: ChatApiError): boolean {
+  return error.retryable && (requestedDelay(error) ?? 0) > policy.maxRetryAfterMs;
+}
+
+/**
+ * Delay before retry number `retry` (1 = first retry)
+ * The server's Retry-After (or the reset of an exhausted X-RateLimit window) wins, capped at maxRetryAfterMs;
+ * otherwise full jitter - anywhere between 0 and min(maxDelay, baseDelay * 2^(retry - 1)), so clients that
+ * failed together don't come back together.
+ */
+export function getRetryDelay(policy: RetryPolicy, retry: number, error?: ChatApiError | null): number {
+  const requested = requestedDelay(error);
+  if (requested !== undefined) {
+    return Math.min(requested, policy.maxRetryAfterMs);
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, retry - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Whether the policy allows repeating a call that failed with this error
+ * Non-idempotent calls only retry rejections the server answered without processing (429, 503). A server
+ * asking to wait longer than maxRetryAfterMs isn't retried.
+ */
+export function shouldRetry(policy: RetryPolicy, error: ChatApiError): boolean {
+  if (!error.retryable) return false;
+  if (exceedsRetryAfter(policy, error)) return false;
+  if (policy.idempotent) return true;
+  return error.code === 'RATE_LIMIT_EXCEEDED' || error.status === 503;
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal; // Cancels the call, including a pending retry delay
+  policy?: Partial<RetryPolicy>; // Overrides for this call only
+  context?: string; // Error message prefix, e.g. "Failed to send message"
+}
+
+export interface RetryAttempt {
+  attempt: number; // 1-based
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+function cancelledError(context: string, cause?: unknown): ChatApiError {
+  return new ChatApiError(`${context}: cancelled`, { code: 'CANCELLED', retryable: false, cause });
+}
+
+/**
+ * Failure for a call the server told to come back later than the policy waits (keeps the rate limit info)
+ */
+function retryAfterTooLongError(context: string, error: ChatApiError): ChatApiError {
+  if (error.code === 'RATE_LIMIT_EXCEEDED') return error;
+  const seconds = Math.ceil((requestedDelay(error) ?? 0) / 1000);
+  return new ChatApiError(`${context}: server asked to retry in ${seconds}s`, {
+    code: 'RATE_LIMIT_EXCEEDED',
+    status: error.status,
+    details: error.details,
+    rateLimit: error.rateLimit,
+    cause: error,
+  });
+}
+
+function wait(ms: number, signal: AbortSignal | undefined, context: string): Promise<void> {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError(context, signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `run` until it succeeds, the error isn't worth retrying under the operation's policy, or attempts run out
+ * @throws ChatApiError - the last attempt's error, or CANCELLED once the signal aborts
+ */
+export async function withRetry<T>(
+  operation: RetryOperation,
+  run: (attempt: RetryAttempt) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const policy = getRetryPolicy(operation, options.policy);
+  const context = options.context ?? `${operation} failed`;
+  const { signal } = options;
+  let lastError: ChatApiError | null = null;
+
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    if (attempt > 1) {
+      await wait(getRetryDelay(policy, attempt - 1, lastError), signal, context);
+    }
+    if (signal?.aborted) {
+      throw cancelledError(context, signal.reason);
+    }
+
+    try {
+      return await run({ attempt, timeoutMs: policy.timeoutMs, signal });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw cancelledError(context, error);
+      }
+      lastError = ChatApiError.from(error, context);
+      if (attempt >= policy.maxAttempts || !shouldRetry(policy, lastError)) {
+        throw exceedsRetryAfter(policy, lastError) ? retryAfterTooLongError(context, lastError) : lastError;
+      }
+      console.warn(`[Retry] ${operation} attempt ${attempt}/${policy.maxAttempts} failed, retrying:`, lastError.message);
+    }
+  }
+
+  throw lastError ?? new ChatApiError(`${context}: no attempts made`, { code: 'UNKNOWN' });
+}
+
+/**
+ * Gateway fetch() under the operation's retry policy: rate limited, per-attempt timeout, and ChatApiError for
+ * network failures and non-2xx responses
+ * @throws ChatApiError
+ */
+export function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  context: string,
+  operation: RetryOperation,
+  options: Omit<RetryOptions, 'context'> = {}
+): Promise<Response> {
+  return withRetry(operation, async ({ timeoutMs, signal }) => {
+    let response: Response;
+    try {
+      response = await rateLimitedFetch(url, signal ? { ...init, signal } : init, timeoutMs);
+    } catch (error) {
+      throw ChatApiError.from(error, context);
+    }
+    if (!response.ok) {
+      throw await ChatApiError.fromResponse(response, context);
+    }
+    return response;
+  }, { ...options, context });
+}
@@ -11,6 +11,7 @@ const CONVERSATION_ID_KEY = 'chat_conversation_id';
 const VISITOR_ID_KEY = 'chat_visitor_id';
 const CONVERSATION_CREATED_KEY = 'chat_conversation_created';
 const SENDER_NAME_KEY = 'chat_sender_name';
+const MESSAGE_CURSORS_KEY = 'chat_message_cursors';
 
 export interface SessionInfo {
   sessionId: string;
@@ -18,6 +19,14 @@ export interface SessionInfo {
   createdAt: number;
 }
 
+/**
+ * Last message seen in a conversation (used to fetch messages missed while disconnected)
+ */
+export interface MessageCursor {
+  id: string;
+  timestamp: string;
+}
+
 /**
  * Generate a unique session ID
  */
@@ -294,6 +303,7 @@ export function clearConversation(): void {
     localStorage.removeItem(CONVERSATION_ID_KEY);
     localStorage.removeItem(VISITOR_ID_KEY);
     localStorage.removeItem(CONVERSATION_CREATED_KEY);
+    localStorage.removeItem(MESSAGE_CURSORS_KEY);
   } catch (error) {
     console.warn('[Session] Failed to clear conversation:', error);
   }
@@ -356,3 +366,37 @@ export function clearSenderName(): void {
   }
 }
 
+
+/**
+ * Get last seen message cursor for a conversation
+ */
+export function getMessageCursor(conversationId: string): MessageCursor | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(MESSAGE_CURSORS_KEY);
+    const cursors = stored ? JSON.parse(stored) : {};
+    return cursors[conversationId] || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Advance last seen message cursor for a conversation
+ * Only moves forward in time - older messages (e.g. recovered history) never rewind it
+ */
+export function advanceMessageCursor(conversationId: string, cursor: MessageCursor): void {
+  if (typeof window === 'undefined') return;
+  try {
+    const stored = localStorage.getItem(MESSAGE_CURSORS_KEY);
+    const cursors = stored ? JSON.parse(stored) : {};
+    const current: MessageCursor | undefined = cursors[conversationId];
+    if (current && new Date(current.timestamp).getTime() > new Date(cursor.timestamp).getTime()) {
+      return;
+    }
+    cursors[conversationId] = cursor;
+    localStorage.setItem(MESSAGE_CURSORS_KEY, JSON.stringify(cursors));
+  } catch (error) {
+    console.warn('[Session] Failed to store message cursor:', error);
+  }
+}
@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatApiError, isChatApiError } from './api-error';
+import { TabCoordinator } from './tab-coordinator';
+
+/**
+ * In-memory BroadcastChannel: delivers a structured clone to every other channel of the same name, like the
+ * browser does (so class instances arrive as plain objects)
+ */
+class FakeBroadcastChannel {
+  static channels = new Set<FakeBroadcastChannel>();
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.channels.add(this);
+  }
+
+  postMessage(data: unknown) {
+    const clone = structuredClone(data);
+    FakeBroadcastChannel.channels.forEach((channel) => {
+      if (channel === this || channel.name !== this.name) return;
+      queueMicrotask(() => channel.onmessage?.({ data: clone } as MessageEvent));
+    });
+  }
+
+  close() {
+    FakeBroadcastChannel.channels.delete(this);
+  }
+}
+
+type Requests = {
+  'edit-message': { payload: { id: string; text: string }; result: void };
+};
+
+describe('TabCoordinator requests', () => {
+  let leader: TabCoordinator<Record<string, never>, Requests>;
+  let follower: TabCoordinator<Record<string, never>, Requests>;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+
+    leader = new TabCoordinator('test-chat');
+    leader.start();
+    await vi.advanceTimersByTimeAsync(500); // Nobody answered the hello - this tab leads
+    follower = new TabCoordinator('test-chat');
+    follower.start();
+    await vi.advanceTimersByTimeAsync(0);
+  });
+
+  afterEach(() => {
+    follower.stop();
+    leader.stop();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('rebuilds a ChatApiError thrown by the leader with its code, status and retryable', async () => {
+    expect(leader.isLeader()).toBe(true);
+    expect(follower.isLeader()).toBe(false);
+    leader.handle('edit-message', () => {
+      throw new ChatApiError('Message can no longer be edited', { code: 'EDIT_WINDOW_EXPIRED', status: 403 });
+    });
+
+    const error = await follower.request('edit-message', { id: 'msg-1', text: 'Hi' }).catch((e: unknown) => e);
+
+    expect(isChatApiError(error, 'EDIT_WINDOW_EXPIRED')).toBe(true);
+    expect(error).toMatchObject({ message: 'Message can no longer be edited', status: 403, retryable: false });
+  });
+
+  it('keeps other leader errors as plain errors', async () => {
+    leader.handle('edit-message', () => {
+      throw new Error('Not connected');
+    });
+
+    const error = await follower.request('edit-message', { id: 'msg-1', text: 'Hi' }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(isChatApiError(error)).toBe(false);
+    expect((error as Error).message).toBe('Not connected');
+  });
+});
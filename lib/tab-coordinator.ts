@@ -0,0 +1,437 @@
+/**
+ * Cross-tab coordination over BroadcastChannel
+ * Every open tab embeds its own widget iframe, but they all share one chat session. One tab is elected
+ * leader and holds the socket; the others are followers that get state relayed from it and route
+ * requests (sends, typing, read receipts) through it.
+ *
+ * Election: the leader is the tab holding a Web Lock (navigator.locks). The browser hands it to the next
+ * waiting tab only once the leader's tab is gone, so a background tab whose timers are throttled keeps the
+ * role. The leader's heartbeat (every second, and in answer to a new tab's hello) tells followers where to
+ * send requests.
+ * Without Web Locks, a follower that hears no heartbeat for LEADER_TIMEOUT (HIDDEN_LEADER_TIMEOUT while the
+ * leader tab is in the background) or gets the leader's resign on pagehide claims leadership for a new term.
+ * Heartbeats carry the term, so a leader from an earlier term (e.g. a background tab whose late heartbeat
+ * arrives after the takeover) steps down instead of taking the role back; when two tabs claim the same term
+ * the older tab (smaller id) wins.
+ * Without BroadcastChannel (old browsers) every tab is its own leader, as before.
+ */
+
+import { ChatApiError, type ChatApiErrorCode, type RateLimitInfo } from './api-error';
+
+export type TabRole = 'leader' | 'follower';
+
+export type TabRoleListener = (role: TabRole) => void;
+export type TabEventHandler<P = unknown> = (payload: P, fromTabId: string) => void;
+export type TabRequestHandler<P = unknown, R = unknown> = (payload: P, fromTabId: string) => R | Promise<R>;
+
+/**
+ * Payload map for broadcast()/on(): event type -> payload
+ */
+export type TabEventMap = Record<string, unknown>;
+
+/**
+ * Payload map for request()/handle(): request type -> payload sent by the follower and result of the leader
+ */
+export type TabRequestMap = Record<string, { payload: unknown; result: unknown }>;
+
+type ChannelMessage =
+  | { kind: 'hello'; from: string }
+  | { kind: 'heartbeat'; from: string; term: number; hidden: boolean }
+  | { kind: 'resign'; from: string }
+  | { kind: 'event'; from: string; type: string; payload: unknown }
+  | { kind: 'request'; from: string; to: string; id: string; type: string; payload: unknown }
+  | { kind: 'response'; from: string; to: string; id: string; result?: unknown; error?: TabRequestError };
+
+/**
+ * A leader-side failure as it crosses the channel - Error instances don't survive structured cloning with
+ * their class, so a ChatApiError travels as its fields and is rebuilt in the requesting tab
+ */
+interface TabRequestError {
+  message: string;
+  code?: ChatApiErrorCode;
+  status?: number;
+  retryable?: boolean;
+  rateLimit?: RateLimitInfo;
+}
+
+const HEARTBEAT_INTERVAL = 1000;
+const LEADER_TIMEOUT = 3500; // No heartbeat for this long = leader tab is gone (election without Web Locks)
+const HIDDEN_LEADER_TIMEOUT = 65000; // Same for a leader in a background tab - browsers may run its timers once a minute
+const ELECTION_WAIT = 400; // Listen for an existing leader before claiming
+const DEFAULT_REQUEST_TIMEOUT = 10000;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+function hasWebLocks(): boolean {
+  return typeof navigator !== 'undefined' && !!navigator.locks;
+}
+
+function isPageHidden(): boolean {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+}
+
+/**
+ * Ids start with the creation time, so comparing them as strings tells which tab is older
+ */
+function createTabId(): string {
+  return `${Date.now().toString(36).padStart(10, '0')}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function toRequestError(error: unknown): TabRequestError {
+  if (error instanceof ChatApiError) {
+    return {
+      message: error.message,
+      code: error.code,
+      status: error.status,
+      retryable: error.retryable,
+      rateLimit: error.rateLimit,
+    };
+  }
+  return { message: error instanceof Error ? error.message : String(error) };
+}
+
+function fromRequestError(error: TabRequestError): Error {
+  if (error.code === undefined) {
+    return new Error(error.message);
+  }
+  return new ChatApiError(error.message, {
+    code: error.code,
+    status: error.status,
+    retryable: error.retryable,
+    rateLimit: error.rateLimit,
+  });
+}
+
+export class TabCoordinator<Events extends TabEventMap = TabEventMap, Requests extends TabRequestMap = TabRequestMap> {
+  readonly tabId = createTabId();
+  private channelName: string;
+  private channel: BroadcastChannel | null = null;
+  private role: TabRole = 'follower';
+  private settled = false; // Role was announced to listeners at least once
+  private leaderId: string | null = null;
+  private lastHeartbeat = 0;
+  private term = 0; // Latest leadership term seen - every takeover starts a new one
+  private leaderHidden = false; // Leader's tab was in the background at its last heartbeat
+  private lockAbort?: AbortController; // Cancels this tab's place in the queue for the leader lock
+  private releaseLock?: () => void; // Set while this tab holds the leader lock
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private watchdogTimer?: ReturnType<typeof setInterval>;
+  private electionTimer?: ReturnType<typeof setTimeout>;
+  private roleListeners = new Set<TabRoleListener>();
+  private eventHandlers = new Map<string, Set<TabEventHandler>>();
+  private requestHandlers = new Map<string, TabRequestHandler>();
+  private pending = new Map<string, PendingRequest>();
+  private requestCounter = 0;
+
+  constructor(channelName: string) {
+    this.channelName = channelName;
+  }
+
+  start(): void {
+    if (typeof window === 'undefined' || this.channel || this.role === 'leader') return;
+
+    if (typeof BroadcastChannel === 'undefined') {
+      this.becomeLeader();
+      return;
+    }
+
+    this.channel = new BroadcastChannel(this.channelName);
+    this.channel.onmessage = (event: MessageEvent<ChannelMessage>) => this.handleChannelMessage(event.data);
+    window.addEventListener('pagehide', this.handlePageHide);
+
+    // Ask for the current leader
+    this.post({ kind: 'hello', from: this.tabId });
+
+    if (hasWebLocks()) {
+      this.requestLeaderLock();
+      return;
+    }
+
+    // Claim leadership if nobody answers, or once the leader stops sending heartbeats
+    this.scheduleElection(ELECTION_WAIT);
+    this.watchdogTimer = setInterval(() => {
+      const timeout = this.leaderHidden ? HIDDEN_LEADER_TIMEOUT : LEADER_TIMEOUT;
+      if (this.role === 'follower' && this.leaderId && Date.now() - this.lastHeartbeat > timeout) {
+        console.warn('[Tabs] Leader tab stopped responding, taking over');
+        this.leaderId = null;
+        this.becomeLeader();
+      }
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  /**
+   * Queue for the leader lock; this tab leads from the moment it's granted until stop()
+   */
+  private requestLeaderLock(): void {
+    const abort = new AbortController();
+    this.lockAbort = abort;
+    navigator.locks
+      .request(`${this.channelName}:leader`, { signal: abort.signal }, () => new Promise<void>((release) => {
+        this.releaseLock = release;
+        this.becomeLeader();
+      }))
+      .catch((error) => {
+        if (!abort.signal.aborted) {
+          console.warn('[Tabs] Failed to queue for the leader lock:', error);
+        }
+      });
+  }
+
+  /**
+   * Leave the group: hand leadership over and reject requests in flight
+   */
+  stop(): void {
+    if (this.role === 'leader') {
+      this.post({ kind: 'resign', from: this.tabId });
+    }
+    clearInterval(this.heartbeatTimer);
+    clearInterval(this.watchdogTimer);
+    clearTimeout(this.electionTimer);
+    this.lockAbort?.abort();
+    this.lockAbort = undefined;
+    this.releaseLock?.();
+    this.releaseLock = undefined;
+    this.pending.forEach((request) => {
+      clearTimeout(request.timer);
+      request.reject(new Error('Tab coordinator stopped'));
+    });
+    this.pending.clear();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide);
+    }
+    this.channel?.close();
+    this.channel = null;
+    this.role = 'follower';
+    this.settled = false;
+    this.leaderId = null;
+  }
+
+  isLeader(): boolean {
+    return this.role === 'leader';
+  }
+
+  /**
+   * Listen for role changes: fires once the first election settles, then whenever this tab takes over or steps down
+   * Returns an unsubscribe function.
+   */
+  onRoleChange(listener: TabRoleListener): () => void {
+    this.roleListeners.add(listener);
+    return () => {
+      this.roleListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send an event to every other tab
+   */
+  broadcast<K extends keyof Events & string>(type: K, payload?: Events[K]): void {
+    this.post({ kind: 'event', from: this.tabId, type, payload });
+  }
+
+  /**
+   * Listen for events broadcast by other tabs. Returns an unsubscribe function.
+   */
+  on<K extends keyof Events & string>(type: K, handler: TabEventHandler<Events[K]>): () => void {
+    const handlers = this.eventHandlers.get(type) ?? new Set<TabEventHandler>();
+    // Payloads come off the channel untyped; the map says what each type carries
+    const untyped = handler as TabEventHandler;
+    handlers.add(untyped);
+    this.eventHandlers.set(type, handlers);
+    return () => {
+      handlers.delete(untyped);
+    };
+  }
+
+  /**
+   * Register what the leader does for a request type (used by whichever tab is leader at the time)
+   */
+  handle<K extends keyof Requests & string>(
+    type: K,
+    handler: TabRequestHandler<Requests[K]['payload'], Requests[K]['result']>
+  ): void {
+    this.requestHandlers.set(type, handler as TabRequestHandler);
+  }
+
+  /**
+   * Ask the leader to do something and wait for its answer
+   * Runs locally when this tab is the leader. Rejects on timeout or when no leader is known, and with the
+   * leader's error when its handler fails (a ChatApiError keeps its code, status and retryable).
+   */
+  async request<K extends keyof Requests & string>(
+    type: K,
+    payload?: Requests[K]['payload'],
+    timeoutMs: number = DEFAULT_REQUEST_TIMEOUT
+  ): Promise<Requests[K]['result']> {
+    if (this.role === 'leader' || !this.channel) {
+      return (await this.runHandler(type, payload, this.tabId)) as Requests[K]['result'];
+    }
+    const leaderId = this.leaderId;
+    if (!leaderId) {
+      throw new Error('No leader tab available');
+    }
+
+    const id = `${this.tabId}:${++this.requestCounter}`;
+    return new Promise<Requests[K]['result']>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Leader tab did not answer "${type}" within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject, timer });
+      this.post({ kind: 'request', from: this.tabId, to: leaderId, id, type, payload });
+    });
+  }
+
+  private async runHandler(type: string, payload: unknown, fromTabId: string): Promise<unknown> {
+    const handler = this.requestHandlers.get(type);
+    if (!handler) {
+      throw new Error(`No handler for "${type}"`);
+    }
+    return handler(payload, fromTabId);
+  }
+
+  private handlePageHide = () => {
+    this.stop();
+  };
+
+  private post(message: ChannelMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.warn('[Tabs] Failed to post to other tabs:', error);
+    }
+  }
+
+  private postHeartbeat(): void {
+    this.post({ kind: 'heartbeat', from: this.tabId, term: this.term, hidden: isPageHidden() });
+  }
+
+  private scheduleElection(delay: number): void {
+    clearTimeout(this.electionTimer);
+    this.electionTimer = setTimeout(() => {
+      if (this.role === 'follower' && !this.leaderId) {
+        this.becomeLeader();
+      }
+    }, delay);
+  }
+
+  private becomeLeader(): void {
+    if (this.role === 'leader') return;
+    this.role = 'leader';
+    this.settled = true;
+    this.leaderId = this.tabId;
+    this.term++;
+    this.postHeartbeat();
+    if (this.channel) {
+      this.heartbeatTimer = setInterval(() => this.postHeartbeat(), HEARTBEAT_INTERVAL);
+    }
+    this.notifyRole();
+  }
+
+  private becomeFollower(leaderId: string): void {
+    this.leaderId = leaderId;
+    this.lastHeartbeat = Date.now();
+    clearTimeout(this.electionTimer);
+    if (this.role === 'follower' && this.settled) return;
+    if (this.role === 'leader') {
+      clearInterval(this.heartbeatTimer);
+    }
+    this.role = 'follower';
+    this.settled = true;
+    this.notifyRole();
+  }
+
+  private notifyRole(): void {
+    this.roleListeners.forEach((listener) => {
+      try {
+        listener(this.role);
+      } catch (error) {
+        console.error('[Tabs] Role listener failed:', error);
+      }
+    });
+  }
+
+  private handleChannelMessage(message: ChannelMessage): void {
+    if (!message || message.from === this.tabId) return;
+
+    switch (message.kind) {
+      case 'hello':
+        // New tab - answer right away so it doesn't wait for the next heartbeat
+        if (this.role === 'leader') {
+          this.postHeartbeat();
+        }
+        break;
+
+      case 'heartbeat': {
+        // With Web Locks only the lock holder sends heartbeats, so terms don't matter
+        const byTerm = !this.lockAbort;
+        // A leader from an earlier term, e.g. a throttled background tab that missed the takeover
+        const stale = byTerm && message.term < this.term;
+        // Two leaders claimed the same term at once: the older tab keeps the role
+        const lostTie = byTerm && message.term === this.term && message.from > this.tabId;
+        if (this.role === 'leader' && (this.releaseLock || stale || lostTie)) {
+          // Answer, so the other tab steps down
+          this.postHeartbeat();
+          break;
+        }
+        if (stale) break;
+        this.term = message.term;
+        this.leaderHidden = message.hidden;
+        this.becomeFollower(message.from);
+        break;
+      }
+
+      case 'resign':
+        if (message.from === this.leaderId) {
+          this.leaderId = null;
+          // With Web Locks the browser hands the lock to the next tab, which announces itself
+          if (!this.lockAbort) {
+            // Small random delay so the remaining tabs don't all claim at the same moment
+            this.scheduleElection(Math.random() * ELECTION_WAIT);
+          }
+        }
+        break;
+
+      case 'event':
+        this.eventHandlers.get(message.type)?.forEach((handler) => {
+          try {
+            handler(message.payload, message.from);
+          } catch (error) {
+            console.error(`[Tabs] Handler for "${message.type}" failed:`, error);
+          }
+        });
+        break;
+
+      case 'request':
+        if (message.to !== this.tabId) break;
+        this.runHandler(message.type, message.payload, message.from).then(
+          (result) => this.post({ kind: 'response', from: this.tabId, to: message.from, id: message.id, result }),
+          (error) => this.post({
+            kind: 'response',
+            from: this.tabId,
+            to: message.from,
+            id: message.id,
+            error: toRequestError(error),
+          })
+        );
+        break;
+
+      case 'response': {
+        if (message.to !== this.tabId) break;
+        const request = this.pending.get(message.id);
+        if (!request) break;
+        this.pending.delete(message.id);
+        clearTimeout(request.timer);
+        if (message.error !== undefined) {
+          request.reject(fromRequestError(message.error));
+        } else {
+          request.resolve(message.result);
+        }
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Conversation transcripts
+ * Turns a message list into a downloadable plain-text, HTML or JSON file with sender names, timestamps and
+ * attachment links. Works on whatever messages the caller has - the localStorage cache, or the full history
+ * from ChatAPI.getConversationMessages().
+ */
+
+import type { MessageSender } from './protocol';
+
+export type TranscriptFormat = 'text' | 'html' | 'json';
+
+export interface TranscriptMessage {
+  id: string;
+  text: string;
+  sender: MessageSender;
+  timestamp: string;
+  senderName?: string;
+  attachments?: unknown; // As received: { items: [{ type, payload: { url, filename } }] } or a plain list
+}
+
+export interface TranscriptAttachment {
+  url: string;
+  filename?: string;
+  type?: string;
+}
+
+export interface TranscriptOptions {
+  title?: string;
+  conversationId?: string;
+  exportedAt?: Date;
+}
+
+export interface TranscriptFile {
+  content: string;
+  mimeType: string;
+  filename: string;
+}
+
+const FORMATS: Record<TranscriptFormat, { mimeType: string; extension: string }> = {
+  text: { mimeType: 'text/plain;charset=utf-8', extension: 'txt' },
+  html: { mimeType: 'text/html;charset=utf-8', extension: 'html' },
+  json: { mimeType: 'application/json', extension: 'json' },
+};
+
+const DEFAULT_SENDER_NAMES: Record<MessageSender, string> = {
+  user: 'You',
+  agent: 'Agent',
+  bot: 'Assistant',
+  system: 'System',
+};
+
+/**
+ * Attachment links of a message, whichever shape the backend / outbox used (http(s) URLs only)
+ */
+export function getAttachmentLinks(attachments: unknown): TranscriptAttachment[] {
+  const list = Array.isArray(attachments)
+    ? attachments
+    : Array.isArray((attachments as any)?.items) ? (attachments as any).items : [];
+  return list
+    .map((item: any): TranscriptAttachment | null => {
+      const payload = item?.payload ?? item;
+      const url = payload?.url || payload?.publicUrl;
+      if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) return null;
+      return {
+        url,
+        filename: payload.filename || payload.name || undefined,
+        type: item?.type || undefined,
+      };
+    })
+    .filter((link: TranscriptAttachment | null): link is TranscriptAttachment => link !== null);
+}
+
+function senderLabel(message: TranscriptMessage): string {
+  return message.senderName || DEFAULT_SENDER_NAMES[message.sender] || message.sender;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function toText(messages: TranscriptMessage[], title: string, exportedAt: Date): string {
+  const lines = [title, `Exported ${exportedAt.toLocaleString()}`, ''];
+  messages.forEach((message) => {
+    lines.push(`[${new Date(message.timestamp).toLocaleString()}] ${senderLabel(message)}: ${message.text}`);
+    getAttachmentLinks(message.attachments).forEach((link) => {
+      lines.push(`    Attachment: ${link.filename ? `${link.filename} - ` : ''}${link.url}`);
+    });
+  });
+  return lines.join('\n') + '\n';
+}
+
+function toHtml(messages: TranscriptMessage[], title: string, exportedAt: Date): string {
+  const rows = messages.map((message) => {
+    const links = getAttachmentLinks(message.attachments)
+      .map((link) => `<li><a href="${escapeHtml(link.url)}">${escapeHtml(link.filename || link.url)}</a></li>`)
+      .join('');
+    return [
+      `<div class="message ${escapeHtml(message.sender)}">`,
+      `<div class="meta"><strong>${escapeHtml(senderLabel(message))}</strong> <time datetime="${escapeHtml(message.timestamp)}">${escapeHtml(new Date(message.timestamp).toLocaleString())}</time></div>`,
+      message.text ? `<div class="text">${escapeHtml(message.text).replace(/\n/g, '<br>')}</div>` : '',
+      links ? `<ul class="attachments">${links}</ul>` : '',
+      '</div>',
+    ].join('');
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; max-width: 720px; margin: 24px auto; color: #111827; }
+.message { padding: 8px 0; border-bottom: 1px solid #e5e7eb; }
+.meta { font-size: 12px; color: #6b7280; }
+.system .text { font-style: italic; color: #92400e; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>Exported ${escapeHtml(exportedAt.toLocaleString())}</p>
+${rows.join('\n')}
+</body>
+</html>
+`;
+}
+
+function toJson(messages: TranscriptMessage[], title: string, exportedAt: Date, conversationId?: string): string {
+  return JSON.stringify({
+    title,
+    conversation_id: conversationId,
+    exported_at: exportedAt.toISOString(),
+    messages: messages.map((message) => ({
+      id: message.id,
+      sender: message.sender,
+      sender_name: senderLabel(message),
+      timestamp: message.timestamp,
+      text: message.text,
+      attachments: getAttachmentLinks(message.attachments),
+    })),
+  }, null, 2);
+}
+
+/**
+ * Render messages (oldest first) as a transcript file
+ */
+export function buildTranscript(messages: TranscriptMessage[], format: TranscriptFormat, options: TranscriptOptions = {}): TranscriptFile {
+  const title = options.title || 'Chat transcript';
+  const exportedAt = options.exportedAt || new Date();
+  const sorted = [...messages].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const content = format === 'html'
+    ? toHtml(sorted, title, exportedAt)
+    : format === 'json'
+      ? toJson(sorted, title, exportedAt, options.conversationId)
+      : toText(sorted, title, exportedAt);
+
+  const { mimeType, extension } = FORMATS[format];
+  return { content, mimeType, filename: `chat-transcript-${exportedAt.toISOString().slice(0, 10)}.${extension}` };
+}
+
+/**
+ * Save a transcript file through the browser's download
+ */
+export function downloadTranscript(file: TranscriptFile): void {
+  if (typeof window === 'undefined') return;
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
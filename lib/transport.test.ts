@@ -0,0 +1,54 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatAPI } from './api';
+import { ChatApiError } from './api-error';
+import { plugins, type OutgoingMessage } from './plugins';
+import { HttpTransport, HybridTransport, SocketTransport } from './transport';
+import type { ChatWebSocketNative } from './ws-native';
+
+describe('HybridTransport.send', () => {
+  const beforeSend = vi.fn((message: OutgoingMessage): OutgoingMessage | false => ({ ...message, text: `${message.text} [tagged]` }));
+  let unregister: () => void;
+
+  beforeEach(() => {
+    beforeSend.mockClear();
+    unregister = plugins.register({ name: 'tagger', beforeSend });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    unregister();
+    vi.restoreAllMocks();
+  });
+
+  it('runs beforeSend once and sends the prepared message over the socket when HTTP is unreachable', async () => {
+    const api = {
+      sendMessage: vi.fn(async () => ({
+        success: false,
+        error: new ChatApiError('Failed to send message: network error', { code: 'NETWORK_ERROR' }),
+      })),
+    } as unknown as ChatAPI;
+    const socket = {
+      isConnected: () => true,
+      sendMessage: vi.fn(async () => ({ message_id: 'msg-1', conversation_id: 'conv-1' })),
+    } as unknown as ChatWebSocketNative;
+    const transport = new HybridTransport(new HttpTransport(api), new SocketTransport(() => socket, api));
+
+    const result = await transport.send('Hello', { temp_id: 'temp-1' });
+
+    expect(result).toMatchObject({ via: 'socket', message_id: 'msg-1' });
+    expect(beforeSend).toHaveBeenCalledTimes(1);
+    const prepared = { text: 'Hello [tagged]', temp_id: 'temp-1' };
+    expect(api.sendMessage).toHaveBeenCalledWith('Hello', expect.objectContaining({ prepared: expect.objectContaining(prepared) }));
+    expect(socket.sendMessage).toHaveBeenCalledWith('Hello', 'temp-1', expect.objectContaining({ prepared: expect.objectContaining(prepared) }));
+  });
+
+  it('rejects with CANCELLED without sending when a plugin cancels the message', async () => {
+    beforeSend.mockImplementationOnce(() => false);
+    const api = { sendMessage: vi.fn() } as unknown as ChatAPI;
+    const transport = new HybridTransport(new HttpTransport(api), new SocketTransport(() => null, api));
+
+    await expect(transport.send('Hello')).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(api.sendMessage).not.toHaveBeenCalled();
+  });
+});
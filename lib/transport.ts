@@ -0,0 +1,335 @@
+/**
+ * Chat transports
+ * One interface for sending, loading history, receiving and presence, whatever carries it:
+ * - http: everything over the Gateway's HTTP API, receiving by long-polling /webchat/messages
+ * - socket: sends over Socket.IO (acknowledged), receiving from the socket; history and presence stay on HTTP
+ *   (the socket has no history event, and its online-users list is admin-only)
+ * - hybrid (default): sends over HTTP and falls back to the socket when the Gateway can't be reached,
+ *   receiving from the socket (which itself falls back to polling)
+ * Components talk to a ChatTransport and never pick between ChatAPI and ChatWebSocketNative themselves.
+ */
+
+import { ChatAPI, Message } from './api';
+import { ChatWebSocketNative } from './ws-native';
+import { ChatApiError } from './api-error';
+import { normalizeMessage, type ChatMessagePayload } from './protocol';
+import { getSessionInfo, getConversationId, advanceMessageCursor, getMessageCursor, type MessageCursor } from './session';
+import { PollingReceiver } from './polling-transport';
+import { MessageDeduplicator } from './message-dedup';
+import { GATEWAY_URL } from './gateway';
+import { plugins, type OutgoingMessage } from './plugins';
+import type { AttachmentItem, OnlineUser } from './types';
+import type { ConnectionQualityPayload } from './connection-quality';
+
+export type TransportMode = 'http' | 'socket' | 'hybrid';
+
+const TRANSPORT_MODES: TransportMode[] = ['http', 'socket', 'hybrid'];
+
+export interface TransportSendOptions {
+  temp_id?: string; // Client-generated temp id for optimistic message replacement
+  attachments?: { items: AttachmentItem[] };
+  connection_quality?: ConnectionQualityPayload; // Sent with HTTP sends; socket sends attach their own
+  prepared?: OutgoingMessage; // Already through plugins' beforeSend - sent as is, hooks not run again
+}
+
+export interface TransportSendResult {
+  via: 'http' | 'socket'; // What actually carried the message
+  message_id?: string; // Real message id replacing the temp_id
+  conversation_id?: string;
+  message?: Message; // Legacy HTTP response carrying the stored message
+  conversationClosed?: boolean; // Previous conversation was closed, the message started a new one
+}
+
+export interface HistoryPage {
+  messages: ChatMessagePayload[]; // Oldest first
+  hasMore: boolean; // Earlier messages exist before this page
+}
+
+export type TransportMessageListener = (message: ChatMessagePayload) => void;
+
+export interface ChatTransport {
+  readonly mode: TransportMode;
+  /**
+   * Send a visitor message. Resolves once the server accepted it; throws ChatApiError otherwise.
+   */
+  send(text: string, options?: TransportSendOptions): Promise<TransportSendResult>;
+  /**
+   * Messages of a conversation (or of the current session when none is given), oldest first
+   * With a cursor, only messages after it.
+   */
+  history(conversationId?: string, after?: MessageCursor | null): Promise<ChatMessagePayload[]>;
+  /**
+   * The latest page of a conversation, or the page before a cursor (the oldest message loaded so far)
+   */
+  historyPage(conversationId: string, before?: MessageCursor | null): Promise<HistoryPage>;
+  /**
+   * Listen for incoming messages. Returns an unsubscribe function.
+   */
+  subscribe(listener: TransportMessageListener): () => void;
+  /**
+   * Online visitors of the tenant (admin only)
+   */
+  presence(): Promise<OnlineUser[]>;
+}
+
+/**
+ * Normalize raw history and keep only messages after the cursor (the backend may ignore it), oldest first
+ */
+function toHistory(raw: unknown[], after?: MessageCursor | null): ChatMessagePayload[] {
+  const cursorTime = after ? new Date(after.timestamp).getTime() : 0;
+  return raw
+    .map((item) => normalizeMessage(item))
+    .filter((message): message is ChatMessagePayload => message !== null)
+    .filter((message) => message.id !== after?.id && new Date(message.timestamp).getTime() >= cursorTime)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Fetch a history page and keep only messages before the cursor (the backend may ignore it), oldest first
+ */
+async function fetchHistoryPage(api: ChatAPI, conversationId: string, before?: MessageCursor | null): Promise<HistoryPage> {
+  const page = await api.getConversationMessagesPage(conversationId, { before: before?.id });
+  const cursorTime = before ? new Date(before.timestamp).getTime() : Infinity;
+  const messages = page.messages
+    .map((item) => normalizeMessage(item))
+    .filter((message): message is ChatMessagePayload => message !== null)
+    .filter((message) => message.id !== before?.id && new Date(message.timestamp).getTime() <= cursorTime)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  // Nothing older came back - stop paging even if the backend claims more
+  return { messages, hasMore: page.hasMore && messages.length > 0 };
+}
+
+/**
+ * Run plugins' beforeSend for a send that may switch paths; throws CANCELLED when a plugin cancels it
+ */
+async function prepareMessage(text: string, options: TransportSendOptions): Promise<OutgoingMessage> {
+  const prepared = await plugins.runBeforeSend(
+    { text, temp_id: options.temp_id, attachments: options.attachments },
+    { channel: 'http', conversationId: getConversationId() || undefined } // HTTP is tried first
+  );
+  if (prepared.cancelled) {
+    throw new ChatApiError(`Message cancelled by plugin "${prepared.plugin}"`, { code: 'CANCELLED', retryable: false });
+  }
+  return prepared.message;
+}
+
+export class HttpTransport implements ChatTransport {
+  readonly mode: TransportMode = 'http';
+  private api: ChatAPI;
+  private listeners = new Set<TransportMessageListener>();
+  private poller: PollingReceiver | null = null;
+  private dedup = new MessageDeduplicator();
+
+  constructor(api: ChatAPI) {
+    this.api = api;
+  }
+
+  async send(text: string, options: TransportSendOptions = {}): Promise<TransportSendResult> {
+    const response = await this.api.sendMessage(text, {
+      temp_id: options.temp_id,
+      attachments: options.attachments,
+      connection_quality: options.connection_quality,
+      prepared: options.prepared,
+    });
+    if (!response.success) {
+      throw response.error ?? new ChatApiError('Failed to send message', { code: 'UNKNOWN' });
+    }
+    return {
+      via: 'http',
+      message_id: response.message_id,
+      conversation_id: response.conversation_id,
+      message: response.message,
+      conversationClosed: response.conversationClosed,
+    };
+  }
+
+  async history(conversationId?: string, after?: MessageCursor | null): Promise<ChatMessagePayload[]> {
+    const raw = conversationId
+      ? await this.api.getConversationMessages(conversationId, after ? { after: after.id, since: after.timestamp } : undefined)
+      : await this.api.getMessages();
+    return toHistory(raw, after);
+  }
+
+  historyPage(conversationId: string, before?: MessageCursor | null): Promise<HistoryPage> {
+    return fetchHistoryPage(this.api, conversationId, before);
+  }
+
+  /**
+   * Long-polls while anyone is listening
+   */
+  subscribe(listener: TransportMessageListener): () => void {
+    this.listeners.add(listener);
+    if (!this.poller) {
+      this.poller = new PollingReceiver({
+        baseUrl: GATEWAY_URL,
+        getHeaders: () => this.api.getHeaders(),
+        getTarget: () => ({
+          conversationId: getConversationId() || undefined,
+          sessionId: getSessionInfo().sessionId,
+        }),
+        getCursor: (conversationId) => getMessageCursor(conversationId),
+        onMessage: (message) => this.deliver(message),
+      });
+      this.poller.start();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.poller?.stop();
+        this.poller = null;
+      }
+    };
+  }
+
+  presence(): Promise<OnlineUser[]> {
+    return this.api.getOnlineUsers();
+  }
+
+  private deliver(message: ChatMessagePayload): void {
+    if (!this.dedup.markIfNew(message)) return;
+    // Next poll continues after this message
+    if (message.conversation_id && !message.id.startsWith('temp-')) {
+      advanceMessageCursor(message.conversation_id, { id: message.id, timestamp: message.timestamp });
+    }
+    const received = plugins.runOnReceive(message);
+    if (!received) return;
+    this.listeners.forEach((listener) => listener(received));
+  }
+}
+
+export class SocketTransport implements ChatTransport {
+  readonly mode: TransportMode = 'socket';
+  private getSocket: () => ChatWebSocketNative | null;
+  private api: ChatAPI;
+
+  /**
+   * @param getSocket - Current socket client (the widget replaces it on re-init, so it's looked up per call)
+   * @param api - Used for history and presence
+   */
+  constructor(getSocket: () => ChatWebSocketNative | null, api: ChatAPI) {
+    this.getSocket = getSocket;
+    this.api = api;
+  }
+
+  isAvailable(): boolean {
+    return !!this.getSocket()?.isConnected();
+  }
+
+  async send(text: string, options: TransportSendOptions = {}): Promise<TransportSendResult> {
+    const socket = this.getSocket();
+    if (!socket || !socket.isConnected()) {
+      throw new ChatApiError('Failed to send message: Socket.IO is not connected', { code: 'NETWORK_ERROR' });
+    }
+    const ack = await socket.sendMessage(text, options.temp_id, { attachments: options.attachments, prepared: options.prepared });
+    return { via: 'socket', message_id: ack.message_id, conversation_id: ack.conversation_id };
+  }
+
+  async history(conversationId?: string, after?: MessageCursor | null): Promise<ChatMessagePayload[]> {
+    const raw = conversationId
+      ? await this.api.getConversationMessages(conversationId, after ? { after: after.id, since: after.timestamp } : undefined)
+      : await this.api.getMessages();
+    return toHistory(raw, after);
+  }
+
+  historyPage(conversationId: string, before?: MessageCursor | null): Promise<HistoryPage> {
+    return fetchHistoryPage(this.api, conversationId, before);
+  }
+
+  /**
+   * Listens on the socket current at the time of the call - subscribe again after the socket is replaced
+   */
+  subscribe(listener: TransportMessageListener): () => void {
+    const socket = this.getSocket();
+    if (!socket) {
+      console.warn('[Transport] No socket to subscribe to yet');
+      return () => {};
+    }
+    return socket.addMessageListener(listener);
+  }
+
+  presence(): Promise<OnlineUser[]> {
+    return this.api.getOnlineUsers();
+  }
+}
+
+export class HybridTransport implements ChatTransport {
+  readonly mode: TransportMode = 'hybrid';
+  private http: HttpTransport;
+  private socket: SocketTransport;
+
+  constructor(http: HttpTransport, socket: SocketTransport) {
+    this.http = http;
+    this.socket = socket;
+  }
+
+  /**
+   * HTTP first; when the Gateway can't be reached but the socket is up, the socket carries it
+   * (same temp_id, so a request that did arrive is deduplicated by the backend)
+   * Plugins' beforeSend runs once here, and both paths send the message it prepared.
+   */
+  async send(text: string, options: TransportSendOptions = {}): Promise<TransportSendResult> {
+    const prepared = options.prepared ?? await prepareMessage(text, options);
+    const sendOptions: TransportSendOptions = { ...options, prepared };
+    try {
+      return await this.http.send(text, sendOptions);
+    } catch (error) {
+      const unreachable = error instanceof ChatApiError && (error.code === 'NETWORK_ERROR' || error.code === 'TIMEOUT');
+      if (!unreachable || !this.socket.isAvailable()) {
+        throw error;
+      }
+      console.warn('[Transport] HTTP send failed, sending over Socket.IO instead:', error.message);
+      return this.socket.send(text, sendOptions);
+    }
+  }
+
+  history(conversationId?: string, after?: MessageCursor | null): Promise<ChatMessagePayload[]> {
+    return this.http.history(conversationId, after);
+  }
+
+  historyPage(conversationId: string, before?: MessageCursor | null): Promise<HistoryPage> {
+    return this.http.historyPage(conversationId, before);
+  }
+
+  subscribe(listener: TransportMessageListener): () => void {
+    return this.socket.subscribe(listener);
+  }
+
+  presence(): Promise<OnlineUser[]> {
+    return this.http.presence();
+  }
+}
+
+export interface TransportDeps {
+  api: ChatAPI;
+  getSocket?: () => ChatWebSocketNative | null; // Required for socket and hybrid
+}
+
+export function createTransport(mode: TransportMode, { api, getSocket = () => null }: TransportDeps): ChatTransport {
+  switch (mode) {
+    case 'http':
+      return new HttpTransport(api);
+    case 'socket':
+      return new SocketTransport(getSocket, api);
+    case 'hybrid':
+      return new HybridTransport(new HttpTransport(api), new SocketTransport(getSocket, api));
+  }
+}
+
+/**
+ * Transport chosen by the embedding site: `transport` URL param (set by the widget loader from
+ * ChatWidgetConfig.transport), then window.ChatWidgetConfig.transport, else hybrid
+ */
+export function getTransportMode(): TransportMode {
+  if (typeof window === 'undefined') {
+    return 'hybrid';
+  }
+  const requested = new URLSearchParams(window.location.search).get('transport')
+    || (window as any).ChatWidgetConfig?.transport;
+  if (requested && (TRANSPORT_MODES as string[]).includes(requested)) {
+    return requested as TransportMode;
+  }
+  if (requested) {
+    console.warn(`[Transport] Unknown transport "${requested}", using hybrid`);
+  }
+  return 'hybrid';
+}
@@ -0,0 +1,35 @@
+/**
+ * Types shared by the HTTP client, the Socket.IO client and the transports
+ * Import from here in new code; lib/api.ts and lib/ws-native.ts re-export them for existing imports.
+ */
+
+/** Parent website the widget is embedded in (passed by the widget loader as URL params) */
+export interface WebsiteInfo {
+  domain?: string;
+  origin?: string;
+  url?: string;
+  referrer?: string;
+  siteId?: string;
+}
+
+/** Logged-in visitor details, sent along with their messages */
+export interface UserInfo {
+  name?: string;
+  email?: string;
+  phone?: string;
+  [key: string]: any; // Allow additional user properties
+}
+
+export interface OnlineUser {
+  userId: string;
+  sessionId?: string;
+  connectedAt: string;
+  domain?: string;
+  origin?: string;
+  url?: string;
+}
+
+export interface AttachmentItem {
+  type: 'image' | 'video' | 'audio' | 'document';
+  payload: { url: string; filename?: string; content_type?: string; size?: number };
+}
@@ -1,9 +1,12 @@
 /**
  * Anonymous file upload for Chat Widget (presigned flow).
  * POST /api/gw/v1/webchat/conversations/:conversationId/upload/init -> PUT to S3 -> POST .../upload/complete
+ * Files for a message left offline (no conversation yet) use /api/gw/v1/webchat/sessions/:sessionId/upload/... instead.
  */
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_GATEWAY_URL || process.env.NEXT_PUBLIC_API_URL || 'https://api-gateway-dfcflow.fly.dev';
+import { ChatApiError } from './api-error';
+import { fetchWithRetry, withRetry, type RetryOptions, type RetryPolicy } from './retry-policy';
+import { GATEWAY_URL, getGatewayHeaders } from './gateway';
 
 export interface UploadResult {
   publicUrl: string;
@@ -38,30 +41,54 @@ export interface CompleteUploadResponse {
 
 export type GetHeaders = () => HeadersInit;
 
+/** Conversation ID, or the presence session for uploads before any conversation exists */
+export type UploadScope = string | { sessionId: string };
+
+export interface UploadOptions {
+  signal?: AbortSignal; // Cancels the upload, including pending retries
+}
+
+// Completing the same fileId / uploadToken twice, or re-PUTting the same object, is harmless
+const IDEMPOTENT: Partial<RetryPolicy> = { idempotent: true };
+
 /**
  * Upload service for anonymous Chat Widget users.
- * Uses conversation ID to scope uploads (no auth).
+ * Uses conversation ID (or the presence session) to scope uploads (no auth).
  */
 export class UploadService {
   private baseUrl: string;
   private getHeaders: GetHeaders;
 
-  constructor(baseUrl: string = API_BASE_URL, getHeaders?: GetHeaders) {
+  constructor(baseUrl: string = GATEWAY_URL, getHeaders?: GetHeaders) {
     this.baseUrl = baseUrl.replace(/\/$/, '');
-    this.getHeaders = getHeaders || (() => ({
-      'Content-Type': 'application/json',
-      ...(process.env.NEXT_PUBLIC_GATEWAY_API_KEY || process.env.NEXT_PUBLIC_API_KEY
-        ? { Authorization: `Bearer ${process.env.NEXT_PUBLIC_GATEWAY_API_KEY || process.env.NEXT_PUBLIC_API_KEY}` }
-        : {}),
-    }));
+    this.getHeaders = getHeaders || (() => getGatewayHeaders());
+  }
+
+  /**
+   * Gateway fetch() (rate limited, upload retry policy) that throws ChatApiError for network failures and non-2xx responses
+   */
+  private request(url: string, init: RequestInit, context: string, options: Omit<RetryOptions, 'context'> = {}): Promise<Response> {
+    return fetchWithRetry(url, init, context, 'upload', options);
+  }
+
+  private uploadUrl(scope: UploadScope, step: 'init' | 'complete'): string {
+    const path = typeof scope === 'string'
+      ? `conversations/${encodeURIComponent(scope)}`
+      : `sessions/${encodeURIComponent(scope.sessionId)}`;
+    return `${this.baseUrl}/api/gw/v1/webchat/${path}/upload/${step}`;
   }
 
   /**
    * Request presigned URL for upload (step 1).
+   * @throws ChatApiError
    */
-  async initUpload(conversationId: string, params: { originalName: string; mimeType: string; size: number }): Promise<InitUploadResponse['data']> {
-    const url = `${this.baseUrl}/api/gw/v1/webchat/conversations/${encodeURIComponent(conversationId)}/upload/init`;
-    const response = await fetch(url, {
+  async initUpload(
+    scope: UploadScope,
+    params: { originalName: string; mimeType: string; size: number },
+    options: UploadOptions = {}
+  ): Promise<InitUploadResponse['data']> {
+    const url = this.uploadUrl(scope, 'init');
+    const response = await this.request(url, {
       method: 'POST',
       headers: this.getHeaders(),
       body: JSON.stringify({
@@ -69,64 +96,60 @@ export class UploadService {
         mimeType: params.mimeType,
         size: params.size,
       }),
-    });
-    if (!response.ok) {
-      const text = await response.text();
-      let err: { message?: string } = {};
-      try {
-        err = text ? JSON.parse(text) : {};
-      } catch {
-        err = { message: text || response.statusText };
-      }
-      throw new Error(err.message || `Upload init failed: ${response.status}`);
-    }
+    }, 'Upload init failed', options);
     const json: InitUploadResponse = await response.json();
     return json.data;
   }
 
   /**
    * Complete upload after PUT to S3 (step 3).
+   * @throws ChatApiError
    */
-  async completeUpload(conversationId: string, fileId: number, uploadToken: string): Promise<UploadResult> {
-    const url = `${this.baseUrl}/api/gw/v1/webchat/conversations/${encodeURIComponent(conversationId)}/upload/complete`;
-    const response = await fetch(url, {
+  async completeUpload(scope: UploadScope, fileId: number, uploadToken: string, options: UploadOptions = {}): Promise<UploadResult> {
+    const url = this.uploadUrl(scope, 'complete');
+    const response = await this.request(url, {
       method: 'POST',
       headers: this.getHeaders(),
       body: JSON.stringify({ fileId, uploadToken }),
-    });
-    if (!response.ok) {
-      const text = await response.text();
-      let err: { message?: string } = {};
-      try {
-        err = text ? JSON.parse(text) : {};
-      } catch {
-        err = { message: text || response.statusText };
-      }
-      throw new Error(err.message || `Upload complete failed: ${response.status}`);
-    }
+    }, 'Upload complete failed', { ...options, policy: IDEMPOTENT });
     const json: CompleteUploadResponse = await response.json();
     return json.data;
   }
 
   /**
    * Full flow: init -> PUT file to S3 -> complete. Returns public URL for use in message attachments.
+   * @throws ChatApiError (UPLOAD_FAILED when the storage PUT is rejected)
    */
-  async uploadFile(conversationId: string, file: File): Promise<UploadResult> {
-    const init = await this.initUpload(conversationId, {
+  async uploadFile(scope: UploadScope, file: File, options: UploadOptions = {}): Promise<UploadResult> {
+    const init = await this.initUpload(scope, {
       originalName: file.name,
       mimeType: file.type || 'application/octet-stream',
       size: file.size,
-    });
-
-    const putRes = await fetch(init.uploadUrl, {
-      method: 'PUT',
-      body: file,
-      headers: { 'Content-Type': file.type || 'application/octet-stream' },
-    });
-    if (!putRes.ok) {
-      throw new Error(`Upload to storage failed: ${putRes.status}`);
-    }
-
-    return this.completeUpload(conversationId, init.fileId, init.uploadToken);
+    }, options);
+
+    // Straight to storage (not the Gateway, so not rate limited); no timeout - large files take a while
+    await withRetry('upload', async ({ signal }) => {
+      let putRes: Response;
+      try {
+        putRes = await fetch(init.uploadUrl, {
+          method: 'PUT',
+          body: file,
+          headers: { 'Content-Type': file.type || 'application/octet-stream' },
+          signal,
+        });
+      } catch (error) {
+        throw ChatApiError.from(error, 'Upload to storage failed');
+      }
+      if (!putRes.ok) {
+        // Storage (S3) errors are XML, not the backend's { error, code } shape
+        throw new ChatApiError(`Upload to storage failed: ${putRes.status}`, {
+          code: 'UPLOAD_FAILED',
+          status: putRes.status,
+          retryable: putRes.status >= 500,
+        });
+      }
+    }, { signal: options.signal, policy: IDEMPOTENT, context: 'Upload to storage failed' });
+
+    return this.completeUpload(scope, init.fileId, init.uploadToken, options);
   }
 }
@@ -0,0 +1,210 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatMessagePayload, MessageDeletedEvent, MessageUpdatedEvent } from './protocol';
+import { ChatWebSocketNative } from './ws-native';
+
+type Handler = (...args: any[]) => void;
+
+/**
+ * Just enough of a Socket.IO client socket: records emits and lets the test deliver server events
+ */
+class FakeSocket {
+  connected = false;
+  emitted: Array<{ event: string; data: unknown }> = [];
+  io = { on: () => {}, engine: undefined };
+  private handlers = new Map<string, Array<{ handler: Handler; once: boolean }>>();
+
+  on(event: string, handler: Handler) {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), { handler, once: false }]);
+    return this;
+  }
+
+  once(event: string, handler: Handler) {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), { handler, once: true }]);
+    return this;
+  }
+
+  emit(event: string, data?: unknown) {
+    this.emitted.push({ event, data });
+    return this;
+  }
+
+  timeout() {
+    // latency:ping is never answered in these tests
+    return { emitWithAck: () => new Promise(() => {}) };
+  }
+
+  removeAllListeners() {
+    this.handlers.clear();
+    return this;
+  }
+
+  disconnect() {
+    this.connected = false;
+    return this;
+  }
+
+  /** Server side: deliver an event to every listener, as Socket.IO does */
+  receive(event: string, data?: unknown) {
+    if (event === 'connect') this.connected = true;
+    const listeners = this.handlers.get(event) ?? [];
+    this.handlers.set(event, listeners.filter((l) => !l.once));
+    listeners.forEach((l) => l.handler(data));
+  }
+}
+
+const sockets: FakeSocket[] = [];
+
+// Hoisted above the imports, so ws-native gets the fake
+vi.mock('socket.io-client', () => ({
+  io: () => {
+    const socket = new FakeSocket();
+    sockets.push(socket);
+    return socket;
+  },
+}));
+
+// Unsigned ws_token with the claims the Gateway issues
+function wsToken(): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const now = Math.floor(Date.now() / 1000);
+  return [
+    encode({ alg: 'HS256', typ: 'JWT' }),
+    encode({ session_id: 'session-1', tenant_id: 'tenant-1', integration_id: 'integration-1', site_id: 'site-1', iat: now, exp: now + 900 }),
+    'signature',
+  ].join('.');
+}
+
+function agentMessage(id: string, extra: Record<string, unknown> = {}) {
+  return {
+    message_id: id,
+    text: `Hello from ${id}`,
+    sender_type: 'human',
+    conversation_id: 'conv-1',
+    created_at: '2024-01-15T10:30:00.000Z',
+    ...extra,
+  };
+}
+
+describe('ChatWebSocketNative session → conversation room switch', () => {
+  let received: ChatMessagePayload[];
+  let ws: ChatWebSocketNative;
+  let socket: FakeSocket;
+
+  beforeEach(async () => {
+    sockets.length = 0;
+    localStorage.clear();
+    received = [];
+    ws = new ChatWebSocketNative('tenant-1', { onMessage: (message) => received.push(message) });
+    await ws.connectPresence(wsToken(), 'wss://ws.example.com', 'session-1', 900);
+    socket = sockets[0];
+    socket.receive('connect');
+  });
+
+  afterEach(() => {
+    ws.disconnect();
+  });
+
+  it('delivers a message broadcast to both rooms once', () => {
+    // First message arrives in the session room and triggers the switch to its conversation room
+    socket.receive('message:new', agentMessage('msg-1'));
+    expect(socket.emitted).toContainEqual({ event: 'join:conversation', data: { conversationId: 'conv-1' } });
+
+    // While joining, the backend broadcasts the next message to both rooms - every listener sees both copies
+    socket.receive('meta_message_created', agentMessage('msg-2'));
+    socket.receive('meta_message_created', agentMessage('msg-2'));
+
+    socket.receive('joined', { conversation_id: 'conv-1', room: 'conversation:conv-1' });
+    expect(socket.emitted).toContainEqual({ event: 'leave:session', data: { sessionId: 'session-1' } });
+
+    // meta_message_created for the first message, after the DB write
+    socket.receive('meta_message_created', agentMessage('msg-1'));
+
+    expect(received.map((m) => m.id)).toEqual(['msg-1', 'msg-2']);
+  });
+
+  it('matches the echo of a visitor message by temp_id across rooms', () => {
+    socket.receive('message:new', agentMessage('msg-1'));
+
+    socket.receive('message:new', { ...agentMessage('msg-2', { temp_id: 'temp-1' }), sender_type: 'user' });
+    // Same visitor message from the other room, under the id of the event rather than the message
+    socket.receive('meta_message_created', { id: 'event-7', temp_id: 'temp-1', text: 'Hi', sender_type: 'user', conversation_id: 'conv-1' });
+
+    expect(received.map((m) => m.id)).toEqual(['msg-1', 'msg-2']);
+  });
+
+  it('pairs message:new and meta_message_created that carry different ids for one agent message', () => {
+    socket.receive('message:new', agentMessage('msg-1'));
+    socket.receive('joined', { conversation_id: 'conv-1', room: 'conversation:conv-1' });
+
+    socket.receive('message:new', agentMessage('msg-2', { stream_id: '1705312200000-0' }));
+    socket.receive('meta_message_created', agentMessage('event-9', { stream_id: '1705312200000-0' }));
+
+    expect(received.map((m) => m.id)).toEqual(['msg-1', 'msg-2']);
+  });
+
+  it('delivers two agent messages with the same text sent 5s apart, each broadcast twice', () => {
+    socket.receive('message:new', agentMessage('msg-1'));
+    socket.receive('joined', { conversation_id: 'conv-1', room: 'conversation:conv-1' });
+
+    const ok = (id: string, createdAt: string) => agentMessage(id, { text: 'ok', created_at: createdAt });
+    socket.receive('message:new', { ...ok('msg-2', '2024-01-15T10:31:00.000Z'), id: 'event-2' });
+    socket.receive('meta_message_created', ok('msg-2', '2024-01-15T10:31:00.000Z'));
+    socket.receive('message:new', { ...ok('msg-3', '2024-01-15T10:31:05.000Z'), id: 'event-3' });
+    socket.receive('meta_message_created', ok('msg-3', '2024-01-15T10:31:05.000Z'));
+
+    expect(received.filter((m) => m.text === 'ok').map((m) => m.id)).toEqual(['msg-2', 'msg-3']);
+  });
+
+  it('still delivers different messages with the same text', () => {
+    socket.receive('message:new', agentMessage('msg-1', { text: 'ok' }));
+    socket.receive('message:new', agentMessage('msg-2', { text: 'ok' }));
+
+    expect(received.map((m) => m.id)).toEqual(['msg-1', 'msg-2']);
+  });
+});
+
+describe('ChatWebSocketNative message edits and deletes', () => {
+  let updated: MessageUpdatedEvent[];
+  let deleted: MessageDeletedEvent[];
+  let ws: ChatWebSocketNative;
+  let socket: FakeSocket;
+
+  beforeEach(async () => {
+    sockets.length = 0;
+    localStorage.clear();
+    updated = [];
+    deleted = [];
+    ws = new ChatWebSocketNative('tenant-1', {
+      onMessageUpdated: (event) => updated.push(event),
+      onMessageDeleted: (event) => deleted.push(event),
+    });
+    await ws.connectPresence(wsToken(), 'wss://ws.example.com', 'session-1', 900);
+    socket = sockets[0];
+    socket.receive('connect');
+    socket.receive('message:new', agentMessage('msg-1'));
+    socket.receive('joined', { conversation_id: 'conv-1', room: 'conversation:conv-1' });
+  });
+
+  afterEach(() => {
+    ws.disconnect();
+  });
+
+  it('reports edits and deletes in the current conversation', () => {
+    socket.receive('message:updated', { conversation_id: 'conv-1', message_id: 'msg-2', text: 'Order 10482', edited_at: '2024-01-15T10:43:00.000Z' });
+    socket.receive('message:deleted', { conversation_id: 'conv-1', message_id: 'msg-3' });
+
+    expect(updated).toEqual([
+      { type: 'message:updated', conversation_id: 'conv-1', message_id: 'msg-2', text: 'Order 10482', edited_at: '2024-01-15T10:43:00.000Z' },
+    ]);
+    expect(deleted.map((event) => event.message_id)).toEqual(['msg-3']);
+  });
+
+  it('ignores changes in other conversations', () => {
+    socket.receive('message:updated', { conversation_id: 'conv-2', message_id: 'msg-9', text: 'Elsewhere' });
+    socket.receive('message:deleted', { conversation_id: 'conv-2', message_id: 'msg-9' });
+
+    expect(updated).toEqual([]);
+    expect(deleted).toEqual([]);
+  });
+});
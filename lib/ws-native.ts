@@ -3,44 +3,114 @@
  * Connects directly to Socket.IO server using ws_server_url from /webchat/init response
  */
 
-import { io, Socket } from 'socket.io-client';
-import { getSessionInfo, refreshSession, getConversationId, setConversationId, getVisitorId, isConversationExpired, clearConversation, getSenderName } from './session';
-
-export interface OnlineUser {
-  userId: string;
-  sessionId?: string;
-  connectedAt: string;
-  domain?: string;
-  origin?: string;
-  url?: string;
-}
+import { io, Socket, ManagerOptions, SocketOptions } from 'socket.io-client';
+import { getSessionInfo, refreshSession, getConversationId, setConversationId, getVisitorId, isConversationExpired, clearConversation, getSenderName, getMessageCursor, advanceMessageCursor, MessageCursor } from './session';
+import {
+  parseServerEvent,
+  normalizeMessage,
+  ChatMessagePayload,
+  SessionUpdateEvent,
+  TypingEvent,
+  MessageReadEvent,
+  MessageUpdatedEvent,
+  MessageDeletedEvent,
+  ConversationCreatedEvent,
+  ConversationAssignedEvent,
+  ConversationTransferredEvent,
+  ConversationClosedEvent,
+  ConversationReopenedEvent,
+} from './protocol';
+import type { AgentAvailability } from './availability';
+import { MessageDeduplicator } from './message-dedup';
+import { ChatApiError, isChatApiError, type ChatApiErrorCode } from './api-error';
+import { rateLimiter } from './rate-limiter';
+import { fetchWithRetry, withRetry } from './retry-policy';
+import { PollingReceiver, PolledEvent } from './polling-transport';
+import { ConnectionStateMachine, ConnectionState, ConnectionStateListener, ConnectionTransition } from './connection-state';
+import { GATEWAY_URL, getGatewayHeaders, resolveWebsiteInfo } from './gateway';
+import { plugins, type OutgoingMessage, type SendContext } from './plugins';
+import { addPreChatAnswers } from './pre-chat-form';
+import { readWsTokenClaims, getTokenLifetime, WsTokenClaims } from './ws-token';
+import { ConnectionQualityMonitor, ConnectionMetrics, ConnectionQualityListener, toConnectionQualityPayload } from './connection-quality';
+import type { WebsiteInfo, UserInfo, OnlineUser, AttachmentItem } from './types';
+
+export type { WebsiteInfo, UserInfo, OnlineUser } from './types';
 
 export interface WebSocketCallbacks {
-  onMessage?: (message: any) => void;
+  onMessage?: (message: ChatMessagePayload) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
   onError?: (error: Error) => void;
   onUserOnline?: (user: OnlineUser) => void;
   onUserOffline?: (userId: string) => void;
   onOnlineUsersList?: (users: OnlineUser[]) => void;
-  onConversationClosed?: () => void;
-  onConversationCreated?: (conversationId: string) => void;
-  onSessionUpdate?: (data: any) => void;
+  onConversationClosed?: (event: ConversationClosedEvent) => void; // Who closed it and why
+  onConversationCreated?: (conversationId: string, event?: ConversationCreatedEvent) => void; // Fired once the conversation room is joined
+  onConversationReopened?: (event: ConversationReopenedEvent) => void;
+  onConversationAssigned?: (event: ConversationAssignedEvent) => void; // An agent picked up the conversation
+  onConversationTransferred?: (event: ConversationTransferredEvent) => void;
+  onSessionUpdate?: (data: SessionUpdateEvent) => void;
+  onReconnect?: (conversationId: string, lastSeen: MessageCursor | null) => void; // Socket came back - fetch messages after lastSeen
+  onTyping?: (event: TypingEvent) => void; // Agent/bot typing:start / typing:stop in the current conversation
+  onMessageRead?: (event: MessageReadEvent) => void; // Agent read the visitor's messages
+  onMessageUpdated?: (event: MessageUpdatedEvent) => void; // Visitor edited a message (any tab or device)
+  onMessageDeleted?: (event: MessageDeletedEvent) => void; // Visitor deleted a message (any tab or device)
+  onAvailabilityChanged?: (availability: AgentAvailability) => void; // Agents came online / went offline
+  onTokenRenew?: () => Promise<SocketCredentials | null>; // Fetch a fresh ws_token (/webchat/session or /webchat/init); defaults to initialize()
 }
 
-export interface WebsiteInfo {
-  domain?: string;
-  origin?: string;
-  url?: string;
-  referrer?: string;
-  siteId?: string;
+/**
+ * Credentials for (re)connecting the socket, as returned by /webchat/session or /webchat/init
+ */
+export interface SocketCredentials {
+  ws_token: string;
+  websocket_url?: string;
+  session_id?: string;
+  expires_in?: number; // Seconds
 }
 
-export interface UserInfo {
-  name?: string;
-  email?: string;
-  phone?: string;
-  [key: string]: any;
+/**
+ * The socket gave up after repeated authentication failures (ws_token expired or rejected and could not be renewed)
+ */
+export class SocketAuthError extends Error {
+  readonly attempts: number;
+
+  constructor(message: string, attempts: number) {
+    super(message);
+    this.name = 'SocketAuthError';
+    this.attempts = attempts;
+  }
+}
+
+const DEFAULT_TOKEN_LIFETIME = 900; // Seconds - gateway tokens live 15 minutes unless exp / expires_in say otherwise
+const AUTH_RETRY_DELAY = 2000; // Base delay between failed token renewals (multiplied by attempt number)
+const FALLBACK_AFTER_ERRORS = 3; // Consecutive connect_errors before receiving falls back to HTTP polling
+const SOCKET_RETRY_INTERVAL = 30000; // While polling, how often to give Socket.IO another try after it gave up
+const ACK_TIMEOUT = 10000; // Wait for the server's acknowledgment when the socketSend retry policy sets no timeout
+const PING_INTERVAL = 10000; // Latency ping while connected
+const PING_TIMEOUT = 5000; // A ping unanswered this long counts as missed
+const TOKEN_ERROR_CODES: ChatApiErrorCode[] = ['UNAUTHORIZED', 'INVALID_SESSION']; // connect_error codes a fresh ws_token fixes
+
+/** Conversation lifecycle events, received over the socket or relayed in poll responses */
+const LIFECYCLE_EVENTS = ['conversation:closed', 'conversation:reopened', 'conversation:assigned', 'conversation:transferred'] as const;
+type LifecycleEventName = typeof LIFECYCLE_EVENTS[number];
+const MESSAGE_CHANGE_EVENTS = ['message:updated', 'message:deleted'] as const;
+type MessageChangeEventName = typeof MESSAGE_CHANGE_EVENTS[number];
+
+export interface SocketSendOptions {
+  ackTimeoutMs?: number; // Per attempt, defaults to the socketSend retry policy's timeout
+  maxAttempts?: number; // Emits per message (same temp_id), defaults to the socketSend retry policy
+  signal?: AbortSignal; // Stops waiting for the ack and cancels pending retries
+  attachments?: { items: AttachmentItem[] }; // Uploaded file URLs, same shape as the HTTP send
+  prepared?: OutgoingMessage; // Already through plugins' beforeSend (by the transport) - sent as is, hooks not run again
+}
+
+/**
+ * What the server acknowledged for a message sent over the socket
+ */
+export interface SocketSendResult {
+  message_id?: string; // Real id replacing the temp_id
+  conversation_id?: string;
 }
 
 export interface ConversationInitResponse {
@@ -61,13 +131,12 @@ export class ChatWebSocketNative {
   private siteId?: string;
   private socket: Socket | null = null;
   private callbacks: WebSocketCallbacks;
-  private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
-  private shouldReconnect = true;
   private websiteInfo: WebsiteInfo;
   private isAdmin: boolean;
   private userId?: string;
   private userInfo?: UserInfo;
+  private userSignature?: string; // Identity verification for userId, see ChatAPI
   private conversationId?: string;
   private visitorId?: string;
   private wsToken?: string;
@@ -77,9 +146,24 @@ export class ChatWebSocketNative {
   private tokenRefreshTimer?: ReturnType<typeof setTimeout>; // Timer for proactive refresh
   private gatewayUrl: string;
   private presenceSessionId?: string; // Session ID from presence layer
-  private currentRoom?: string; // Current WebSocket room (session:{session_id} or conversation:{conversation_id})
-  private processedMessageKeys = new Map<string, number>(); // messageKey -> timestamp for deduplication
-  private readonly MESSAGE_CACHE_TTL = 60000; // 60 seconds - covers backend processing delays
+  private connection = new ConnectionStateMachine(); // Lifecycle status, current room and reconnect attempt
+  private dedup = new MessageDeduplicator(); // Bounded LRU of delivered message ids / temp_ids
+  private messageListenersSocket?: Socket; // Socket that already has conversation room listeners attached
+  private hasConnected = false; // Set after the first connect, later connects are reconnects
+  private createdEvent?: ConversationCreatedEvent; // conversation:created payload, handed to onConversationCreated after the join
+  private connectionMode?: 'presence' | 'conversation'; // Which connect flow opened the socket, reused on re-auth
+  private renewPromise: Promise<boolean> | null = null; // In-flight token renewal, shared by concurrent callers
+  private reauthPromise: Promise<void> | null = null; // In-flight renew + reconnect after an auth failure
+  private authFailures = 0; // Consecutive re-auth attempts, reset on successful connect
+  private maxAuthFailures = 3;
+  private connectErrors = 0; // Consecutive connect_errors, reset on connect
+  private poller: PollingReceiver | null = null; // HTTP receive channel while Socket.IO can't connect
+  private socketRetryTimer?: ReturnType<typeof setTimeout>;
+  private messageListeners = new Set<(message: ChatMessagePayload) => void>(); // Besides callbacks.onMessage
+  private quality = new ConnectionQualityMonitor(); // Latency, reconnects and transport of this connection
+  private pingTimer?: ReturnType<typeof setInterval>;
+  private pingInFlight = false;
+  private pingSupported = false; // Server answered a latency:ping at least once
 
   constructor(
     tenantId: string | null,
@@ -87,90 +171,50 @@ export class ChatWebSocketNative {
     websiteInfo?: WebsiteInfo,
     isAdmin: boolean = false,
     userId?: string,
-    userInfo?: UserInfo
+    userInfo?: UserInfo,
+    userSignature?: string
   ) {
     this.tenantId = tenantId || null;
     this.callbacks = callbacks;
     this.isAdmin = isAdmin;
     this.userId = userId;
     this.userInfo = userInfo;
+    this.userSignature = userSignature;
     
-    // Initialize website info
-    // Use provided websiteInfo if it has domain/origin, otherwise try to get from URL params
-    // Don't use fallback getWebsiteInfo() if we're on webchat domain (would return wrong domain)
-    if (websiteInfo && (websiteInfo.domain || websiteInfo.origin)) {
-      this.websiteInfo = websiteInfo;
-    } else {
-      // Try to get from URL params (widget loader should pass these)
-      const params = typeof window !== 'undefined' ? new URLSearchParams(window.location.search) : null;
-      const domain = params?.get('domain');
-      const origin = params?.get('origin');
-      
-      if (domain || origin) {
-        this.websiteInfo = {
-          domain: domain || undefined,
-          origin: origin || undefined,
-          url: params?.get('url') || undefined,
-          referrer: params?.get('referrer') || undefined,
-          siteId: params?.get('siteId') || undefined,
-        };
-      } else {
-        // Last resort: use provided websiteInfo even if empty, or getWebsiteInfo() if not on webchat domain
-        const fallback = this.getWebsiteInfo();
-        if (fallback.domain && !fallback.domain.includes('webchat')) {
-          this.websiteInfo = fallback;
-        } else {
-          // On webchat domain without URL params - this shouldn't happen in production
-          this.websiteInfo = websiteInfo || {};
-          console.warn('[Socket.IO] ⚠️ No domain info available. Widget loader should pass domain via URL params.');
-        }
-      }
-    }
+    this.websiteInfo = resolveWebsiteInfo(websiteInfo, '[Socket.IO]');
     
     this.isAdmin = isAdmin;
     this.userId = userId;
     this.userInfo = userInfo;
     
     // Get Gateway URL for /webchat/init endpoint
-    this.gatewayUrl = process.env.NEXT_PUBLIC_GATEWAY_URL || process.env.NEXT_PUBLIC_API_URL || 'https://api-gateway-dfcflow.fly.dev';
+    this.gatewayUrl = GATEWAY_URL;
   }
 
   /**
-   * Update callbacks after construction
-   * Useful when WebSocket is created in presence mode and later needs message callbacks
+   * Listen for incoming messages alongside callbacks.onMessage (which updateCallbacks replaces)
+   * Returns an unsubscribe function.
    */
-  updateCallbacks(newCallbacks: WebSocketCallbacks): void {
-    this.callbacks = { ...this.callbacks, ...newCallbacks };
+  addMessageListener(listener: (message: ChatMessagePayload) => void): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
   }
 
   /**
-   * Auto-detect website information from browser
-   * Note: This should rarely be called since websiteInfo is passed from embed page
-   * This is only a fallback if websiteInfo wasn't provided
+   * Update callbacks after construction
+   * Useful when WebSocket is created in presence mode and later needs message callbacks
    */
-  private getWebsiteInfo(): WebsiteInfo {
-    if (typeof window !== 'undefined') {
-      const hostname = window.location.hostname;
-      // Don't use webchat.amoiq.com as domain - this means we're in iframe without proper info
-      if (hostname === 'webchat.amoiq.com' || hostname.includes('webchat')) {
-        console.warn('[Socket.IO] ⚠️ Widget is on webchat domain but no websiteInfo provided. This should not happen in production.');
-        return {};
-      }
-      return {
-        domain: hostname,
-        origin: window.location.origin,
-        url: window.location.href,
-        referrer: document.referrer || '',
-      };
-    }
-    return {};
+  updateCallbacks(newCallbacks: WebSocketCallbacks): void {
+    this.callbacks = { ...this.callbacks, ...newCallbacks };
   }
 
   /**
    * Connect to presence WebSocket (for presence layer)
    * Called on page load to track online/offline status
    */
-  async connectPresence(wsToken: string, wsServerUrl: string, sessionId: string): Promise<void> {
+  async connectPresence(wsToken: string, wsServerUrl: string, sessionId: string, expiresIn?: number): Promise<void> {
     if (typeof window === 'undefined') {
       console.warn('[Socket.IO] Cannot connect presence: Socket.IO is only available in the browser');
       return;
@@ -179,60 +223,71 @@ export class ChatWebSocketNative {
     this.presenceSessionId = sessionId;
     this.wsToken = wsToken;
     this.wsServerUrl = wsServerUrl;
+    this.connectionMode = 'presence';
+    this.authFailures = 0;
+    const claims = readWsTokenClaims(wsToken);
+    this.applyTokenClaims(claims);
+    this.setTokenExpiry(expiresIn, claims);
 
-    // Disconnect existing socket if it exists
-    if (this.socket && this.socket.connected) {
-      this.socket.removeAllListeners();
-      this.socket.disconnect();
-      this.socket = null;
+    this.openPresenceSocket();
+  }
+
+  /**
+   * Open the presence socket with the current credentials and join the session room
+   */
+  private openPresenceSocket(): void {
+    const sessionId = this.presenceSessionId;
+    if (!this.wsToken || !this.wsServerUrl || !sessionId) {
+      return;
     }
 
+    // Drop any existing socket, connected or still retrying, so it can't keep reconnecting with an old token
+    this.teardownSocket();
+    this.connection.transition('connecting');
+
     try {
-      this.socket = io(wsServerUrl, {
-        auth: {
-          token: wsToken,
-        },
-        query: {
-          token: wsToken,
-        },
-        extraHeaders: {
-          'Authorization': `Bearer ${wsToken}`,
-        },
-        transports: ['websocket', 'polling'],
-        reconnection: true,
-        reconnectionAttempts: this.maxReconnectAttempts,
-        reconnectionDelay: 1000,
-        reconnectionDelayMax: 5000,
-      });
+      this.socket = io(this.wsServerUrl, this.buildSocketOptions());
+      this.trackReconnection(this.socket);
 
       // Set up event listeners
       this.setupPresenceEventListeners();
       
       // Wait for connection and join session room
       this.socket.on('connect', () => {
-        this.reconnectAttempts = 0;
+        this.authFailures = 0;
+        this.stopFallback();
+        this.startQualityPings();
         
         // Join session room for presence tracking
-        if (this.socket && sessionId) {
-          const roomName = `session:${sessionId}`;
-          this.socket.emit('join:session', { sessionId });
-          this.currentRoom = roomName;
+        this.joinSessionRoom(sessionId);
+        
+        // Reconnected after a conversation started - rejoin its room so new messages keep arriving
+        if (this.conversationId) {
+          this.switchToConversationRoom(this.conversationId);
         }
         
         this.callbacks.onConnect?.();
+        this.notifyIfReconnected();
       });
 
       this.socket.on('connect_error', (error: Error) => {
         console.error('[Socket.IO] ❌ Presence connection error:', error);
-        this.reconnectAttempts++;
+        if (this.isAuthFailure(error)) {
+          this.reauthenticate();
+          return;
+        }
+        this.noteConnectError();
         this.callbacks.onError?.(error);
       });
 
-      this.socket.on('disconnect', () => {
+      this.socket.on('disconnect', (reason: string) => {
         this.callbacks.onDisconnect?.();
+        this.stopQualityPings();
+        this.handleDisconnectReason(reason);
       });
     } catch (error) {
       console.error('[Socket.IO] Error creating presence connection:', error);
+      this.connection.transition('fatal', { error: (error as Error).message });
       this.callbacks.onError?.(error as Error);
     }
   }
@@ -244,91 +299,84 @@ export class ChatWebSocketNative {
     if (!this.socket) return;
 
     // Listen for session updates
-    this.socket.on('session:update', (data: any) => {
-      this.callbacks.onSessionUpdate?.(data);
+    this.socket.on('session:update', (data: unknown) => {
+      const event = parseServerEvent('session:update', data);
+      if (!event) return;
+      this.callbacks.onSessionUpdate?.(event);
       
       // If conversation_id is provided in update, switch to conversation room
-      if (data.conversation_id && !this.conversationId) {
-        this.conversationId = data.conversation_id;
-        this.switchToConversationRoom(data.conversation_id);
+      if (event.conversation_id && !this.conversationId) {
+        this.conversationId = event.conversation_id;
+        this.switchToConversationRoom(event.conversation_id);
       }
     });
 
     // Listen for conversation created events
-    this.socket.on('conversation:created', (data: { conversation_id: string }) => {
-      if (data.conversation_id) {
-        this.conversationId = data.conversation_id;
-        // Don't call onConversationCreated here - it will be called after joining the room
-        this.switchToConversationRoom(data.conversation_id);
-      }
+    this.socket.on('conversation:created', (data: unknown) => {
+      const event = parseServerEvent('conversation:created', data);
+      if (!event) return;
+      this.conversationId = event.conversation_id;
+      this.createdEvent = event;
+      // Don't call onConversationCreated here - it will be called after joining the room
+      this.switchToConversationRoom(event.conversation_id);
     });
 
     // Listen for conversation:new events (new event name from backend)
-    this.socket.on('conversation:new', (data: { id?: string; conversation_id?: string }) => {
-      // Handle both 'id' and 'conversation_id' formats
-      const conversationId = data.id || data.conversation_id;
-      if (conversationId) {
+    this.socket.on('conversation:new', (data: unknown) => {
+      const event = parseServerEvent('conversation:new', data);
+      if (!event) return;
+      this.conversationId = event.conversation_id;
+      // Don't call onConversationCreated here - it will be called after joining the room
+      // Automatically switch from session room to conversation room
+      this.switchToConversationRoom(event.conversation_id);
+    });
+
+    // Listen for conversation:update events (broadcasted to session room when conversation is updated)
+    // According to backend docs: conversation:update uses 'id' field (REQUIRED) and is broadcast to session:{sessionId} room
+    this.socket.on('conversation:update', (data: unknown) => {
+      const event = parseServerEvent('conversation:update', data);
+      if (!event) return;
+      const conversationId = event.conversation_id;
+
+      // If we don't have conversationId yet, or we're not in conversation room yet, switch
+      const shouldSwitch = !this.conversationId || !this.connection.is('joining-conversation', 'in-conversation');
+      
+      if (shouldSwitch) {
         this.conversationId = conversationId;
         // Don't call onConversationCreated here - it will be called after joining the room
         // Automatically switch from session room to conversation room
         this.switchToConversationRoom(conversationId);
+      } else if (this.conversationId !== conversationId) {
+        // Conversation ID changed, switch to new conversation room
+        this.conversationId = conversationId;
+        this.switchToConversationRoom(conversationId);
       }
     });
 
-    // Listen for conversation:update events (broadcasted to session room when conversation is updated)
-    // According to backend docs: conversation:update uses 'id' field (REQUIRED) and is broadcast to session:{sessionId} room
-    this.socket.on('conversation:update', (data: { id?: string; conversation_id?: string; conversationId?: string }) => {
-      // Handle multiple possible field names for conversation ID
-      // Backend uses 'id' field per WEBSOCKET_PAYLOADS.md, but we support all variants for compatibility
-      const conversationId = data.id || data.conversation_id || data.conversationId;
-      
-      if (conversationId) {
-        // If we don't have conversationId yet, or we're not in conversation room yet, switch
-        const shouldSwitch = !this.conversationId || !this.currentRoom?.startsWith('conversation:');
-        
-        if (shouldSwitch) {
-          this.conversationId = conversationId;
-          // Don't call onConversationCreated here - it will be called after joining the room
-          // Automatically switch from session room to conversation room
-          this.switchToConversationRoom(conversationId);
-        } else if (this.conversationId !== conversationId) {
-          // Conversation ID changed, switch to new conversation room
-          this.conversationId = conversationId;
-          this.switchToConversationRoom(conversationId);
-        }
-      }
+    // Agents came online / went offline (broadcast to the session room)
+    this.socket.on('agents:availability', (data: unknown) => {
+      const event = parseServerEvent('agents:availability', data);
+      if (event) this.callbacks.onAvailabilityChanged?.(event.availability);
     });
 
-    // Listen for conversation closed events
-    this.socket.on('conversation:closed', (data: { conversation_id: string }) => {
-      if (data.conversation_id === this.conversationId) {
-        this.callbacks.onConversationClosed?.();
-      }
+    // Conversation lifecycle events (broadcast to the conversation room)
+    LIFECYCLE_EVENTS.forEach((name) => {
+      this.socket?.on(name, (data: unknown) => this.handleLifecycleEvent(name, data));
     });
 
     // ALSO listen for message events in session room (to catch messages before room switch)
     // This handles race condition where backend broadcasts to both rooms simultaneously
-    this.socket.on('meta_message_created', (data: any) => {
+    const handleSessionRoomMessage = (message: ChatMessagePayload) => {
       // If we're already in conversation room, skip - let conversation room listener handle it
-      if (this.currentRoom?.startsWith('conversation:')) {
+      if (this.connection.is('joining-conversation', 'in-conversation')) {
         return;
       }
       
-      const rawMessage = data.message || data;
-      
-      // Check for duplicate BEFORE transforming/handling
-      const messageKey = this.getMessageKey(rawMessage);
-      if (this.hasProcessedMessage(messageKey)) {
+      // Drop copies of a message already delivered (same server id or temp_id)
+      if (!this.dedup.markIfNew(message)) {
         return;
       }
       
-      // Mark as processed BEFORE transforming/handling
-      this.markMessageProcessed(messageKey);
-      
-      // Transform to ensure message_text -> text conversion
-      const message = this.transformMessageNewToMessage(rawMessage);
-      
-      // Extract conversation_id from message
       const messageConversationId = message.conversation_id;
       
       if (messageConversationId) {
@@ -349,57 +397,65 @@ export class ChatWebSocketNative {
         // No conversation_id in message, process anyway (might be for our session)
         this.handleMessage(message);
       }
+    };
+
+    this.socket.on('meta_message_created', (data: unknown) => {
+      const event = parseServerEvent('meta_message_created', data);
+      if (event) handleSessionRoomMessage(event.message);
     });
 
-    this.socket.on('message:new', (data: any) => {
-      // If we're already in conversation room, skip - let conversation room listener handle it
-      if (this.currentRoom?.startsWith('conversation:')) {
-        return;
-      }
-      
-      const rawMessage = data.message || data;
-      
-      // Check for duplicate BEFORE transforming/handling
-      const messageKey = this.getMessageKey(rawMessage);
-      if (this.hasProcessedMessage(messageKey)) {
-        return;
-      }
-      
-      // Mark as processed BEFORE transforming/handling
-      this.markMessageProcessed(messageKey);
-      
-      const message = this.transformMessageNewToMessage(rawMessage);
-      
-      // Extract conversation_id from transformed message
-      const messageConversationId = message.conversation_id;
-      
-      if (messageConversationId) {
-        // If we don't have conversationId yet, set it and switch rooms
-        if (!this.conversationId) {
-          this.conversationId = messageConversationId;
-          // Don't call onConversationCreated here - it will be called after joining the room
-          this.switchToConversationRoom(messageConversationId);
-          // Process the message after switching
-          this.handleMessage(message);
-        } else {
-          // We have conversationId but not in conversation room yet - process it
-          if (messageConversationId === this.conversationId) {
-            this.handleMessage(message);
-          }
-        }
-      } else {
-        // No conversation_id in message, process anyway (might be for our session)
-        this.handleMessage(message);
-      }
+    this.socket.on('message:new', (data: unknown) => {
+      const event = parseServerEvent('message:new', data);
+      if (event) handleSessionRoomMessage(event.message);
     });
   }
 
+  /**
+   * Dispatch a conversation lifecycle event - only for the conversation we follow
+   */
+  private handleLifecycleEvent(name: LifecycleEventName, data: unknown): void {
+    const event = parseServerEvent(name, data);
+    if (!event || event.conversation_id !== this.conversationId) return;
+
+    switch (event.type) {
+      case 'conversation:closed':
+        this.callbacks.onConversationClosed?.(event);
+        break;
+      case 'conversation:reopened':
+        this.callbacks.onConversationReopened?.(event);
+        break;
+      case 'conversation:assigned':
+        this.callbacks.onConversationAssigned?.(event);
+        break;
+      case 'conversation:transferred':
+        this.callbacks.onConversationTransferred?.(event);
+        break;
+    }
+    plugins.runLifecycleEvent(event);
+  }
+
+  /**
+   * Dispatch an edit / delete of a message - only for the conversation we follow
+   */
+  private handleMessageChange(name: MessageChangeEventName, data: unknown): void {
+    const event = parseServerEvent(name, data);
+    if (!event) return;
+    if (event.conversation_id && this.conversationId && event.conversation_id !== this.conversationId) return;
+
+    if (event.type === 'message:updated') {
+      this.callbacks.onMessageUpdated?.(event);
+    } else {
+      this.callbacks.onMessageDeleted?.(event);
+    }
+  }
+
   /**
    * Switch from session room to conversation room
    */
   switchToConversationRoom(conversationId: string): void {
-    if (!this.socket || !this.socket.connected) {
-      console.warn('[Socket.IO] Cannot switch room: not connected');
+    // Only a live socket can join: while connecting/reconnecting/offline the state machine refuses the move,
+    // and the connect handler joins this.conversationId once the socket is back
+    if (!this.socket || !this.socket.connected || !this.connection.can('joining-conversation')) {
       return;
     }
 
@@ -411,15 +467,22 @@ export class ChatWebSocketNative {
     // This ensures we're in the room when messages are broadcast
     const roomName = `conversation:${conversationId}`;
     this.socket.emit('join:conversation', { conversationId });
-    this.currentRoom = roomName;
+    this.connection.transition('joining-conversation', { room: roomName, conversationId });
 
     // Listen for joined confirmation, THEN leave session room
-    this.socket.once('joined', () => {
+    this.socket.once('joined', (data: unknown) => {
+      // Validate the confirmation payload (logs if the backend changed its shape)
+      parseServerEvent('joined', data);
+      if (this.connection.is('joining-conversation')) {
+        this.connection.transition('in-conversation');
+      }
       // NOW it's safe to leave session room - we're confirmed in conversation room
       if (this.presenceSessionId) {
         this.socket?.emit('leave:session', { sessionId: this.presenceSessionId });
       }
-      this.callbacks.onConversationCreated?.(conversationId);
+      const createdEvent = this.createdEvent?.conversation_id === conversationId ? this.createdEvent : undefined;
+      this.callbacks.onConversationCreated?.(conversationId, createdEvent);
+      plugins.runLifecycleEvent(createdEvent ?? { type: 'conversation:created', conversation_id: conversationId });
     });
   }
 
@@ -429,80 +492,85 @@ export class ChatWebSocketNative {
   private setupMessageEventListeners(): void {
     if (!this.socket) return;
 
-    // Check if conversation room listeners are already set up
-    // We use a flag to track if we've set up conversation-specific listeners
-    // Session room listeners will continue to work, but we add conversation room listeners
-    // that filter by conversation_id
-    
-    // Remove only conversation room listeners if they exist (not session room listeners)
-    // We'll use a different approach: check if we're already in a conversation room
-    const isInConversationRoom = this.currentRoom?.startsWith('conversation:');
-    
-    // Only remove listeners if we're switching from one conversation to another
-    // Keep session room listeners active (they handle messages before room switch)
-    if (isInConversationRoom) {
-      // We're switching conversations, remove old conversation listeners
-      // But keep session room listeners
-      this.socket.off('meta_message_created');
-      this.socket.off('message:new');
-      this.socket.off('message');
+    // Conversation room listeners read this.conversationId at delivery time, so they are attached
+    // once per socket and keep working across conversation switches and reconnect rejoins
+    if (this.messageListenersSocket === this.socket) {
+      return;
     }
+    this.messageListenersSocket = this.socket;
 
     // Set up conversation room message listeners
     // These will work in both session and conversation rooms (Socket.IO delivers to all listeners)
     // But we filter by conversation_id to only process relevant messages
-    this.socket.on('meta_message_created', (data: any) => {
-      // WebSocket payload format: { message: { text: string, ... } } or direct message object
-      const rawMessage = data.message || data;
-      
-      // Check for duplicate BEFORE transforming/handling
-      const messageKey = this.getMessageKey(rawMessage);
-      if (this.hasProcessedMessage(messageKey)) {
+    const handleConversationRoomMessage = (message: ChatMessagePayload) => {
+      // Drop copies of a message already delivered (same server id or temp_id)
+      if (!this.dedup.markIfNew(message)) {
         return;
       }
       
-      // Mark as processed BEFORE transforming/handling
-      this.markMessageProcessed(messageKey);
-      
-      // Transform to ensure message_text -> text conversion
-      const message = this.transformMessageNewToMessage(rawMessage);
-      
       // Filter: only process if message belongs to current conversation (if we have one)
       // Or if we don't have conversationId yet, process it (will be handled by session room listener)
       if (!this.conversationId || !message.conversation_id || message.conversation_id === this.conversationId) {
         this.handleMessage(message);
       }
+    };
+
+    this.socket.on('meta_message_created', (data: unknown) => {
+      const event = parseServerEvent('meta_message_created', data);
+      if (event) handleConversationRoomMessage(event.message);
     });
 
-    this.socket.on('message:new', (data: any) => {
-      // WebSocket payload format: { message: { text: string, messageId: string, ... } }
-      const rawMessage = data.message || data;
-      
-      // Check for duplicate BEFORE transforming/handling
-      const messageKey = this.getMessageKey(rawMessage);
-      if (this.hasProcessedMessage(messageKey)) {
-        return;
-      }
-      
-      // Mark as processed BEFORE transforming/handling
-      this.markMessageProcessed(messageKey);
-      
-      const message = this.transformMessageNewToMessage(rawMessage);
-      
-      // Filter: only process if message belongs to current conversation (if we have one)
-      if (!this.conversationId || !message.conversation_id || message.conversation_id === this.conversationId) {
-        this.handleMessage(message);
-      }
+    this.socket.on('message:new', (data: unknown) => {
+      const event = parseServerEvent('message:new', data);
+      if (event) handleConversationRoomMessage(event.message);
+    });
+
+    // Typing indicators from agents/bots in the conversation room (the visitor's own echoes are ignored)
+    const handleTyping = (event: TypingEvent) => {
+      if (event.sender === 'user') return;
+      if (event.conversation_id && this.conversationId && event.conversation_id !== this.conversationId) return;
+      this.callbacks.onTyping?.(event);
+    };
+
+    this.socket.on('typing:start', (data: unknown) => {
+      const event = parseServerEvent('typing:start', data);
+      if (event) handleTyping(event);
+    });
+
+    this.socket.on('typing:stop', (data: unknown) => {
+      const event = parseServerEvent('typing:stop', data);
+      if (event) handleTyping(event);
+    });
+
+    // Read receipts from agents (the visitor's own read events are ignored)
+    this.socket.on('message:read', (data: unknown) => {
+      const event = parseServerEvent('message:read', data);
+      if (!event || event.reader === 'user') return;
+      if (event.conversation_id && this.conversationId && event.conversation_id !== this.conversationId) return;
+      this.callbacks.onMessageRead?.(event);
+    });
+
+    // Edits / deletes of the visitor's messages
+    MESSAGE_CHANGE_EVENTS.forEach((name) => {
+      this.socket?.on(name, (data: unknown) => this.handleMessageChange(name, data));
     });
 
-    this.socket.on('message', (data: any) => {
+    this.socket.on('message', (data: unknown) => {
+      const message = normalizeMessage(data);
       // Generic: process if no conversation_id or matches current
-      if (!this.conversationId || !data.conversation_id || data.conversation_id === this.conversationId) {
-        this.handleMessage(data);
+      if (message && (!this.conversationId || !message.conversation_id || message.conversation_id === this.conversationId)) {
+        this.handleMessage(message);
       }
     });
   }
 
+  /**
+   * Headers for Gateway HTTP calls: API key plus the parent website's domain
+   */
+  private getGatewayHeaders(): HeadersInit {
+    return getGatewayHeaders(this.websiteInfo);
+  }
+
   /**
    * Initialize conversation and get JWT token and Socket.IO server URL
    * Must be called before connect()
@@ -545,40 +613,18 @@ export class ChatWebSocketNative {
         if (this.userInfo) {
           payload.userInfo = this.userInfo;
         }
+        if (this.userSignature) {
+          payload.userSignature = this.userSignature;
+        }
       }
 
-      const apiKey = process.env.NEXT_PUBLIC_GATEWAY_API_KEY || process.env.NEXT_PUBLIC_API_KEY;
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      };
-
-      if (apiKey) {
-        headers['Authorization'] = `Bearer ${apiKey}`;
-      }
-
-      // Send parent domain in custom headers for Gateway to use
-      // Since widget runs in iframe (webchat.amoiq.com), Origin header will be from iframe domain
-      // We need to send the actual parent website domain so Gateway can look it up
-      if (this.websiteInfo?.origin) {
-        headers['X-Website-Origin'] = this.websiteInfo.origin;
-      }
-      if (this.websiteInfo?.domain) {
-        headers['X-Website-Domain'] = this.websiteInfo.domain;
-      }
-
-      // DO NOT send X-Tenant-ID header - Gateway will set it based on domain lookup
-      // Gateway should check X-Website-Origin first, then fallback to Origin/Referer
+      addPreChatAnswers(payload);
 
-      const response = await fetch(`${this.gatewayUrl}/webchat/init`, {
+      const response = await fetchWithRetry(`${this.gatewayUrl}/webchat/init`, {
         method: 'POST',
-        headers,
+        headers: this.getGatewayHeaders(),
         body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => response.statusText);
-        throw new Error(`Failed to initialize conversation: ${response.status} ${response.statusText} - ${errorText}`);
-      }
+      }, 'Failed to initialize conversation', 'init');
 
       const data: ConversationInitResponse = await response.json();
       
@@ -596,15 +642,9 @@ export class ChatWebSocketNative {
       this.wsToken = data.ws_token;
       this.wsServerUrl = data.ws_server_url;
       
-      // Store expiration timestamp (expires_in is in seconds)
-      const expiresInMs = (data.expires_in || 900) * 1000; // Default 15 minutes (900s) if not provided
-      this.tokenExpiresAt = Date.now() + expiresInMs;
-      
       // Note: Do NOT call setConversationId() here - conversation_id comes later
       // from conversation:created event on session room
       
-      // Schedule proactive token refresh (refresh at 80% of expiration time)
-      this.scheduleTokenRefresh(expiresInMs * 0.8);
       // Extract additional fields from Gateway response
       if (data.integration_id) {
         this.integrationId = data.integration_id;
@@ -615,26 +655,14 @@ export class ChatWebSocketNative {
       // Extract tenant_id from response (Gateway should return it)
       const receivedTenantId = data.tenant_id;
       
-      // Also try to extract tenant_id, integration_id, site_id from JWT token payload (fallback)
-      let tokenTenantId: string | null = null;
-      let tokenIntegrationId: string | null = null;
-      let tokenSiteId: string | null = null;
-      if (this.wsToken) {
-        try {
-          const base64Url = this.wsToken.split('.')[1];
-          const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
-          const jsonPayload = decodeURIComponent(atob(base64).split('').map((c) => {
-            return '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2);
-          }).join(''));
-          const tokenPayload = JSON.parse(jsonPayload);
-          // Check for tenant_id in token (could be tenant_id, tenantId, or tenant_id)
-          tokenTenantId = tokenPayload.tenant_id || tokenPayload.tenantId || tokenPayload.tenant_id || null;
-          // Check for integration_id in token
-          tokenIntegrationId = tokenPayload.integration_id || tokenPayload.integrationId || null;
-          // Check for site_id in token
-          tokenSiteId = tokenPayload.site_id || tokenPayload.siteId || null;
-        } catch (_e) {}
-      }
+      // Also take tenant_id, integration_id, site_id from the ws_token claims (fallback)
+      const claims = readWsTokenClaims(this.wsToken);
+      const tokenTenantId = claims?.tenant_id ?? null;
+      const tokenIntegrationId = claims?.integration_id ?? null;
+      const tokenSiteId = claims?.site_id ?? null;
+
+      // Store expiration and schedule proactive refresh from the token's exp (expires_in as fallback)
+      this.setTokenExpiry(data.expires_in, claims);
       
       // Validate tenant_id - reject placeholder values
       const placeholderValues = ['your-tenant-id', 'tenant-id', 'your_tenant_id', 'tenant_id', ''];
@@ -677,23 +705,11 @@ export class ChatWebSocketNative {
       this.integrationId = finalIntegrationId || this.integrationId;
       this.siteId = finalSiteId || this.siteId;
       
-      // Decode JWT token to see payload (without verification)
-      let tokenPayload: any = null;
-      if (this.wsToken) {
-        try {
-          const base64Url = this.wsToken.split('.')[1];
-          const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
-          const jsonPayload = decodeURIComponent(atob(base64).split('').map((c) => {
-            return '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2);
-          }).join(''));
-          tokenPayload = JSON.parse(jsonPayload);
-        } catch (_e) {}
-      }
-
       return data;
     } catch (error) {
-      console.error('[Socket.IO] Error initializing conversation:', error);
-      this.callbacks.onError?.(error instanceof Error ? error : new Error('Failed to initialize conversation'));
+      const apiError = ChatApiError.from(error, 'Failed to initialize conversation');
+      console.error('[Socket.IO] Error initializing conversation:', apiError);
+      this.callbacks.onError?.(apiError);
       return null;
     }
   }
@@ -711,7 +727,9 @@ export class ChatWebSocketNative {
 
     if (!this.wsToken || !this.wsServerUrl) {
       console.error('[Socket.IO] Cannot connect: no JWT token or server URL. Call initialize() first.');
-      this.callbacks.onError?.(new Error('No JWT token or server URL. Call initialize() first.'));
+      const error = new Error('No JWT token or server URL. Call initialize() first.');
+      this.connection.transition('fatal', { error: error.message });
+      this.callbacks.onError?.(error);
       return;
     }
 
@@ -720,63 +738,43 @@ export class ChatWebSocketNative {
     }
 
     // Disconnect existing socket if it exists but is not connected
-    if (this.socket && !this.socket.connected) {
-      this.socket.removeAllListeners(); // Remove all listeners to prevent duplicates
-      this.socket.disconnect();
-      this.socket = null;
-    }
+    this.teardownSocket();
+    this.connectionMode = 'conversation';
+    this.connection.transition('connecting');
 
     try {
-      this.socket = io(this.wsServerUrl, {
-        auth: {
-          token: this.wsToken,
-        },
-        query: {
-          token: this.wsToken,  // Fallback: socket.handshake.query?.token
-        },
-        extraHeaders: {
-          'Authorization': `Bearer ${this.wsToken}`,  // Fallback: socket.handshake.headers?.authorization
-        },
-        transports: ['websocket', 'polling'], // Allow fallback to polling if websocket fails
-        reconnection: true,
-        reconnectionAttempts: this.maxReconnectAttempts,
-        reconnectionDelay: 1000,
-        reconnectionDelayMax: 5000,
-      });
+      this.socket = io(this.wsServerUrl, this.buildSocketOptions());
+      this.trackReconnection(this.socket);
 
       // Set up event listeners BEFORE connection is established
-      this.socket.on('message', (data: any) => {
-        this.handleMessage(data);
+      this.socket.on('message', (data: unknown) => {
+        const message = normalizeMessage(data);
+        if (message) this.handleMessage(message);
       });
 
       // Handle meta_message_created events (from backend when messages are saved to DB)
-      this.socket.on('meta_message_created', (data: any) => {
-        const rawMessage = data.message || data;
-        const messageKey = this.getMessageKey(rawMessage);
-        if (this.hasProcessedMessage(messageKey)) {
+      // and message:new events (alternative event name used by server)
+      const handleRoomMessage = (message: ChatMessagePayload) => {
+        if (!this.dedup.markIfNew(message)) {
           return;
         }
-        this.markMessageProcessed(messageKey);
-        this.handleMessage(rawMessage);
+        this.handleMessage(message);
+      };
+
+      this.socket.on('meta_message_created', (data: unknown) => {
+        const event = parseServerEvent('meta_message_created', data);
+        if (event) handleRoomMessage(event.message);
       });
 
-      // Handle message:new events (alternative event name used by server)
-      this.socket.on('message:new', (data: any) => {
-        const rawMessage = data.message || data;
-        const messageKey = this.getMessageKey(rawMessage);
-        if (this.hasProcessedMessage(messageKey)) {
-          return;
-        }
-        this.markMessageProcessed(messageKey);
-        const message = this.transformMessageNewToMessage(rawMessage);
-        this.handleMessage(message);
+      this.socket.on('message:new', (data: unknown) => {
+        const event = parseServerEvent('message:new', data);
+        if (event) handleRoomMessage(event.message);
       });
 
       // Handle AI event created events (optional, for AI responses)
-      this.socket.on('ai_event_created', (data: any) => {
-        // Extract message from data.message or use data directly
-        const message = data.message || data;
-        this.handleMessage(message);
+      this.socket.on('ai_event_created', (data: unknown) => {
+        const message = normalizeMessage(data);
+        if (message) this.handleMessage(message);
       });
 
       // Handle presence events
@@ -796,15 +794,15 @@ export class ChatWebSocketNative {
 
       // Connection established
       this.socket.on('connect', () => {
-        this.reconnectAttempts = 0;
+        this.authFailures = 0;
+        this.stopFallback();
+        this.startQualityPings();
         
         // Session-first flow: join session room first, wait for conversation:created
         if (this.conversationId && this.socket) {
           this.switchToConversationRoom(this.conversationId);
         } else if (this.presenceSessionId && this.socket) {
-          const roomName = `session:${this.presenceSessionId}`;
-          this.socket.emit('join:session', { sessionId: this.presenceSessionId });
-          this.currentRoom = roomName;
+          this.joinSessionRoom(this.presenceSessionId);
         } else {
           console.warn('[Socket.IO] WARNING - Cannot join any room:', {
             has_conversation_id: !!this.conversationId,
@@ -814,6 +812,7 @@ export class ChatWebSocketNative {
         }
         
         this.callbacks.onConnect?.();
+        this.notifyIfReconnected();
       });
 
       // Listen for joined event from server (confirmation of room join)
@@ -822,27 +821,19 @@ export class ChatWebSocketNative {
       // Handle connection errors
       this.socket.on('connect_error', (error: Error) => {
         console.error('[Socket.IO] Connection error:', error);
-        this.reconnectAttempts++;
+        if (this.isAuthFailure(error)) {
+          this.reauthenticate();
+          return;
+        }
+        this.noteConnectError();
         this.callbacks.onError?.(error);
       });
 
       // Handle disconnection
       this.socket.on('disconnect', (reason: string) => {
         this.callbacks.onDisconnect?.();
-
-        const isTokenExpired = this.isTokenExpired();
-        const isAuthError = reason === 'io server disconnect' || 
-                           reason.includes('auth') || 
-                           reason.includes('token') ||
-                           reason.includes('unauthorized');
-
-        if (this.shouldReconnect && (isAuthError || isTokenExpired)) {
-          this.initialize(this.visitorId).then(() => {
-            if (this.wsToken && this.wsServerUrl) {
-              this.connect();
-            }
-          });
-        }
+        this.stopQualityPings();
+        this.handleDisconnectReason(reason);
       });
 
       // Handle general errors
@@ -852,59 +843,455 @@ export class ChatWebSocketNative {
       });
     } catch (error) {
       console.error('[Socket.IO] Error creating connection:', error);
+      this.connection.transition('fatal', { error: (error as Error).message });
       this.callbacks.onError?.(error as Error);
     }
   }
 
   /**
-   * Transform message:new event format to standard message format
+   * Socket.IO options carrying the current ws_token
+   * The server reads the token from auth, falling back to query and the Authorization header
    */
-  private transformMessageNewToMessage(data: any): any {
-    // message:new event has fields like: id, message_text, sender_type, sender_id, etc.
-    // IMPORTANT: message:new events have message_id (actual message ID) and id (event ID)
-    // We should use message_id as the primary ID for deduplication
-    // Preserve all original fields first
-    // WebSocket payload format: { message: { text: string, sender: string, messageId: string, ... } }
-    
-    const transformed = {
-      ...data,
-      // Override with normalized fields (these take precedence)
-      id: data.message_id || data.messageId || data.id,  // Use message_id first (actual message ID), then messageId, then id
-      text: data.text || data.message_text || data.message,  // WebSocket uses "text" field directly
-      sender: data.sender_type === 'user' ? 'user' : (data.sender_type === 'agent' ? 'agent' : (data.sender_type === 'human' ? 'agent' : 'bot')),
-      senderId: data.sender_id || data.sender,  // Handle sender being a UUID
-      senderName: data.sender_name,
-      timestamp: data.timestamp || data.created_at || data.inserted_at || new Date().toISOString(),  // WebSocket uses "timestamp" directly
-      conversation_id: data.conversation_id,
-      tenant_id: data.tenant_id || data.tenantId,
-      status: data.status,
-      attachments: data.attachments,
-      metadata: data.metadata,
+  private buildSocketOptions(): Partial<ManagerOptions & SocketOptions> {
+    return {
+      auth: {
+        token: this.wsToken,
+      },
+      query: {
+        token: this.wsToken,  // Fallback: socket.handshake.query?.token
+      },
+      extraHeaders: {
+        'Authorization': `Bearer ${this.wsToken}`,  // Fallback: socket.handshake.headers?.authorization
+      },
+      transports: ['websocket', 'polling'], // Allow fallback to polling if websocket fails
+      reconnection: true,
+      reconnectionAttempts: this.maxReconnectAttempts,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 5000,
     };
-    
-    // If sender is a UUID (user ID), we'll let the normalization in embed/page.tsx handle it
-    // But ensure we have the original sender field preserved
-    if (data.sender && !transformed.senderId) {
-      transformed.senderId = data.sender;
+  }
+
+  /**
+   * False once disconnect() was called or the socket gave up for good
+   */
+  private get shouldReconnect(): boolean {
+    return !this.connection.is('idle', 'auth-failed', 'fatal');
+  }
+
+  private joinSessionRoom(sessionId: string): void {
+    if (!this.socket) return;
+    this.socket.emit('join:session', { sessionId });
+    this.connection.transition('in-session-room', { room: `session:${sessionId}`, conversationId: undefined });
+  }
+
+  /**
+   * Mirror Socket.IO's own reconnection loop in the connection state
+   * Manager listeners survive socket teardown, so events from a replaced socket are ignored
+   */
+  private trackReconnection(socket: Socket): void {
+    socket.io.on('reconnect_attempt', (attempt: number) => {
+      // While polling, Socket.IO's retries run in the background without changing the status
+      if (this.socket === socket && !this.connection.is('polling') && this.connection.can('reconnecting')) {
+        this.connection.transition('reconnecting', { attempt });
+      }
+    });
+
+    socket.io.on('reconnect_failed', () => {
+      if (this.socket !== socket) return;
+      if (!this.connection.is('polling') && this.connection.can('offline')) {
+        this.connection.transition('offline', { error: `Gave up after ${this.maxReconnectAttempts} reconnect attempts` });
+      }
+      this.startFallback(`Socket.IO gave up after ${this.maxReconnectAttempts} reconnect attempts`);
+      this.scheduleSocketRetry();
+    });
+  }
+
+  /**
+   * Count consecutive connect_errors; once they persist, receive over HTTP while Socket.IO keeps retrying
+   */
+  private noteConnectError(): void {
+    this.connectErrors++;
+    if (this.connectErrors >= FALLBACK_AFTER_ERRORS) {
+      this.startFallback(`${this.connectErrors} consecutive connect errors`);
     }
-    
-    return transformed;
   }
 
   /**
-   * Handle incoming messages from Socket.IO
+   * Start long-polling /webchat/messages, feeding the same callbacks as the socket
+   * Not started while the browser is offline - the online handler calls reconnect() instead.
+   */
+  private startFallback(reason: string): void {
+    if (!this.shouldReconnect) return;
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+    // Also back to polling after a socket retry (or token renewal) from polling failed again
+    if (!this.connection.is('polling') && this.connection.can('polling')) {
+      this.connection.transition('polling', { room: undefined }, reason);
+    }
+    if (this.poller) return;
+
+    console.warn(`[Socket.IO] Falling back to HTTP polling: ${reason}`);
+    this.quality.setTransport('http-fallback');
+    this.poller = new PollingReceiver({
+      baseUrl: this.gatewayUrl,
+      getHeaders: () => this.getGatewayHeaders(),
+      getTarget: () => ({
+        conversationId: this.conversationId || getConversationId() || undefined,
+        sessionId: this.presenceSessionId,
+      }),
+      getCursor: (conversationId) => getMessageCursor(conversationId),
+      onMessage: (message) => this.handlePolledMessage(message),
+      onEvent: (event) => this.handlePolledEvent(event),
+    });
+    this.poller.start();
+  }
+
+  /**
+   * Stop polling - called when the socket connects again
    */
-  private handleMessage(data: any): void {
-    const transformedMessage = this.transformMessageNewToMessage(data);
-    this.callbacks.onMessage?.(transformedMessage);
+  private stopFallback(): void {
+    this.connectErrors = 0;
+    if (this.socketRetryTimer) {
+      clearTimeout(this.socketRetryTimer);
+      this.socketRetryTimer = undefined;
+    }
+    if (!this.poller) return;
+    this.poller.stop();
+    this.poller = null;
   }
 
   /**
-   * Send a message through Socket.IO
-   * Message is pushed to Redis stream chat_incoming
+   * Give Socket.IO another round of reconnect attempts later (it stopped after maxReconnectAttempts)
+   */
+  private scheduleSocketRetry(): void {
+    if (this.socketRetryTimer || !this.poller) return;
+    this.socketRetryTimer = setTimeout(() => {
+      this.socketRetryTimer = undefined;
+      this.retrySocket();
+    }, SOCKET_RETRY_INTERVAL);
+  }
+
+  private retrySocket(): void {
+    if (!this.poller) return;
+    if (this.socket) {
+      // Restarts the manager's reconnect loop; reconnect_failed schedules the next retry
+      this.socket.connect();
+    } else {
+      this.reopenSocket();
+    }
+  }
+
+  private handlePolledMessage(message: ChatMessagePayload): void {
+    if (!this.dedup.markIfNew(message)) {
+      return;
+    }
+    // First message of a conversation started over HTTP - follow it from now on
+    if (!this.conversationId && message.conversation_id) {
+      this.conversationId = message.conversation_id;
+    }
+    if (!this.conversationId || !message.conversation_id || message.conversation_id === this.conversationId) {
+      this.handleMessage(message);
+    }
+  }
+
+  private handlePolledEvent({ event: name, data }: PolledEvent): void {
+    if (name === 'conversation:created') {
+      const event = parseServerEvent('conversation:created', data);
+      if (!event) return;
+      // No room to join while polling - the conversation is followed as soon as we know it
+      this.conversationId = event.conversation_id;
+      this.callbacks.onConversationCreated?.(event.conversation_id, event);
+      plugins.runLifecycleEvent(event);
+      return;
+    }
+    if (name === 'agents:availability') {
+      const event = parseServerEvent('agents:availability', data);
+      if (event) this.callbacks.onAvailabilityChanged?.(event.availability);
+      return;
+    }
+    if ((LIFECYCLE_EVENTS as readonly string[]).includes(name)) {
+      this.handleLifecycleEvent(name as LifecycleEventName, data);
+      return;
+    }
+    if ((MESSAGE_CHANGE_EVENTS as readonly string[]).includes(name)) {
+      this.handleMessageChange(name as MessageChangeEventName, data);
+    }
+  }
+
+  /**
+   * Close the current socket without firing its listeners
+   */
+  private teardownSocket(): void {
+    if (!this.socket) return;
+    this.stopQualityPings();
+    this.socket.removeAllListeners();
+    this.socket.disconnect();
+    this.socket = null;
+  }
+
+  /**
+   * Reopen the socket with the current credentials, using the flow that opened it
+   * The connect handlers rejoin the session/conversation room
+   */
+  private reopenSocket(): void {
+    if (this.connectionMode === 'presence') {
+      this.openPresenceSocket();
+    } else {
+      this.teardownSocket();
+      this.connect();
+    }
+  }
+
+  /**
+   * Whether a connect error was caused by the ws_token (expired, invalid or rejected by the auth middleware)
+   */
+  private isAuthFailure(error: Error & { data?: unknown }): boolean {
+    if (this.isTokenExpired()) return true;
+
+    // The Gateway's auth middleware passes { code, status } in data, with the same codes as the HTTP API
+    const data = error.data as { code?: unknown; status?: unknown } | undefined;
+    if (data && typeof data === 'object') {
+      const status = typeof data.status === 'number' ? data.status : undefined;
+      const { code } = ChatApiError.fromBody(data, 'Socket.IO connection refused', { status });
+      if (code !== 'UNKNOWN') {
+        return TOKEN_ERROR_CODES.includes(code);
+      }
+    }
+
+    // No (known) code - servers that only say it in the message text
+    const details = `${error.message} ${error.data ? JSON.stringify(error.data) : ''}`.toLowerCase();
+    return /auth|token|jwt|expired|unauthori[sz]ed|forbidden|401|403/.test(details);
+  }
+
+  /**
+   * Socket.IO doesn't retry after the server closed the connection - that happens when the token expires
+   */
+  private handleDisconnectReason(reason: string): void {
+    if (!this.shouldReconnect || reason === 'io client disconnect') {
+      return;
+    }
+    if (reason === 'io server disconnect' || this.isTokenExpired()) {
+      this.reauthenticate();
+      return;
+    }
+    // Transport dropped - Socket.IO reconnects on its own, reconnect_attempt reports the attempts
+    this.connection.transition('reconnecting', { attempt: 0 }, reason);
+  }
+
+  /**
+   * Store when the token expires and schedule proactive refresh at 80% of its lifetime
+   * Expiry comes from the token's exp (corrected for server clock skew), falling back to expires_in.
+   * @param claims - Already decoded claims of the current ws_token (decoded here when omitted)
+   */
+  private setTokenExpiry(expiresIn?: number, claims: WsTokenClaims | null = readWsTokenClaims(this.wsToken)): void {
+    const { expiresAt, lifetimeMs } = getTokenLifetime(claims, expiresIn, DEFAULT_TOKEN_LIFETIME);
+    this.tokenExpiresAt = expiresAt;
+    this.scheduleTokenRefresh(expiresAt - Date.now() - lifetimeMs * 0.2);
+  }
+
+  /**
+   * Fill in ids the credentials response left out from the token's claims (presence and renewed tokens)
+   */
+  private applyTokenClaims(claims: WsTokenClaims | null): void {
+    if (!claims) return;
+    this.tenantId = this.tenantId || claims.tenant_id || null;
+    this.integrationId = this.integrationId || claims.integration_id;
+    this.siteId = this.siteId || claims.site_id;
+  }
+
+  /**
+   * Get a fresh ws_token
+   * Concurrent callers (proactive refresh, connect_error, server disconnect) share one request.
+   */
+  private renewToken(): Promise<boolean> {
+    if (!this.renewPromise) {
+      this.renewPromise = this.fetchFreshCredentials().finally(() => {
+        this.renewPromise = null;
+      });
+    }
+    return this.renewPromise;
+  }
+
+  private async fetchFreshCredentials(): Promise<boolean> {
+    try {
+      if (!this.callbacks.onTokenRenew) {
+        return (await this.initialize(this.visitorId)) !== null;
+      }
+
+      const credentials = await this.callbacks.onTokenRenew();
+      if (!credentials?.ws_token) {
+        return false;
+      }
+      this.wsToken = credentials.ws_token;
+      if (credentials.websocket_url) {
+        this.wsServerUrl = credentials.websocket_url;
+      }
+      if (credentials.session_id) {
+        this.presenceSessionId = credentials.session_id;
+      }
+      const claims = readWsTokenClaims(credentials.ws_token);
+      this.applyTokenClaims(claims);
+      this.setTokenExpiry(credentials.expires_in, claims);
+      return true;
+    } catch (error) {
+      console.error('[Socket.IO] Failed to renew token:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Recover from an auth failure: renew the token and reconnect into the same room
+   * Gives up with SocketAuthError after maxAuthFailures attempts without a successful connect.
+   */
+  private reauthenticate(): Promise<void> {
+    if (!this.reauthPromise) {
+      this.reauthPromise = this.renewAndReconnect().finally(() => {
+        this.reauthPromise = null;
+      });
+    }
+    return this.reauthPromise;
+  }
+
+  private async renewAndReconnect(): Promise<void> {
+    if (!this.connection.can('fetching-session')) {
+      return;
+    }
+    // Stop Socket.IO's own retries - they would keep presenting the stale token
+    this.teardownSocket();
+    this.connection.transition('fetching-session', {}, 'ws_token expired or rejected');
+
+    while (this.shouldReconnect) {
+      if (this.authFailures >= this.maxAuthFailures) {
+        this.failAuthentication();
+        return;
+      }
+      this.authFailures++;
+
+      if (await this.renewToken()) {
+        if (this.shouldReconnect) {
+          this.reopenSocket();
+        }
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, AUTH_RETRY_DELAY * this.authFailures));
+    }
+  }
+
+  private failAuthentication(): void {
+    const error = new SocketAuthError(
+      `Socket authentication failed after ${this.authFailures} attempts: ws_token could not be renewed`,
+      this.authFailures
+    );
+    console.error('[Socket.IO] ❌ Giving up reconnecting:', error.message);
+    this.stopFallback();
+    this.connection.transition('auth-failed', { error: error.message });
+    if (this.tokenRefreshTimer) {
+      clearTimeout(this.tokenRefreshTimer);
+      this.tokenRefreshTimer = undefined;
+    }
+    this.teardownSocket();
+    this.callbacks.onError?.(error);
+  }
+
+  /**
+   * Handle incoming messages from Socket.IO (already validated and normalized)
+   */
+  private handleMessage(message: ChatMessagePayload): void {
+    // Remember the last message seen per conversation, so a reconnect can fetch what was missed
+    const conversationId = message.conversation_id || this.conversationId;
+    if (conversationId && !message.id.startsWith('temp-')) {
+      advanceMessageCursor(conversationId, { id: message.id, timestamp: message.timestamp });
+    }
+    // Plugins may rewrite or drop incoming messages (the cursor above still moves past dropped ones)
+    const received = plugins.runOnReceive(message);
+    if (!received) return;
+    this.callbacks.onMessage?.(received);
+    this.messageListeners.forEach((listener) => {
+      try {
+        listener(received);
+      } catch (error) {
+        console.error('[Socket.IO] Message listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Start measuring round-trips on the socket that just connected, and note which transport it uses
+   */
+  private startQualityPings(): void {
+    this.stopQualityPings();
+    const socket = this.socket;
+    if (!socket) return;
+
+    const engine = socket.io.engine;
+    this.quality.setTransport(engine?.transport?.name === 'polling' ? 'polling' : 'websocket');
+    // Engine.IO may start on long-polling and upgrade to WebSocket later
+    engine?.once('upgrade', (transport: { name: string }) => {
+      if (this.socket === socket) {
+        this.quality.setTransport(transport.name === 'websocket' ? 'websocket' : 'polling');
+      }
+    });
+
+    this.pingTimer = setInterval(() => void this.measureLatency(socket), PING_INTERVAL);
+    void this.measureLatency(socket);
+  }
+
+  private stopQualityPings(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = undefined;
+    }
+  }
+
+  /**
+   * Emit latency:ping and time the server's acknowledgment
+   */
+  private async measureLatency(socket: Socket): Promise<void> {
+    if (this.socket !== socket || !socket.connected || this.pingInFlight) return;
+    // Pings are expendable - never take a slot a message needs
+    if (!rateLimiter.tryAcquire('socket')) return;
+
+    this.pingInFlight = true;
+    const startedAt = Date.now();
+    try {
+      await socket.timeout(PING_TIMEOUT).emitWithAck('latency:ping', { ts: startedAt });
+      this.pingSupported = true;
+      if (this.socket === socket) {
+        this.quality.recordLatency(Date.now() - startedAt);
+      }
+    } catch {
+      // A server that never answered doesn't implement latency:ping - that says nothing about the network
+      if (this.pingSupported && this.socket === socket && socket.connected) {
+        this.quality.recordMissedPing();
+      }
+    } finally {
+      this.pingInFlight = false;
+    }
+  }
+
+  /**
+   * Fire onReconnect for every connect after the first one
+   * Anything broadcast while the socket was down never arrives, the listener fetches the gap over HTTP
+   */
+  private notifyIfReconnected(): void {
+    if (!this.hasConnected) {
+      this.hasConnected = true;
+      return;
+    }
+    this.quality.recordReconnect();
+    if (this.conversationId) {
+      this.callbacks.onReconnect?.(this.conversationId, getMessageCursor(this.conversationId));
+    }
+  }
+
+  /**
+   * Send a message through Socket.IO and wait for the server to acknowledge it
+   * Message is pushed to Redis stream chat_incoming. Resolves with the real message id once the server
+   * accepts it; rejects with a ChatApiError when it refuses (code from the ack) or never answers (TIMEOUT).
+   * Unanswered and retryable sends are emitted again with the same temp_id, so the server can deduplicate them.
    * @param tempId - Optional client-generated temp id for optimistic message replacement (server echoes in meta_message_created)
    */
-  async sendMessage(text: string, tempId?: string): Promise<void> {
+  async sendMessage(text: string, tempId?: string, options: SocketSendOptions = {}): Promise<SocketSendResult> {
     if (typeof window === 'undefined') {
       throw new Error('Socket.IO is only available in the browser');
     }
@@ -921,10 +1308,11 @@ export class ChatWebSocketNative {
     const isPlaceholder = this.tenantId && placeholderValues.includes(String(this.tenantId).toLowerCase());
     
     if (!this.tenantId || isPlaceholder) {
-      const error = new Error(
+      const error = new ChatApiError(
         isPlaceholder 
           ? `tenantId is a placeholder value ("${this.tenantId}"). Gateway must return actual tenant_id in /webchat/init response.`
-          : 'tenantId is required but not available. Make sure initialize() was called successfully and Gateway returned tenant_id.'
+          : 'tenantId is required but not available. Make sure initialize() was called successfully and Gateway returned tenant_id.',
+        { code: 'MISSING_TENANT_ID' }
       );
       console.error('[Socket.IO] ERROR - Invalid tenantId:', {
         tenantId: this.tenantId,
@@ -939,8 +1327,9 @@ export class ChatWebSocketNative {
 
     // integration_id is REQUIRED by the server - throw error if not available
     if (!this.integrationId) {
-      const error = new Error(
-        'integration_id is required but not available. Gateway must return integration_id in /webchat/init response or include it in JWT token payload.'
+      const error = new ChatApiError(
+        'integration_id is required but not available. Gateway must return integration_id in /webchat/init response or include it in JWT token payload.',
+        { code: 'MISSING_INTEGRATION_ID' }
       );
       console.error('[Socket.IO] ERROR - Missing integration_id:', {
         tenantId: this.tenantId,
@@ -954,11 +1343,21 @@ export class ChatWebSocketNative {
       throw error;
     }
 
+    // Plugins may enrich, redact or cancel the message
+    const sendContext: SendContext = { channel: 'socket', conversationId: this.conversationId };
+    const prepared = options.prepared
+      ? { cancelled: false as const, message: options.prepared }
+      : await plugins.runBeforeSend({ text, temp_id: tempId, attachments: options.attachments }, sendContext);
+    if (prepared.cancelled) {
+      throw new ChatApiError(`Message cancelled by plugin "${prepared.plugin}"`, { code: 'CANCELLED', retryable: false });
+    }
+    const outgoing: OutgoingMessage = prepared.message;
+
     // Prepare message payload according to Gateway plan
     // Server might expect tenant_id (snake_case) or tenantId (camelCase) - send both to be safe
     const message: any = {
       type: 'message',
-      text,
+      text: outgoing.text,
       tenantId: this.tenantId,  // camelCase
       tenant_id: this.tenantId,  // snake_case (server might expect this)
       conversation_id: this.conversationId,
@@ -984,6 +1383,9 @@ export class ChatWebSocketNative {
       if (this.userInfo) {
         message.userInfo = this.userInfo;
       }
+      if (this.userSignature) {
+        message.userSignature = this.userSignature;
+      }
     }
 
     // Add sender_name if available (from welcome message)
@@ -993,18 +1395,131 @@ export class ChatWebSocketNative {
     }
 
     // Add temp_id for optimistic message replacement (server echoes in meta_message_created)
-    if (tempId) {
-      message.temp_id = tempId;
+    if (outgoing.temp_id) {
+      message.temp_id = outgoing.temp_id;
+    }
+
+    if (outgoing.attachments?.items?.length) {
+      message.attachments = outgoing.attachments;
     }
 
+    // Context added by plugins (page, cart id, ...)
+    if (outgoing.metadata && Object.keys(outgoing.metadata).length > 0) {
+      message.metadata = outgoing.metadata;
+    }
+
+    // Lets support tell a visitor on a bad network apart from a slow backend
+    message.connection_quality = toConnectionQualityPayload(this.quality.getMetrics());
+
     try {
-      this.socket.emit('message', message);
+      return await withRetry('socketSend', async ({ timeoutMs = ACK_TIMEOUT }) => {
+        // 10 messages/sec per connection - wait for a slot rather than have the server drop the message
+        await rateLimiter.acquire('socket', options.signal);
+        if (!this.socket?.connected) {
+          throw new ChatApiError('Failed to send message: Socket.IO disconnected while the message was queued', {
+            code: 'NETWORK_ERROR',
+            retryable: false,
+          });
+        }
+
+        let ack: unknown;
+        try {
+          ack = await this.socket.timeout(timeoutMs).emitWithAck('message', message);
+        } catch (error) {
+          throw new ChatApiError(`Failed to send message: no acknowledgment within ${timeoutMs}ms`, { code: 'TIMEOUT', cause: error });
+        }
+        try {
+          const result = this.readMessageAck(ack);
+          plugins.runAfterSend(outgoing, result, sendContext);
+          return result;
+        } catch (error) {
+          if (isChatApiError(error, 'RATE_LIMIT_EXCEEDED')) {
+            rateLimiter.reportRejected('socket', error.rateLimit);
+          }
+          throw error;
+        }
+      }, {
+        signal: options.signal,
+        policy: { timeoutMs: options.ackTimeoutMs, maxAttempts: options.maxAttempts },
+        context: 'Failed to send message',
+      });
     } catch (error) {
       console.error('[Socket.IO] Error sending message:', error);
       throw error;
     }
   }
 
+  /**
+   * Interpret the server's acknowledgment of a 'message' emit
+   * Accepted: { ok: true, message_id, conversation_id } (also { data: { message_id } }, like the HTTP 202)
+   * Rejected: { ok: false, error, code, details } or { error: {...} } - thrown as ChatApiError
+   */
+  private readMessageAck(ack: any): SocketSendResult {
+    const rejection = ack?.ok === false || ack?.success === false
+      ? ack
+      : ack?.error && typeof ack.error === 'object' ? ack.error : null;
+    if (rejection) {
+      throw ChatApiError.fromBody(rejection, 'Server rejected message');
+    }
+
+    const data = ack?.data ?? ack ?? {};
+    return {
+      message_id: data.message_id || data.messageId || data.id,
+      conversation_id: data.conversation_id || data.conversationId,
+    };
+  }
+
+  /**
+   * Tell the conversation room the visitor started/stopped typing
+   * Silently skipped until the socket is connected and a conversation exists
+   */
+  sendTyping(isTyping: boolean): void {
+    if (!this.socket || !this.socket.connected || !this.conversationId) {
+      return;
+    }
+
+    const payload: any = {
+      conversationId: this.conversationId,
+      conversation_id: this.conversationId,
+      sender_type: 'user',
+    };
+    if (this.presenceSessionId) {
+      payload.sessionId = this.presenceSessionId;
+    }
+    const senderName = getSenderName();
+    if (senderName) {
+      payload.sender_name = senderName;
+    }
+
+    // Typing events are best-effort - drop them rather than queue behind messages
+    if (!rateLimiter.tryAcquire('socket')) {
+      return;
+    }
+    this.socket.emit(isTyping ? 'typing:start' : 'typing:stop', payload);
+  }
+
+  /**
+   * Report agent/bot messages the visitor has actually seen
+   * Returns false when the receipt could not be sent (not connected / no conversation yet / rate limited)
+   */
+  markMessagesRead(messageIds: string[]): boolean {
+    if (!this.socket || !this.socket.connected || !this.conversationId || messageIds.length === 0) {
+      return false;
+    }
+    if (!rateLimiter.tryAcquire('socket')) {
+      return false;
+    }
+
+    this.socket.emit('message:read', {
+      conversationId: this.conversationId,
+      conversation_id: this.conversationId,
+      message_ids: messageIds,
+      reader_type: 'user',
+      read_at: new Date().toISOString(),
+    });
+    return true;
+  }
+
   /**
    * Request list of online users (admin only)
    */
@@ -1050,75 +1565,15 @@ export class ChatWebSocketNative {
     }
 
     this.tokenRefreshTimer = setTimeout(async () => {
-      if (this.socket && this.socket.connected) {
-        try {
-          // Re-initialize to get new token
-          const result = await this.initialize(this.visitorId);
-          if (result && this.socket) {
-            // Disconnect old connection and reconnect with new token
-            const wasConnected = this.socket.connected;
-            this.socket.disconnect();
-            
-            if (wasConnected) {
-              // Reconnect with new token
-              this.connect();
-            }
-          }
-        } catch (error) {
-          console.error('[Socket.IO] Failed to refresh token:', error);
-          // Token refresh failed - let Socket.IO handle reconnection
-        }
+      if (!this.shouldReconnect || !this.socket) {
+        return;
       }
-    }, refreshInMs);
-  }
-
-  /**
-   * Generate unique key for message deduplication
-   * Uses content-based key since IDs won't match between message:new and meta_message_created
-   * message:new broadcasts BEFORE DB write (no message_id), meta_message_created broadcasts AFTER (with message_id)
-   */
-  private getMessageKey(data: any): string {
-    // Use content-based key: conversation_id + sender_type + text
-    // This works because IDs will never match between the two events
-    const text = data.text || data.message_text;
-    const sender = data.sender_type || data.sender;
-    const conversationId = data.conversation_id;
-    
-    // Normalize sender to match backend values: 'human', 'ai', 'user'
-    const normalizedSender = sender === 'agent' ? 'human' : (sender === 'bot' ? 'ai' : sender);
-    
-    return `${conversationId}:${normalizedSender}:${text}`;
-  }
-
-  /**
-   * Check if message has already been processed
-   */
-  private hasProcessedMessage(messageKey: string): boolean {
-    const timestamp = this.processedMessageKeys.get(messageKey);
-    if (!timestamp) return false;
-    
-    // Check if still within TTL
-    return (Date.now() - timestamp) < this.MESSAGE_CACHE_TTL;
-  }
-
-  /**
-   * Mark message as processed
-   */
-  private markMessageProcessed(messageKey: string): void {
-    this.processedMessageKeys.set(messageKey, Date.now());
-    this.cleanMessageCache();
-  }
-
-  /**
-   * Clean up expired entries from message cache
-   */
-  private cleanMessageCache(): void {
-    const now = Date.now();
-    for (const [key, timestamp] of this.processedMessageKeys.entries()) {
-      if (now - timestamp > this.MESSAGE_CACHE_TTL) {
-        this.processedMessageKeys.delete(key);
+      // Renew while the current token still works; the socket is only swapped once the new token is in hand.
+      // If renewal fails, the expired token surfaces as an auth failure and goes through reauthenticate()
+      if (await this.renewToken() && this.shouldReconnect && this.socket) {
+        this.reopenSocket();
       }
-    }
+    }, refreshInMs);
   }
 
   /**
@@ -1136,7 +1591,12 @@ export class ChatWebSocketNative {
    * Disconnect Socket.IO connection
    */
   disconnect(): void {
-    this.shouldReconnect = false;
+    if (!this.connection.is('idle')) {
+      this.connection.transition('idle', { room: undefined, conversationId: undefined });
+    }
+    this.stopFallback();
+    this.stopQualityPings();
+    this.quality.setTransport('none');
     
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
@@ -1155,6 +1615,59 @@ export class ChatWebSocketNative {
     }
   }
 
+  /**
+   * Current connection status (room, reconnect attempt, error)
+   */
+  getConnectionState(): ConnectionState {
+    return this.connection.getState();
+  }
+
+  /**
+   * Listen for connection state changes. Returns an unsubscribe function.
+   */
+  subscribeConnectionState(listener: ConnectionStateListener): () => void {
+    return this.connection.subscribe(listener);
+  }
+
+  /**
+   * Current connection quality: rating, average round-trip, recent reconnects and transport
+   */
+  getConnectionQuality(): ConnectionMetrics {
+    return this.quality.getMetrics();
+  }
+
+  /**
+   * Listen for connection quality changes (rating or transport). Returns an unsubscribe function.
+   */
+  subscribeConnectionQuality(listener: ConnectionQualityListener): () => void {
+    return this.quality.subscribe(listener);
+  }
+
+  /**
+   * Recent connection transitions, oldest first - useful when debugging flaky connections
+   */
+  getConnectionHistory(): ConnectionTransition[] {
+    return this.connection.getHistory();
+  }
+
+  /**
+   * Try again after Socket.IO gave up (offline or polling), e.g. when the browser reports it is back online
+   */
+  reconnect(): void {
+    if (this.connection.is('offline')) {
+      this.reopenSocket();
+    } else if (this.connection.is('polling')) {
+      this.retrySocket();
+    }
+  }
+
+  /**
+   * Get the conversation the socket is following (if any)
+   */
+  getConversationId(): string | undefined {
+    return this.conversationId;
+  }
+
   /**
    * Check if Socket.IO is connected
    */
@@ -1168,9 +1681,10 @@ export class ChatWebSocketNative {
   /**
    * Set user information (for logged-in users)
    */
-  setUser(userId: string, userInfo?: UserInfo): void {
+  setUser(userId: string, userInfo?: UserInfo, userSignature?: string): void {
     this.userId = userId;
     this.userInfo = userInfo;
+    this.userSignature = userSignature;
   }
 
   /**
@@ -1179,5 +1693,6 @@ export class ChatWebSocketNative {
   clearUser(): void {
     this.userId = undefined;
     this.userInfo = undefined;
+    this.userSignature = undefined;
   }
 }
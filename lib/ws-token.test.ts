@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { decodeWsToken, InvalidTokenError } from './ws-token';
+
+function token(claims: Record<string, unknown>): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return [encode({ alg: 'HS256', typ: 'JWT' }), encode(claims), 'signature'].join('.');
+}
+
+const validClaims = {
+  tenant_id: 'tenant-1',
+  integration_id: 'integration-1',
+  site_id: 'site-1',
+  session_id: 'session-1',
+  iat: 1700000000,
+  exp: 1700000900,
+};
+
+function decodeError(value: string): InvalidTokenError {
+  try {
+    decodeWsToken(value);
+  } catch (error) {
+    return error as InvalidTokenError;
+  }
+  throw new Error('decodeWsToken did not throw');
+}
+
+describe('decodeWsToken', () => {
+  it('returns the claims of a complete token', () => {
+    expect(decodeWsToken(token(validClaims))).toEqual(validClaims);
+  });
+
+  it('accepts camelCase ids', () => {
+    const { tenant_id, site_id, ...rest } = validClaims;
+    const claims = decodeWsToken(token({ ...rest, tenantId: tenant_id, siteId: site_id }));
+
+    expect(claims.tenant_id).toBe('tenant-1');
+    expect(claims.site_id).toBe('site-1');
+  });
+
+  it('reports every missing required claim', () => {
+    const { exp, integration_id, ...rest } = validClaims;
+    const error = decodeError(token(rest));
+
+    expect(error).toBeInstanceOf(InvalidTokenError);
+    expect(error.missingClaims).toEqual(['integration_id', 'exp']);
+    expect(error.message).toBe('ws_token is missing required claims: integration_id, exp');
+  });
+
+  it('rejects a claim of the wrong type', () => {
+    const error = decodeError(token({ ...validClaims, exp: '1700000900' }));
+
+    expect(error.claim).toBe('exp');
+    expect(error.missingClaims).toEqual([]);
+  });
+
+  it('rejects a token that is not a JWT', () => {
+    expect(() => decodeWsToken('not-a-token')).toThrow('ws_token is not a JWT');
+  });
+});
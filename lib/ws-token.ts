@@ -0,0 +1,152 @@
+/**
+ * ws_token claims and server clock
+ * The Gateway's ws_token (from /webchat/init and /webchat/session) is a JWT whose payload carries
+ * tenant_id, integration_id, site_id, exp and iat. The widget can't verify it - it only decodes the payload
+ * to fill in ids the response body left out, and to know when the token expires.
+ * exp is on the server's clock, so expiry is corrected by the skew measured from Gateway `Date` headers.
+ */
+
+export interface WsTokenClaims {
+  tenant_id: string;
+  integration_id: string;
+  site_id: string;
+  session_id?: string;
+  visitor_id?: string;
+  exp: number; // Seconds since epoch (server clock)
+  iat: number; // Seconds since epoch (server clock)
+}
+
+/**
+ * The ws_token isn't a JWT, or its payload lacks required claims or has claims of the wrong type
+ */
+export class InvalidTokenError extends Error {
+  readonly claim?: string;
+  readonly missingClaims: string[];
+
+  constructor(message: string, claim?: string, missingClaims: string[] = []) {
+    super(message);
+    this.name = 'InvalidTokenError';
+    this.claim = claim;
+    this.missingClaims = missingClaims;
+  }
+}
+
+/** Claims the Gateway may send in camelCase */
+const STRING_CLAIMS: Array<[Exclude<keyof WsTokenClaims, 'exp' | 'iat'>, string]> = [
+  ['tenant_id', 'tenantId'],
+  ['integration_id', 'integrationId'],
+  ['site_id', 'siteId'],
+  ['session_id', 'sessionId'],
+  ['visitor_id', 'visitorId'],
+];
+
+const NUMERIC_CLAIMS: Array<'exp' | 'iat'> = ['exp', 'iat'];
+
+/** Claims every Gateway-issued ws_token carries */
+const REQUIRED_CLAIMS: Array<keyof WsTokenClaims> = ['tenant_id', 'integration_id', 'site_id', 'exp', 'iat'];
+
+function decodeBase64Url(segment: string): string {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Decode and validate the ws_token payload (no signature check - that's the server's job)
+ * @throws InvalidTokenError
+ */
+export function decodeWsToken(token: string): WsTokenClaims {
+  const segments = token.split('.');
+  if (segments.length !== 3 || !segments[1]) {
+    throw new InvalidTokenError('ws_token is not a JWT');
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(decodeBase64Url(segments[1]));
+  } catch {
+    throw new InvalidTokenError('ws_token payload is not valid base64url JSON');
+  }
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new InvalidTokenError('ws_token payload is not an object');
+  }
+  const raw = payload as Record<string, unknown>;
+
+  const claims: Partial<WsTokenClaims> = {};
+  for (const [claim, alias] of STRING_CLAIMS) {
+    const value = raw[claim] ?? raw[alias];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new InvalidTokenError(`ws_token claim ${claim} must be a string`, claim);
+    }
+    claims[claim] = String(value);
+  }
+  for (const claim of NUMERIC_CLAIMS) {
+    const value = raw[claim];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new InvalidTokenError(`ws_token claim ${claim} must be a number (seconds)`, claim);
+    }
+    claims[claim] = value;
+  }
+
+  const missing = REQUIRED_CLAIMS.filter((claim) => claims[claim] === undefined);
+  if (missing.length > 0) {
+    throw new InvalidTokenError(`ws_token is missing required claims: ${missing.join(', ')}`, missing[0], missing);
+  }
+  return claims as WsTokenClaims;
+}
+
+/**
+ * decodeWsToken() that logs instead of throwing - callers fall back to the response body / expires_in
+ */
+export function readWsTokenClaims(token: string | undefined): WsTokenClaims | null {
+  if (!token) return null;
+  try {
+    return decodeWsToken(token);
+  } catch (error) {
+    console.warn('[Socket.IO] Could not read ws_token claims:', (error as Error).message);
+    return null;
+  }
+}
+
+let clockSkewMs = 0; // Server clock minus client clock
+
+/**
+ * Update the clock skew from a Gateway response's Date header (needs Access-Control-Expose-Headers: Date)
+ * Date has one-second resolution, so differences under a second are ignored.
+ */
+export function recordServerDate(headers: Headers): void {
+  const date = headers.get('Date');
+  if (!date) return;
+  const serverTime = Date.parse(date);
+  if (Number.isNaN(serverTime)) return;
+  const skew = serverTime - Date.now();
+  clockSkewMs = Math.abs(skew) < 1000 ? 0 : skew;
+}
+
+export function getClockSkew(): number {
+  return clockSkewMs;
+}
+
+export interface TokenLifetime {
+  expiresAt: number; // Client-clock timestamp (ms)
+  lifetimeMs: number; // Full lifetime as issued (exp - iat), or what was left when received
+}
+
+/**
+ * When the token expires on the client's clock
+ * Uses exp (skew-corrected) when the token's claims could be read, else expires_in from the response, else the default lifetime.
+ * @param expiresIn - Seconds, from the response body
+ * @param defaultLifetime - Seconds
+ */
+export function getTokenLifetime(claims: WsTokenClaims | null, expiresIn: number | undefined, defaultLifetime: number): TokenLifetime {
+  const now = Date.now();
+  if (claims) {
+    return { expiresAt: claims.exp * 1000 - clockSkewMs, lifetimeMs: (claims.exp - claims.iat) * 1000 };
+  }
+  const lifetimeMs = (expiresIn || defaultLifetime) * 1000;
+  return { expiresAt: now + lifetimeMs, lifetimeMs };
+}
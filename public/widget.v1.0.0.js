@@ -128,6 +128,31 @@
     if (config.siteId) {
       urlParams.set('siteId', config.siteId);
     }
+
+    // Add optional transport ("hybrid" | "http" | "socket") from config if provided
+    if (config.transport) {
+      urlParams.set('transport', config.transport);
+    }
+
+    // Add optional message edit/delete window (minutes, 0 turns editing off) from config if provided
+    if (config.messageEditWindow !== undefined) {
+      urlParams.set('editWindow', String(config.messageEditWindow));
+    }
+
+    // Add optional satisfaction survey settings (object, or false to turn it off)
+    if (config.csat !== undefined) {
+      urlParams.set('csat', JSON.stringify(config.csat));
+    }
+
+    // Add the visitor identified by the site, if any (skips the pre-chat form)
+    if (config.user && config.user.id) {
+      urlParams.set('userId', config.user.id);
+      if (config.user.name) urlParams.set('userName', config.user.name);
+      if (config.user.email) urlParams.set('userEmail', config.user.email);
+      if (config.user.phone) urlParams.set('userPhone', config.user.phone);
+      // Server-generated proof of the id (identity verification)
+      if (config.user.signature) urlParams.set('userSignature', config.user.signature);
+    }
     
     iframe.src = `${baseUrl}/embed?${urlParams.toString()}`;
     iframe.style.cssText = `
@@ -195,6 +220,10 @@
       if (e.data && e.data.type === 'amoiq-widget-new-message') {
         showNewMessageBadge();
       }
+      // Chat was opened in another tab - messages are read there
+      if (e.data && e.data.type === 'amoiq-widget-messages-read') {
+        hideNewMessageBadge();
+      }
     });
   }
 